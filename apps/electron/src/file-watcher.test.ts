@@ -0,0 +1,203 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileWatcher, WatchedFileEvent, readTelemetrySummary } from './file-watcher';
+import { SetupLibrary, isInFolder, statIfExists } from './setup-library';
+
+/**
+ * Whether fs.watch fails for recursive watching, as with the Node version of Electron on Linux
+ */
+const platform = vi.hoisted(() => ({ recursiveUnavailable: false }));
+
+vi.mock('fs', async importOriginal => {
+  const actual = await importOriginal<typeof import('fs')>();
+  const watch = (target: fs.PathLike, options: fs.WatchOptions, listener: fs.WatchListener<string>) => {
+    if (options.recursive && platform.recursiveUnavailable) {
+      throw Object.assign(new Error('recursive watching is unavailable'), { code: 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM' });
+    }
+    return actual.watch(target, options, listener);
+  };
+  return { ...actual, watch };
+});
+
+const FIXTURE = fs.readFileSync(path.join(__dirname, '..', '..', '..', 'packages', 'setup-parser', 'fixtures', 'bmw-m4-gt3.sto'), 'utf8');
+
+/**
+ * Debounce short enough to keep the tests fast
+ */
+const DEBOUNCE_MS = 50;
+
+let directory: string;
+let setups: string;
+let telemetry: string;
+let events: WatchedFileEvent[];
+let watcher: FileWatcher;
+
+beforeEach(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), 'auriga-watcher-'));
+  setups = path.join(directory, 'setups');
+  telemetry = path.join(directory, 'telemetry');
+  fs.mkdirSync(path.join(setups, 'bmwm4gt3'), { recursive: true });
+  fs.mkdirSync(telemetry);
+
+  const library = new SetupLibrary(path.join(directory, 'setup-library.json'));
+  library.setRoot(setups);
+  events = [];
+  watcher = new FileWatcher(library, event => events.push(event), DEBOUNCE_MS);
+});
+
+afterEach(() => {
+  watcher.close();
+  platform.recursiveUnavailable = false;
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+/**
+ * Wait until the watcher reported the given number of events, and a little longer to catch extra ones
+ */
+async function waitForEvents(count: number): Promise<WatchedFileEvent[]> {
+  await vi.waitFor(() => expect(events.length).toBeGreaterThanOrEqual(count), { timeout: 2000 });
+  await new Promise(resolve => setTimeout(resolve, DEBOUNCE_MS * 3));
+  return events;
+}
+
+describe('FileWatcher', () => {
+  it('reports new, changed and removed setups once their events settled, with their library entry', async () => {
+    watcher.watch('setups', setups);
+    const filePath = path.join(setups, 'bmwm4gt3', 'race.sto');
+
+    fs.writeFileSync(filePath, FIXTURE);
+    fs.appendFileSync(filePath, '\n');
+    expect(await waitForEvents(1)).toEqual([expect.objectContaining({
+      folder: 'setups',
+      filePath,
+      name: 'race.sto',
+      change: 'added',
+      setup: expect.objectContaining({ carId: 'bmw_m4_gt3', trackId: 'spa' })
+    })]);
+
+    fs.writeFileSync(filePath, FIXTURE.replace('TRACK=spa', 'TRACK=monza'));
+    expect((await waitForEvents(2))[1]).toMatchObject({ change: 'changed', setup: { trackId: 'monza' } });
+
+    fs.rmSync(filePath);
+    expect((await waitForEvents(3))[2]).toMatchObject({ change: 'removed', setup: undefined });
+    expect(events).toHaveLength(3);
+  });
+
+  it('only reports the files present when watching started once they change', async () => {
+    const filePath = path.join(setups, 'bmwm4gt3', 'race.sto');
+    fs.writeFileSync(filePath, FIXTURE);
+    watcher.watch('setups', setups);
+
+    fs.writeFileSync(path.join(setups, 'bmwm4gt3', 'notes.txt'), 'Not a setup');
+    fs.writeFileSync(filePath, FIXTURE);
+    fs.writeFileSync(filePath, `${FIXTURE}\n`);
+
+    expect(await waitForEvents(1)).toEqual([expect.objectContaining({ filePath, change: 'changed' })]);
+  });
+
+  it('ignores files removed before their events settled', async () => {
+    watcher.watch('setups', setups);
+    const filePath = path.join(setups, 'bmwm4gt3', 'race.sto');
+
+    fs.writeFileSync(filePath, FIXTURE);
+    fs.rmSync(filePath);
+    fs.writeFileSync(path.join(setups, 'bmwm4gt3', 'quali.sto'), FIXTURE);
+
+    expect(await waitForEvents(1)).toEqual([expect.objectContaining({ name: 'quali.sto', change: 'added' })]);
+  });
+
+  it('summarizes new telemetry files', async () => {
+    watcher.watch('telemetry', telemetry);
+
+    fs.writeFileSync(path.join(telemetry, 'lap.csv'), 'Speed,RPM\n100,6000\n');
+    fs.writeFileSync(path.join(telemetry, 'empty.csv'), '');
+
+    const reported = await waitForEvents(2);
+    expect(reported.find(event => event.name === 'lap.csv')).toMatchObject({ change: 'added', telemetry: { columns: ['Speed', 'RPM'], rows: 1 } });
+    expect(reported.find(event => event.name === 'empty.csv')).toMatchObject({ change: 'added', error: 'Empty telemetry file' });
+  });
+
+  it('stops reporting the files of a folder it no longer watches', async () => {
+    watcher.watch('setups', setups);
+    watcher.watch('setups', undefined);
+
+    fs.writeFileSync(path.join(setups, 'bmwm4gt3', 'race.sto'), FIXTURE);
+    await new Promise(resolve => setTimeout(resolve, DEBOUNCE_MS * 3));
+
+    expect(watcher.getDirectory('setups')).toBeUndefined();
+    expect(events).toEqual([]);
+  });
+
+  it('fails for folders that do not exist', () => {
+    expect(() => watcher.watch('setups', path.join(directory, 'missing'))).toThrow('Folder not found');
+  });
+
+  describe('without recursive watching', () => {
+    beforeEach(() => {
+      platform.recursiveUnavailable = true;
+    });
+
+    it('watches the subfolders present when watching started', async () => {
+      watcher.watch('setups', setups);
+
+      fs.writeFileSync(path.join(setups, 'bmwm4gt3', 'race.sto'), FIXTURE);
+
+      expect(await waitForEvents(1)).toEqual([expect.objectContaining({ name: 'race.sto', change: 'added' })]);
+    });
+
+    it('watches subfolders created later, reporting the files already in them', async () => {
+      watcher.watch('setups', setups);
+      const copied = path.join(directory, 'copied');
+      fs.mkdirSync(copied);
+      fs.writeFileSync(path.join(copied, 'quali.sto'), FIXTURE);
+
+      fs.renameSync(copied, path.join(setups, 'bmwm4gt3', 'monza'));
+      expect(await waitForEvents(1)).toEqual([expect.objectContaining({ name: 'quali.sto', change: 'added' })]);
+
+      fs.writeFileSync(path.join(setups, 'bmwm4gt3', 'monza', 'race.sto'), FIXTURE);
+      expect((await waitForEvents(2))[1]).toMatchObject({ name: 'race.sto', change: 'added', setup: { relativePath: 'bmwm4gt3/monza/race.sto' } });
+    });
+
+    it('watches a removed subfolder again when it is created anew', async () => {
+      watcher.watch('setups', setups);
+      const monza = path.join(setups, 'bmwm4gt3', 'monza');
+      fs.mkdirSync(monza);
+      await new Promise(resolve => setTimeout(resolve, DEBOUNCE_MS));
+
+      fs.rmSync(monza, { recursive: true });
+      await new Promise(resolve => setTimeout(resolve, DEBOUNCE_MS));
+      fs.mkdirSync(monza);
+      await new Promise(resolve => setTimeout(resolve, DEBOUNCE_MS));
+      fs.writeFileSync(path.join(monza, 'race.sto'), FIXTURE);
+
+      expect(await waitForEvents(1)).toEqual([expect.objectContaining({ name: 'race.sto', change: 'added' })]);
+    });
+  });
+});
+
+describe('readTelemetrySummary', () => {
+  it('reads the header columns, without quotes, and counts the data lines', () => {
+    const filePath = path.join(directory, 'lap.csv');
+    fs.writeFileSync(filePath, '"Speed", "RPM",Gear\r\n100,6000,3\r\n\r\n120,7000,4\r\n');
+
+    expect(readTelemetrySummary(filePath)).toEqual({ columns: ['Speed', 'RPM', 'Gear'], rows: 2 });
+  });
+});
+
+describe('isInFolder', () => {
+  it('accepts the folder and the paths below it only', () => {
+    expect(isInFolder(setups, setups)).toBe(true);
+    expect(isInFolder(setups, path.join(setups, 'bmwm4gt3', 'race.sto'))).toBe(true);
+    expect(isInFolder(setups, path.join(directory, 'race.sto'))).toBe(false);
+    expect(isInFolder(setups, `${setups}-old`)).toBe(false);
+  });
+});
+
+describe('statIfExists', () => {
+  it('has no stats for files that do not exist', () => {
+    expect(statIfExists(path.join(directory, 'missing.sto'))).toBeUndefined();
+    expect(statIfExists(setups)?.isDirectory()).toBe(true);
+  });
+});
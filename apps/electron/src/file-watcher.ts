@@ -0,0 +1,332 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SetupLibrary, SetupLibraryEntry, isInFolder, isSetupFile, statIfExists } from './setup-library';
+
+/**
+ * Time without new events before a file is read, iRacing and SimHub write files in several steps
+ */
+const DEFAULT_DEBOUNCE_MS = 1000;
+
+/**
+ * File extensions of telemetry exports
+ */
+const TELEMETRY_EXTENSIONS = ['.csv'];
+
+/**
+ * Kind of folder being watched
+ */
+export type WatchedFolder = 'setups' | 'telemetry';
+
+/**
+ * Columns and size of a telemetry CSV file
+ */
+export interface TelemetryFileSummary {
+  // Column names of the header line
+  columns: string[];
+
+  // Number of data lines
+  rows: number;
+}
+
+/**
+ * File that appeared, changed or disappeared in a watched folder
+ */
+export interface WatchedFileEvent {
+  folder: WatchedFolder;
+  filePath: string;
+
+  // File name with extension
+  name: string;
+
+  change: 'added' | 'changed' | 'removed';
+
+  // Last modified time of the file (ISO 8601), missing for removed files
+  modified?: string;
+
+  // Library entry of a setup file, with the car and track it was parsed with
+  setup?: SetupLibraryEntry;
+
+  // Summary of a telemetry file
+  telemetry?: TelemetryFileSummary;
+
+  // Why the file couldn't be read or parsed
+  error?: string;
+}
+
+/**
+ * Watcher of the setups and telemetry folders
+ *
+ * Events of a file are debounced until it has been quiet for a moment, then
+ * the file is parsed (setups are updated in the setup library) and reported
+ * once. Events that don't change the size or modified time of a file, such as
+ * a second write of the same content, are ignored.
+ */
+export class FileWatcher {
+  private directories = new Map<WatchedFolder, string>();
+
+  // Stops the fs watchers of each watched folder
+  private watchers = new Map<WatchedFolder, () => void>();
+
+  // Size and modified time of the files already reported or present when watching started
+  private known = new Map<string, string>();
+
+  // Debounce timers of the files with pending events
+  private pending = new Map<string, { folder: WatchedFolder; timer: NodeJS.Timeout }>();
+
+  /**
+   * Create a file watcher, nothing is watched until watch() is called
+   * @param setupLibrary Library updated with the setups found in the setups folder
+   * @param notify Called with each new, changed or removed file
+   * @param debounceMs Time without events before a file is read
+   */
+  constructor(
+    private setupLibrary: SetupLibrary,
+    private notify: (event: WatchedFileEvent) => void,
+    private debounceMs: number = DEFAULT_DEBOUNCE_MS
+  ) {}
+
+  /**
+   * Get the directory watched for a kind of folder
+   * @param folder Kind of folder
+   * @returns Watched directory, or undefined if none is watched
+   */
+  public getDirectory(folder: WatchedFolder): string | undefined {
+    return this.directories.get(folder);
+  }
+
+  /**
+   * Watch a directory and its subdirectories, replacing the directory watched for the same kind of folder
+   * @param folder Kind of folder
+   * @param directory Directory to watch, or undefined to stop watching
+   * @throws Error if the directory doesn't exist
+   */
+  public watch(folder: WatchedFolder, directory: string | undefined): void {
+    this.unwatch(folder);
+    if (!directory) return;
+
+    const resolved = path.resolve(directory);
+    if (!fs.existsSync(resolved) || !fs.statSync(resolved).isDirectory()) {
+      throw new Error(`Folder not found: ${resolved}`);
+    }
+
+    // Files already in the folder are only reported once they change
+    for (const filePath of listFiles(resolved)) {
+      if (isWatchedFile(folder, filePath)) {
+        this.known.set(filePath, getFingerprint(fs.statSync(filePath)));
+      }
+    }
+
+    this.directories.set(folder, resolved);
+    this.watchers.set(folder, watchDirectory(resolved, filePath => this.schedule(folder, filePath)));
+  }
+
+  /**
+   * Stop watching every folder
+   */
+  public close(): void {
+    for (const folder of [...this.directories.keys()]) {
+      this.unwatch(folder);
+    }
+  }
+
+  /**
+   * Stop watching the directory of a kind of folder, dropping its pending events
+   */
+  private unwatch(folder: WatchedFolder): void {
+    const directory = this.directories.get(folder);
+    if (!directory) return;
+
+    this.watchers.get(folder)?.();
+
+    for (const [filePath, { folder: pendingFolder, timer }] of this.pending) {
+      if (pendingFolder === folder) {
+        clearTimeout(timer);
+        this.pending.delete(filePath);
+      }
+    }
+
+    for (const filePath of [...this.known.keys()]) {
+      if (isInFolder(directory, filePath)) {
+        this.known.delete(filePath);
+      }
+    }
+
+    this.watchers.delete(folder);
+    this.directories.delete(folder);
+  }
+
+  /**
+   * Restart the debounce timer of a file an event was received for
+   */
+  private schedule(folder: WatchedFolder, filePath: string): void {
+    if (!isWatchedFile(folder, filePath)) return;
+
+    const pending = this.pending.get(filePath);
+    if (pending) clearTimeout(pending.timer);
+
+    const timer = setTimeout(() => {
+      this.pending.delete(filePath);
+      this.process(folder, filePath);
+    }, this.debounceMs);
+
+    this.pending.set(filePath, { folder, timer });
+  }
+
+  /**
+   * Parse a file whose events settled and report it if it was added, changed or removed
+   */
+  private process(folder: WatchedFolder, filePath: string): void {
+    const previous = this.known.get(filePath);
+    const stats = statIfExists(filePath);
+    const event: WatchedFileEvent = { folder, filePath, name: path.basename(filePath), change: 'removed' };
+
+    if (!stats || !stats.isFile()) {
+      if (previous === undefined) return;
+      this.known.delete(filePath);
+    } else {
+      const fingerprint = getFingerprint(stats);
+      if (fingerprint === previous) return;
+
+      this.known.set(filePath, fingerprint);
+      event.change = previous === undefined ? 'added' : 'changed';
+      event.modified = stats.mtime.toISOString();
+    }
+
+    try {
+      if (folder === 'setups') {
+        event.setup = this.setupLibrary.updateFile(filePath);
+        event.error = event.setup?.error;
+      } else if (event.change !== 'removed') {
+        event.telemetry = readTelemetrySummary(filePath);
+      }
+    } catch (error) {
+      event.error = error instanceof Error ? error.message : String(error);
+    }
+
+    this.notify(event);
+  }
+}
+
+/**
+ * Read the columns and number of rows of a telemetry CSV file
+ * @param filePath Path of the CSV file
+ * @returns Header columns and number of data lines
+ */
+export function readTelemetrySummary(filePath: string): TelemetryFileSummary {
+  const lines = fs.readFileSync(filePath, 'utf8').split(/\r?\n/).filter(line => line.trim().length > 0);
+  if (lines.length === 0) {
+    throw new Error('Empty telemetry file');
+  }
+
+  return {
+    columns: lines[0].split(',').map(column => column.trim().replace(/^"(.*)"$/, '$1')),
+    rows: lines.length - 1
+  };
+}
+
+/**
+ * Check whether a file belongs in a kind of folder
+ */
+function isWatchedFile(folder: WatchedFolder, filePath: string): boolean {
+  return folder === 'setups'
+    ? isSetupFile(filePath)
+    : TELEMETRY_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Identify the content of a file by its size and modified time
+ */
+function getFingerprint(stats: fs.Stats): string {
+  return `${stats.size}:${stats.mtimeMs}`;
+}
+
+/**
+ * Watch a directory and its subdirectories
+ *
+ * Recursive watching isn't available on Linux with the Node version of
+ * Electron, so each directory is watched there instead. Directories created
+ * later are watched from their first event, and the files already in them,
+ * e.g. in a copied folder, are reported then.
+ * @returns Function stopping the watchers
+ */
+function watchDirectory(directory: string, onChange: (filePath: string) => void): () => void {
+  const watch = (target: string, recursive: boolean, listener: (entryPath: string) => void) =>
+    fs.watch(target, { recursive }, (_, fileName) => {
+      if (fileName) listener(path.join(target, fileName.toString()));
+    }).on('error', error => console.error(`Error watching ${target}:`, error));
+
+  try {
+    const watcher = watch(directory, true, onChange);
+    return () => watcher.close();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') throw error;
+  }
+
+  const watchers = new Map<string, fs.FSWatcher>();
+
+  const watchTree = (target: string) => {
+    for (const subdirectory of listDirectories(target)) {
+      if (!watchers.has(subdirectory)) {
+        watchers.set(subdirectory, watch(subdirectory, false, onEntryChange));
+      }
+    }
+  };
+
+  const onEntryChange = (entryPath: string) => {
+    try {
+      const stats = statIfExists(entryPath);
+      if (stats?.isDirectory()) {
+        if (!watchers.has(entryPath)) {
+          watchTree(entryPath);
+          listFiles(entryPath).forEach(onChange);
+        }
+        return;
+      }
+
+      // A removed directory is watched again if it is created anew
+      if (!stats) {
+        for (const [watchedDirectory, watcher] of watchers) {
+          if (isInFolder(entryPath, watchedDirectory)) {
+            watcher.close();
+            watchers.delete(watchedDirectory);
+          }
+        }
+      }
+    } catch (error) {
+      console.error(`Error watching ${entryPath}:`, error);
+    }
+
+    onChange(entryPath);
+  };
+
+  watchTree(directory);
+
+  return () => {
+    for (const watcher of watchers.values()) {
+      watcher.close();
+    }
+    watchers.clear();
+  };
+}
+
+/**
+ * List a directory and its subdirectories
+ */
+function listDirectories(directory: string): string[] {
+  return [
+    directory,
+    ...fs.readdirSync(directory, { withFileTypes: true })
+      .filter(entry => entry.isDirectory())
+      .flatMap(entry => listDirectories(path.join(directory, entry.name)))
+  ];
+}
+
+/**
+ * List the files in a directory and its subdirectories
+ */
+function listFiles(directory: string): string[] {
+  return fs.readdirSync(directory, { withFileTypes: true }).flatMap(entry => {
+    const entryPath = path.join(directory, entry.name);
+    return entry.isDirectory() ? listFiles(entryPath) : [entryPath];
+  });
+}
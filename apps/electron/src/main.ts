@@ -3,11 +3,49 @@ import * as path from 'path';
 import * as fs from 'fs';
 import isDev from 'electron-is-dev';
 import serve from 'electron-serve';
+import { parseAurigaDocument } from 'setup-schema';
+import { CarMappingDefinition, createDefaultParser, listCarMappingFiles, readCarMappingFile } from 'setup-parser';
+import { SetupLibrary, SetupLibraryFilter } from './setup-library';
+import { FileWatcher, WatchedFolder } from './file-watcher';
 
 const loadURL = serve({ directory: '../../apps/renderer/dist' });
 
 let mainWindow: BrowserWindow | null = null;
 
+// Index of the iRacing setups folder, created once the app paths are available
+let setupLibrary: SetupLibrary | null = null;
+
+// Watcher of the setups and telemetry folders, pushing new files to the renderer
+let fileWatcher: FileWatcher | null = null;
+
+// Settings chosen by the user, kept between runs
+interface AppSettings {
+  // Folder telemetry CSV files are exported to (e.g. by SimHub)
+  telemetryDirectory?: string;
+}
+
+function getSettingsPath() {
+  return path.join(app.getPath('userData'), 'settings.json');
+}
+
+// Folder of the car mappings added by the user (.json, .yaml, .yml), which
+// take precedence over the bundled mappings for the same car
+function getCarMappingsDirectory() {
+  return path.join(app.getPath('userData'), 'car-mappings');
+}
+
+function loadSettings(): AppSettings {
+  try {
+    return JSON.parse(fs.readFileSync(getSettingsPath(), 'utf8'));
+  } catch {
+    return {};
+  }
+}
+
+function saveSettings(settings: AppSettings) {
+  fs.writeFileSync(getSettingsPath(), JSON.stringify(settings, null, 2));
+}
+
 function createWindow() {
   mainWindow = new BrowserWindow({
     width: 1200,
@@ -32,6 +70,23 @@ function createWindow() {
 }
 
 app.whenReady().then(() => {
+  // Created empty so users have a folder to drop mapping files into
+  fs.mkdirSync(getCarMappingsDirectory(), { recursive: true });
+  setupLibrary = new SetupLibrary(
+    path.join(app.getPath('userData'), 'setup-library.json'),
+    createDefaultParser({ userMappingsDir: getCarMappingsDirectory() })
+  );
+  
+  // Default to the setups folder of a standard iRacing install
+  const defaultRoot = path.join(app.getPath('documents'), 'iRacing', 'setups');
+  if (!setupLibrary.getRoot() && fs.existsSync(defaultRoot)) {
+    setupLibrary.setRoot(defaultRoot);
+  }
+  
+  fileWatcher = new FileWatcher(setupLibrary, event => mainWindow?.webContents.send('watched-file', event));
+  watchFolder('setups', setupLibrary.getRoot());
+  watchFolder('telemetry', loadSettings().telemetryDirectory);
+  
   createWindow();
 
   app.on('activate', () => {
@@ -41,12 +96,24 @@ app.whenReady().then(() => {
   });
 });
 
+app.on('will-quit', () => {
+  fileWatcher?.close();
+});
+
 app.on('window-all-closed', () => {
   if (process.platform !== 'darwin') {
     app.quit();
   }
 });
 
+// Setups saved as JSON must be Auriga setup documents matching the shared
+// setup schema, so a malformed setup from the renderer never reaches the disk
+function validateSetupFile(filePath: string, content: string) {
+  if (path.extname(filePath).toLowerCase() !== '.json') return;
+  
+  parseAurigaDocument(content, `setup ${path.basename(filePath)}`);
+}
+
 // File system operations
 ipcMain.handle('open-file-dialog', async () => {
   if (!mainWindow) return;
@@ -55,6 +122,7 @@ ipcMain.handle('open-file-dialog', async () => {
     properties: ['openFile'],
     filters: [
       { name: 'iRacing Setup Files', extensions: ['sto'] },
+      { name: 'iRacing Setup Sheets', extensions: ['htm', 'html'] },
       { name: 'JSON Files', extensions: ['json'] },
       { name: 'CSV Files', extensions: ['csv'] },
       { name: 'All Files', extensions: ['*'] }
@@ -68,8 +136,9 @@ ipcMain.handle('open-file-dialog', async () => {
   return filePaths[0];
 });
 
-ipcMain.handle('save-file-dialog', async (_, defaultPath: string, fileContent: string) => {
-  if (!mainWindow) return;
+// Only asks for the path, the renderer picks the file format from the extension the user chose
+ipcMain.handle('save-file-dialog', async (_, defaultPath: string) => {
+  if (!mainWindow) return null;
   
   const { canceled, filePath } = await dialog.showSaveDialog(mainWindow, {
     defaultPath,
@@ -83,7 +152,6 @@ ipcMain.handle('save-file-dialog', async (_, defaultPath: string, fileContent: s
     return null;
   }
   
-  fs.writeFileSync(filePath, fileContent);
   return filePath;
 });
 
@@ -96,8 +164,19 @@ ipcMain.handle('read-file', async (_, filePath: string) => {
   }
 });
 
+// Raw bytes for setup files, binary .sto files don't survive a text decode
+ipcMain.handle('read-file-bytes', async (_, filePath: string) => {
+  try {
+    return fs.readFileSync(filePath);
+  } catch (error) {
+    console.error('Error reading file:', error);
+    throw error;
+  }
+});
+
 ipcMain.handle('write-file', async (_, filePath: string, content: string) => {
   try {
+    validateSetupFile(filePath, content);
     fs.writeFileSync(filePath, content);
     return true;
   } catch (error) {
@@ -105,3 +184,102 @@ ipcMain.handle('write-file', async (_, filePath: string, content: string) => {
     throw error;
   }
 });
+
+// User car mappings, sent as definitions since the compiled value transforms
+// are functions; the renderer compiles and registers them on its parser
+ipcMain.handle('car-mappings-list', async () => {
+  const definitions: CarMappingDefinition[] = [];
+  
+  for (const filePath of listCarMappingFiles(getCarMappingsDirectory())) {
+    // A broken user mapping shouldn't prevent loading the others
+    try {
+      definitions.push(readCarMappingFile(filePath));
+    } catch (error) {
+      console.error('Error loading car mapping:', error);
+    }
+  }
+  
+  return definitions;
+});
+
+// Setup library
+function getSetupLibrary(): SetupLibrary {
+  if (!setupLibrary) {
+    throw new Error('Setup library is not ready');
+  }
+  return setupLibrary;
+}
+
+ipcMain.handle('library-get-root', async () => {
+  return getSetupLibrary().getRoot() ?? null;
+});
+
+ipcMain.handle('library-choose-root', async () => {
+  if (!mainWindow) return null;
+  
+  const { canceled, filePaths } = await dialog.showOpenDialog(mainWindow, {
+    title: 'Choose the iRacing setups folder',
+    defaultPath: getSetupLibrary().getRoot(),
+    properties: ['openDirectory']
+  });
+  
+  if (canceled || filePaths.length === 0) {
+    return null;
+  }
+  
+  getSetupLibrary().setRoot(filePaths[0]);
+  watchFolder('setups', getSetupLibrary().getRoot());
+  return getSetupLibrary().getRoot();
+});
+
+ipcMain.handle('library-scan', async () => {
+  try {
+    return getSetupLibrary().scan();
+  } catch (error) {
+    console.error('Error scanning setup library:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('library-list', async (_, filter?: SetupLibraryFilter) => {
+  return getSetupLibrary().list(filter);
+});
+
+ipcMain.handle('library-search', async (_, query: string, filter?: SetupLibraryFilter) => {
+  return getSetupLibrary().search(query, filter);
+});
+
+// Folder watching
+function watchFolder(folder: WatchedFolder, directory: string | undefined) {
+  try {
+    fileWatcher?.watch(folder, directory);
+  } catch (error) {
+    // A missing folder (e.g. a disconnected drive) shouldn't prevent the app from starting
+    console.error(`Error watching ${folder} folder:`, error);
+  }
+}
+
+ipcMain.handle('watcher-get-folders', async () => {
+  return {
+    setups: fileWatcher?.getDirectory('setups') ?? null,
+    telemetry: fileWatcher?.getDirectory('telemetry') ?? null
+  };
+});
+
+ipcMain.handle('watcher-choose-telemetry-folder', async () => {
+  if (!mainWindow) return null;
+  
+  const { canceled, filePaths } = await dialog.showOpenDialog(mainWindow, {
+    title: 'Choose the telemetry folder',
+    defaultPath: loadSettings().telemetryDirectory,
+    properties: ['openDirectory']
+  });
+  
+  if (canceled || filePaths.length === 0) {
+    return null;
+  }
+  
+  saveSettings({ ...loadSettings(), telemetryDirectory: filePaths[0] });
+  watchFolder('telemetry', filePaths[0]);
+  return filePaths[0];
+});
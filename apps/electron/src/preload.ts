@@ -1,15 +1,41 @@
 import { contextBridge, ipcRenderer } from 'electron';
+import type { IpcRendererEvent } from 'electron';
+import type { CarMappingDefinition } from 'setup-parser';
+import type { SetupLibraryEntry, SetupLibraryFilter, SetupLibraryScanResult } from './setup-library';
+import type { WatchedFileEvent } from './file-watcher';
 
 // Expose protected methods that allow the renderer process to use
 // the ipcRenderer without exposing the entire object
 contextBridge.exposeInMainWorld('electronAPI', {
   // File system operations
   openFile: () => ipcRenderer.invoke('open-file-dialog'),
-  saveFile: (defaultPath: string, fileContent: string) => 
-    ipcRenderer.invoke('save-file-dialog', defaultPath, fileContent),
+  chooseSavePath: (defaultPath: string) => ipcRenderer.invoke('save-file-dialog', defaultPath),
   readFile: (filePath: string) => ipcRenderer.invoke('read-file', filePath),
+  readFileBytes: (filePath: string) => ipcRenderer.invoke('read-file-bytes', filePath),
   writeFile: (filePath: string, content: string) => 
     ipcRenderer.invoke('write-file', filePath, content),
+
+  // Car mappings of the user car-mappings folder
+  listUserCarMappings: () => ipcRenderer.invoke('car-mappings-list'),
+
+  // Setup library
+  getLibraryRoot: () => ipcRenderer.invoke('library-get-root'),
+  chooseLibraryRoot: () => ipcRenderer.invoke('library-choose-root'),
+  scanLibrary: () => ipcRenderer.invoke('library-scan'),
+  listLibrary: (filter?: SetupLibraryFilter) => ipcRenderer.invoke('library-list', filter),
+  searchLibrary: (query: string, filter?: SetupLibraryFilter) => 
+    ipcRenderer.invoke('library-search', query, filter),
+
+  // Watched folders, returning a function to stop listening
+  getWatchedFolders: () => ipcRenderer.invoke('watcher-get-folders'),
+  chooseTelemetryFolder: () => ipcRenderer.invoke('watcher-choose-telemetry-folder'),
+  onWatchedFile: (callback: (event: WatchedFileEvent) => void) => {
+    const listener = (_: IpcRendererEvent, event: WatchedFileEvent) => callback(event);
+    ipcRenderer.on('watched-file', listener);
+    return () => {
+      ipcRenderer.removeListener('watched-file', listener);
+    };
+  },
 });
 
 // TypeScript interface for the exposed API
@@ -17,9 +43,19 @@ declare global {
   interface Window {
     electronAPI: {
       openFile: () => Promise<string | null>;
-      saveFile: (defaultPath: string, fileContent: string) => Promise<string | null>;
+      chooseSavePath: (defaultPath: string) => Promise<string | null>;
       readFile: (filePath: string) => Promise<string>;
+      readFileBytes: (filePath: string) => Promise<Uint8Array>;
       writeFile: (filePath: string, content: string) => Promise<boolean>;
+      listUserCarMappings: () => Promise<CarMappingDefinition[]>;
+      getLibraryRoot: () => Promise<string | null>;
+      chooseLibraryRoot: () => Promise<string | null>;
+      scanLibrary: () => Promise<SetupLibraryScanResult>;
+      listLibrary: (filter?: SetupLibraryFilter) => Promise<SetupLibraryEntry[]>;
+      searchLibrary: (query: string, filter?: SetupLibraryFilter) => Promise<SetupLibraryEntry[]>;
+      getWatchedFolders: () => Promise<{ setups: string | null; telemetry: string | null }>;
+      chooseTelemetryFolder: () => Promise<string | null>;
+      onWatchedFile: (callback: (event: WatchedFileEvent) => void) => () => void;
     }
   }
 }
@@ -0,0 +1,217 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createDefaultParser } from 'setup-parser';
+import { SetupLibrary } from './setup-library';
+
+const FIXTURE = fs.readFileSync(path.join(__dirname, '..', '..', '..', 'packages', 'setup-parser', 'fixtures', 'bmw-m4-gt3.sto'), 'utf8');
+
+let directory: string;
+let root: string;
+let indexPath: string;
+
+beforeEach(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), 'auriga-library-'));
+  root = path.join(directory, 'setups');
+  indexPath = path.join(directory, 'index', 'setup-library.json');
+  fs.mkdirSync(root);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+/**
+ * Write a setup below the setups folder, the BMW fixture at Spa unless other content is given
+ */
+function writeSetup(relativePath: string, content: string = FIXTURE, modified?: Date): string {
+  const filePath = path.join(root, relativePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+  if (modified) fs.utimesSync(filePath, modified, modified);
+  return filePath;
+}
+
+/**
+ * Library of the setups folder, scanned once
+ */
+function createLibrary(): SetupLibrary {
+  const library = new SetupLibrary(indexPath);
+  library.setRoot(root);
+  library.scan();
+  return library;
+}
+
+describe('SetupLibrary.scan', () => {
+  it('indexes the setup files below the car folders with their car, track and content hash', () => {
+    const filePath = writeSetup('bmwm4gt3/spa/race.sto');
+    writeSetup('bmwm4gt3/notes.txt');
+    const library = new SetupLibrary(indexPath);
+    library.setRoot(root);
+
+    expect(library.scan()).toEqual({ root, added: 1, updated: 0, removed: 0, unchanged: 0, failed: 0 });
+    expect(library.list()).toEqual([expect.objectContaining({
+      filePath,
+      relativePath: 'bmwm4gt3/spa/race.sto',
+      carFolder: 'bmwm4gt3',
+      folder: 'spa',
+      carId: 'bmw_m4_gt3',
+      trackId: 'spa',
+      name: 'race',
+      size: FIXTURE.length,
+      modified: fs.statSync(filePath).mtime.toISOString()
+    })]);
+    expect(library.list()[0].hash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('gives copies of a setup the same hash', () => {
+    writeSetup('bmwm4gt3/spa/race.sto');
+    writeSetup('bmwm4gt3/shared/copy of race.sto');
+    writeSetup('bmwm4gt3/spa/quali.sto', FIXTURE.replace('LF_COLD_PRESSURE=165.5', 'LF_COLD_PRESSURE=160.0'));
+
+    const [copy, quali, race] = createLibrary().list();
+
+    expect(copy.hash).toBe(race.hash);
+    expect(quali.hash).not.toBe(race.hash);
+  });
+
+  it('only parses new and changed files again, and drops removed ones', () => {
+    writeSetup('bmwm4gt3/spa/race.sto');
+    const changed = writeSetup('bmwm4gt3/spa/quali.sto');
+    const removed = writeSetup('bmwm4gt3/monza/race.sto');
+    const parser = createDefaultParser();
+    const library = new SetupLibrary(indexPath, parser);
+    library.setRoot(root);
+    library.scan();
+
+    writeSetup('bmwm4gt3/spa/quali.sto', FIXTURE.replace('TRACK=spa', 'TRACK=spa_combined'), new Date('2030-01-01T00:00:00Z'));
+    fs.rmSync(removed);
+    writeSetup('bmwm4gt3/monza/quali.sto');
+    const parseBuffer = vi.spyOn(parser, 'parseBuffer');
+
+    expect(library.scan()).toMatchObject({ added: 1, updated: 1, removed: 1, unchanged: 1 });
+    expect(parseBuffer).toHaveBeenCalledTimes(2);
+    expect(library.list().map(entry => entry.relativePath)).toEqual([
+      'bmwm4gt3/monza/quali.sto',
+      'bmwm4gt3/spa/quali.sto',
+      'bmwm4gt3/spa/race.sto'
+    ]);
+    expect(library.list({ trackId: 'spa_combined' })).toEqual([expect.objectContaining({ filePath: changed })]);
+  });
+
+  it('indexes files that fail to parse with their folder names', () => {
+    writeSetup('ferrari488gt3/monza/broken.sto');
+    const parser = createDefaultParser();
+    vi.spyOn(parser, 'parseBuffer').mockImplementation(() => { throw new Error('Unsupported setup file'); });
+    const library = new SetupLibrary(indexPath, parser);
+    library.setRoot(root);
+
+    expect(library.scan()).toMatchObject({ added: 1, failed: 1 });
+    expect(library.list()[0]).toMatchObject({ carId: 'ferrari488gt3', trackId: 'monza', error: 'Unsupported setup file' });
+  });
+
+  it('fails without a setups folder or when the folder is missing', () => {
+    const library = new SetupLibrary(indexPath);
+
+    expect(() => library.scan()).toThrow('No setups folder configured');
+
+    library.setRoot(path.join(directory, 'missing'));
+    expect(() => library.scan()).toThrow(`Setups folder not found: ${path.join(directory, 'missing')}`);
+  });
+});
+
+describe('SetupLibrary index file', () => {
+  it('keeps the entries between runs', () => {
+    writeSetup('bmwm4gt3/spa/race.sto');
+    const entries = createLibrary().list();
+
+    const library = new SetupLibrary(indexPath);
+
+    expect(library.getRoot()).toBe(root);
+    expect(library.list()).toEqual(entries);
+    expect(library.scan()).toMatchObject({ added: 0, unchanged: 1 });
+  });
+
+  it('keeps only the setups folder of an index of another version', () => {
+    fs.mkdirSync(path.dirname(indexPath));
+    fs.writeFileSync(indexPath, JSON.stringify({ version: 0, root, entries: [{ filePath: 'old.sto' }] }));
+
+    const library = new SetupLibrary(indexPath);
+
+    expect(library.getRoot()).toBe(root);
+    expect(library.list()).toEqual([]);
+  });
+
+  it('drops the entries of the previous setups folder when it changes', () => {
+    writeSetup('bmwm4gt3/spa/race.sto');
+    const library = createLibrary();
+
+    library.setRoot(root);
+    expect(library.list()).toHaveLength(1);
+
+    library.setRoot(directory);
+    expect(library.list()).toEqual([]);
+  });
+});
+
+describe('SetupLibrary.updateFile', () => {
+  it('adds, updates and removes the entry of a file', () => {
+    const library = createLibrary();
+    const filePath = writeSetup('bmwm4gt3/spa/race.sto');
+
+    expect(library.updateFile(filePath)).toMatchObject({ relativePath: 'bmwm4gt3/spa/race.sto', trackId: 'spa' });
+
+    writeSetup('bmwm4gt3/spa/race.sto', FIXTURE.replace('TRACK=spa', 'TRACK=monza'));
+    expect(library.updateFile(filePath)).toMatchObject({ trackId: 'monza' });
+    expect(library.list()).toHaveLength(1);
+
+    fs.rmSync(filePath);
+    expect(library.updateFile(filePath)).toBeUndefined();
+    expect(library.list()).toEqual([]);
+  });
+
+  it('ignores files outside the setups folder and files that are not setups', () => {
+    const library = createLibrary();
+    const outside = path.join(directory, 'race.sto');
+    fs.writeFileSync(outside, FIXTURE);
+
+    expect(library.updateFile(outside)).toBeUndefined();
+    expect(library.updateFile(writeSetup('bmwm4gt3/spa/notes.txt'))).toBeUndefined();
+    expect(library.list()).toEqual([]);
+  });
+});
+
+describe('SetupLibrary.list and search', () => {
+  /**
+   * Library with the BMW at Spa and Monza and a Ferrari at Monza, modified a day apart
+   */
+  function createFilledLibrary(): SetupLibrary {
+    writeSetup('bmwm4gt3/spa/Race Wet.sto', FIXTURE, new Date('2024-03-01T00:00:00Z'));
+    writeSetup('bmwm4gt3/monza/Race.sto', FIXTURE.replace('TRACK=spa', 'TRACK=monza'), new Date('2024-03-02T00:00:00Z'));
+    writeSetup('ferrari488gt3/monza/Quali.sto', FIXTURE.replace('CAR=bmw_m4_gt3', 'CAR=ferrari_488_gt3').replace('TRACK=spa', 'TRACK=monza'), new Date('2024-03-03T00:00:00Z'));
+    return createLibrary();
+  }
+
+  it('lists the entries sorted by path, keeping those that match every field of the filter', () => {
+    const library = createFilledLibrary();
+
+    expect(library.list().map(entry => entry.relativePath)).toEqual([
+      'bmwm4gt3/monza/Race.sto',
+      'bmwm4gt3/spa/Race Wet.sto',
+      'ferrari488gt3/monza/Quali.sto'
+    ]);
+    expect(library.list({ trackId: 'monza', carId: 'bmw_m4_gt3' }).map(entry => entry.name)).toEqual(['Race']);
+    expect(library.list({ carFolder: 'ferrari488gt3', folder: 'spa' })).toEqual([]);
+  });
+
+  it('finds the entries containing every word of the query, most recently modified first', () => {
+    const library = createFilledLibrary();
+
+    expect(library.search('race').map(entry => entry.name)).toEqual(['Race', 'Race Wet']);
+    expect(library.search('RACE wet').map(entry => entry.name)).toEqual(['Race Wet']);
+    expect(library.search('monza').map(entry => entry.name)).toEqual(['Quali', 'Race']);
+    expect(library.search('', { carId: 'ferrari_488_gt3' }).map(entry => entry.name)).toEqual(['Quali']);
+  });
+});
@@ -0,0 +1,331 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { SetupParser, createDefaultParser } from 'setup-parser';
+
+/**
+ * Version of the index file layout, an index of another version is rebuilt
+ */
+const INDEX_VERSION = 1;
+
+/**
+ * File extensions indexed in the setups folder
+ */
+const SETUP_EXTENSIONS = ['.sto'];
+
+/**
+ * Setup file found in the library
+ */
+export interface SetupLibraryEntry {
+  // Absolute path of the file
+  filePath: string;
+
+  // Path relative to the library root with '/' separators, as <car folder>/<folder>/<file>
+  relativePath: string;
+
+  // Car folder of iRacing (e.g. 'ferrari488gt3'), the first folder below the root
+  carFolder: string;
+
+  // Folders between the car folder and the file (track or user folder), '' for files directly in the car folder
+  folder: string;
+
+  // Car identifier of the parsed setup, the car folder when the file can't be parsed
+  carId: string;
+
+  // Track identifier of the parsed setup, the folder when the file can't be parsed
+  trackId: string;
+
+  // Setup name, the file name without extension
+  name: string;
+
+  // Last modified time of the file (ISO 8601)
+  modified: string;
+
+  // File size in bytes
+  size: number;
+
+  // SHA-256 of the file content, identical for copies of a setup
+  hash: string;
+
+  // Why the file couldn't be parsed
+  error?: string;
+}
+
+/**
+ * Index stored on disk between runs
+ */
+interface SetupLibraryIndex {
+  version: number;
+
+  // Setups folder the entries were found in
+  root?: string;
+
+  // Date of the last scan (ISO 8601)
+  scannedAt?: string;
+
+  entries: SetupLibraryEntry[];
+}
+
+/**
+ * Filter of library entries, each given field must match exactly
+ */
+export interface SetupLibraryFilter {
+  carId?: string;
+  carFolder?: string;
+  trackId?: string;
+  folder?: string;
+}
+
+/**
+ * Changes found by a scan
+ */
+export interface SetupLibraryScanResult {
+  root: string;
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+
+  // Files that couldn't be parsed, indexed with their folder names
+  failed: number;
+}
+
+/**
+ * Index of the setups in an iRacing setups folder (setups/<car>/<track or subfolder>/*.sto)
+ *
+ * The index is kept in a JSON file so the library can be listed without
+ * parsing every file again. Scans only parse files that are new or whose
+ * size or modified time changed.
+ */
+export class SetupLibrary {
+  private index: SetupLibraryIndex;
+
+  /**
+   * Create a setup library, loading its index file if there is one
+   * @param indexPath Path of the index file
+   * @param parser Parser used to read the car and track of each setup
+   */
+  constructor(private indexPath: string, private parser: SetupParser = createDefaultParser()) {
+    this.index = this.loadIndex();
+  }
+
+  /**
+   * Get the setups folder of the library
+   * @returns Root folder, or undefined if none was configured
+   */
+  public getRoot(): string | undefined {
+    return this.index.root;
+  }
+
+  /**
+   * Configure the setups folder of the library, dropping the entries of the previous folder
+   * @param root Setups folder
+   */
+  public setRoot(root: string): void {
+    const resolved = path.resolve(root);
+    if (resolved === this.index.root) return;
+
+    this.index = { version: INDEX_VERSION, root: resolved, entries: [] };
+    this.saveIndex();
+  }
+
+  /**
+   * Scan the setups folder and update the index
+   * @returns Number of added, updated, removed and unchanged entries
+   * @throws Error if no setups folder is configured or it doesn't exist
+   */
+  public scan(): SetupLibraryScanResult {
+    const root = this.index.root;
+    if (!root) {
+      throw new Error('No setups folder configured');
+    }
+    if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+      throw new Error(`Setups folder not found: ${root}`);
+    }
+
+    const previous = new Map(this.index.entries.map(entry => [entry.filePath, entry]));
+    const result: SetupLibraryScanResult = { root, added: 0, updated: 0, removed: 0, unchanged: 0, failed: 0 };
+    const entries: SetupLibraryEntry[] = [];
+
+    for (const filePath of listSetupFiles(root)) {
+      const stats = fs.statSync(filePath);
+      const known = previous.get(filePath);
+      previous.delete(filePath);
+
+      if (known && known.size === stats.size && known.modified === stats.mtime.toISOString()) {
+        entries.push(known);
+        result.unchanged++;
+        continue;
+      }
+
+      const entry = this.indexFile(root, filePath, stats);
+      entries.push(entry);
+      result[known ? 'updated' : 'added']++;
+      if (entry.error) result.failed++;
+    }
+
+    result.removed = previous.size;
+    this.index = { ...this.index, scannedAt: new Date().toISOString(), entries };
+    this.saveIndex();
+
+    return result;
+  }
+
+  /**
+   * Update the index entry of one file, e.g. when a watcher reports it changed
+   * @param filePath Path of the setup file
+   * @returns Entry of the file, or undefined if it was removed or isn't a setup in the library
+   */
+  public updateFile(filePath: string): SetupLibraryEntry | undefined {
+    const root = this.index.root;
+    const resolved = path.resolve(filePath);
+    if (!root || !isSetupFile(resolved) || !isInFolder(root, resolved)) {
+      return undefined;
+    }
+
+    const entries = this.index.entries.filter(entry => entry.filePath !== resolved);
+    const stats = statIfExists(resolved);
+    const entry = stats?.isFile() ? this.indexFile(root, resolved, stats) : undefined;
+
+    this.index = { ...this.index, entries: entry ? [...entries, entry] : entries };
+    this.saveIndex();
+
+    return entry;
+  }
+
+  /**
+   * List the indexed setups
+   * @param filter Fields the entries must match
+   * @returns Entries sorted by car folder, folder and name
+   */
+  public list(filter: SetupLibraryFilter = {}): SetupLibraryEntry[] {
+    return this.index.entries
+      .filter(entry => matchesFilter(entry, filter))
+      .sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+  }
+
+  /**
+   * Search the indexed setups by name, car, track and folder
+   * @param query Words that must all appear (case-insensitive) in the name, car, track or path of a setup
+   * @param filter Fields the entries must match
+   * @returns Matching entries, most recently modified first
+   */
+  public search(query: string, filter: SetupLibraryFilter = {}): SetupLibraryEntry[] {
+    const words = query.toLowerCase().split(/\s+/).filter(word => word.length > 0);
+
+    return this.index.entries
+      .filter(entry => {
+        if (!matchesFilter(entry, filter)) return false;
+
+        const text = [entry.name, entry.carId, entry.carFolder, entry.trackId, entry.relativePath].join(' ').toLowerCase();
+        return words.every(word => text.includes(word));
+      })
+      .sort((a, b) => b.modified.localeCompare(a.modified));
+  }
+
+  /**
+   * Parse a setup file into an index entry
+   */
+  private indexFile(root: string, filePath: string, stats: fs.Stats): SetupLibraryEntry {
+    const content = fs.readFileSync(filePath);
+    const relativePath = path.relative(root, filePath).split(path.sep).join('/');
+    const [carFolder, ...folders] = relativePath.split('/').slice(0, -1);
+    const folder = folders.join('/');
+
+    const entry: SetupLibraryEntry = {
+      filePath,
+      relativePath,
+      carFolder: carFolder || '',
+      folder,
+      carId: carFolder || '',
+      trackId: folder,
+      name: path.basename(filePath, path.extname(filePath)),
+      modified: stats.mtime.toISOString(),
+      size: stats.size,
+      hash: crypto.createHash('sha256').update(content).digest('hex')
+    };
+
+    try {
+      const setup = this.parser.parseBuffer(content);
+      return { ...entry, carId: setup.carId || entry.carId, trackId: setup.trackId || entry.trackId };
+    } catch (error) {
+      return { ...entry, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Read the index file, starting empty if it is missing, unreadable or of another version
+   */
+  private loadIndex(): SetupLibraryIndex {
+    try {
+      const index = JSON.parse(fs.readFileSync(this.indexPath, 'utf8')) as SetupLibraryIndex;
+      if (index.version === INDEX_VERSION && Array.isArray(index.entries)) return index;
+
+      // Keep the configured folder of an older index, the entries are rebuilt by the next scan
+      return { version: INDEX_VERSION, root: index.root, entries: [] };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Error reading setup library index:', error);
+      }
+      return { version: INDEX_VERSION, entries: [] };
+    }
+  }
+
+  /**
+   * Write the index file
+   */
+  private saveIndex(): void {
+    fs.mkdirSync(path.dirname(this.indexPath), { recursive: true });
+    fs.writeFileSync(this.indexPath, JSON.stringify(this.index, null, 2));
+  }
+}
+
+/**
+ * Check whether an entry matches every field of a filter
+ */
+function matchesFilter(entry: SetupLibraryEntry, filter: SetupLibraryFilter): boolean {
+  return (Object.keys(filter) as Array<keyof SetupLibraryFilter>)
+    .every(field => filter[field] === undefined || entry[field] === filter[field]);
+}
+
+/**
+ * Check whether a file has a setup file extension
+ */
+export function isSetupFile(filePath: string): boolean {
+  return SETUP_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Check whether a path is a folder or inside it
+ *
+ * path.relative returns an absolute path for paths on another drive on Windows,
+ * which doesn't start with '..' either.
+ */
+export function isInFolder(folder: string, filePath: string): boolean {
+  const relativePath = path.relative(folder, filePath);
+  return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+}
+
+/**
+ * Get the stats of a file, which may be removed at any time while it is watched
+ * @returns Stats of the file, or undefined if it doesn't exist
+ */
+export function statIfExists(filePath: string): fs.Stats | undefined {
+  try {
+    return fs.statSync(filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw error;
+  }
+}
+
+/**
+ * List the setup files in a folder and its subfolders
+ */
+function listSetupFiles(directory: string): string[] {
+  return fs.readdirSync(directory, { withFileTypes: true }).flatMap(entry => {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) return listSetupFiles(entryPath);
+    return isSetupFile(entry.name) ? [entryPath] : [];
+  });
+}
@@ -1,10 +1,12 @@
-import { useState } from 'react';
-import { Box, Container, Typography, Paper, AppBar, Toolbar, Button, Grid, Tab, Tabs } from '@mui/material';
+import { useState, useEffect } from 'react';
+import { Box, Container, Typography, Paper, AppBar, Toolbar, Button, Grid, Tab, Tabs, Snackbar, Alert } from '@mui/material';
 import UploadFileIcon from '@mui/icons-material/UploadFile';
+import FolderOpenIcon from '@mui/icons-material/FolderOpen';
 import SettingsIcon from '@mui/icons-material/Settings';
 import AnalyticsIcon from '@mui/icons-material/Analytics';
 import BuildIcon from '@mui/icons-material/Build';
 import SetupContainer from './components/SetupContainer';
+import type { WatchedFileEvent } from './electron';
 
 // Define interfaces for our app
 interface SetupFile {
@@ -58,15 +60,57 @@ function App() {
   const [telemetryFile, setTelemetryFile] = useState<TelemetryFile | null>(null);
   const [analysisResult, setAnalysisResult] = useState<string | null>(null);
   const [tabValue, setTabValue] = useState(0);
+  // Folder telemetry exports are watched in
+  const [telemetryFolder, setTelemetryFolder] = useState<string | null>(null);
+  // Latest file found in the watched folders, shown until dismissed
+  const [watchedFile, setWatchedFile] = useState<WatchedFileEvent | null>(null);
+  // Setup file the setup editor should load
+  const [setupPathToOpen, setSetupPathToOpen] = useState<string | null>(null);
 
+  // Show new setups and telemetry files as soon as they are written
+  useEffect(() => {
+    window.electronAPI.getWatchedFolders().then(folders => setTelemetryFolder(folders.telemetry));
+    
+    return window.electronAPI.onWatchedFile(event => {
+      if (event.change !== 'removed') {
+        setWatchedFile(event);
+      }
+    });
+  }, []);
+
+  // Handle choosing the folder telemetry files are exported to
+  const handleChooseTelemetryFolder = async () => {
+    const folder = await window.electronAPI.chooseTelemetryFolder();
+    if (folder) {
+      setTelemetryFolder(folder);
+    }
+  };
 
+  // Handle opening the file of a watched folder notification
+  const handleOpenWatchedFile = async () => {
+    if (!watchedFile) return;
+    
+    if (watchedFile.folder === 'setups') {
+      setSetupPathToOpen(watchedFile.filePath);
+      setTabValue(0);
+    } else {
+      await loadTelemetryFile(watchedFile.filePath);
+      setTabValue(1);
+    }
+    setWatchedFile(null);
+  };
 
   // Handle opening a telemetry file
   const handleOpenTelemetryFile = async () => {
+    const filePath = await window.electronAPI.openFile();
+    if (filePath) {
+      await loadTelemetryFile(filePath);
+    }
+  };
+
+  // Read a telemetry file
+  const loadTelemetryFile = async (filePath: string) => {
     try {
-      const filePath = await window.electronAPI.openFile();
-      if (!filePath) return;
-      
       const fileName = filePath.split('/').pop() || 'unknown.csv';
       const content = await window.electronAPI.readFile(filePath);
       
@@ -132,6 +176,7 @@ function App() {
       <Container maxWidth="xl" sx={{ mt: 2, mb: 2, flexGrow: 1, display: 'flex', flexDirection: 'column' }}>
         <TabPanel value={tabValue} index={0}>
           <SetupContainer 
+            filePathToOpen={setupPathToOpen}
             onSetupLoaded={(setup) => {
               console.log('Setup loaded:', setup);
               // Additional logic can be added here
@@ -164,6 +209,16 @@ function App() {
                 >
                   Analyze Telemetry
                 </Button>
+                <Button 
+                  variant="outlined" 
+                  startIcon={<FolderOpenIcon />}
+                  onClick={handleChooseTelemetryFolder}
+                >
+                  Telemetry Folder
+                </Button>
+                <Typography variant="body2" color="text.secondary" sx={{ alignSelf: 'center' }}>
+                  {telemetryFolder ? `Watching ${telemetryFolder}` : 'Choose a folder to pick up new telemetry exports automatically'}
+                </Typography>
               </Paper>
             </Grid>
             
@@ -237,6 +292,30 @@ function App() {
         </TabPanel>
       </Container>
       
+      {/* New file in the setups or telemetry folder */}
+      <Snackbar
+        open={watchedFile !== null}
+        onClose={(_event, reason) => reason !== 'clickaway' && setWatchedFile(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      >
+        <Alert
+          severity={watchedFile?.error ? 'warning' : 'info'}
+          onClose={() => setWatchedFile(null)}
+          action={
+            <Button color="inherit" size="small" onClick={handleOpenWatchedFile}>
+              Open
+            </Button>
+          }
+        >
+          {watchedFile && (watchedFile.folder === 'setups'
+            ? `${watchedFile.change === 'added' ? 'New' : 'Updated'} setup: ${watchedFile.name}` +
+              (watchedFile.setup ? ` (${watchedFile.setup.carId}, ${watchedFile.setup.trackId || 'no track'})` : '')
+            : `${watchedFile.change === 'added' ? 'New' : 'Updated'} telemetry: ${watchedFile.name}` +
+              (watchedFile.telemetry ? ` (${watchedFile.telemetry.rows} rows)` : ''))}
+          {watchedFile?.error && ` - ${watchedFile.error}`}
+        </Alert>
+      </Snackbar>
+      
       <Box component="footer" sx={{ p: 2, bgcolor: 'background.paper' }}>
         <Typography variant="body2" color="text.secondary" align="center">
           Auriga Setup AI &copy; {new Date().getFullYear()}
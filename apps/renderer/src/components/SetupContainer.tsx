@@ -1,93 +1,49 @@
 import React, { useState, useEffect } from 'react';
-import { Box, Paper, Typography, Button, Alert, Snackbar } from '@mui/material';
+import { Box, Paper, Typography, Button, Alert, AlertTitle, Snackbar, TextField, MenuItem } from '@mui/material';
 import UploadFileIcon from '@mui/icons-material/UploadFile';
 import SaveIcon from '@mui/icons-material/Save';
 import SetupEditor from './SetupEditor';
 
-// Import setup parser types and functions
-import { parseSetupString, convertToSto, ParsedSetup } from 'setup-parser';
-
-// Define the Electron API interface
-declare global {
-  interface Window {
-    electronAPI: {
-      openFile: () => Promise<string>;
-      readFile: (path: string) => Promise<string>;
-      saveFile: (path: string, content: string) => Promise<string>;
-      getSavePath: (defaultPath: string) => Promise<string>;
-    };
-  }
-}
-
-// Define the ParsedSetup interface to match what's expected from the setup-parser
-interface ParsedSetup {
-  carId: string;
-  trackId: string;
-  name: string;
-  description?: string;
-  suspension: {
-    front: {
-      springRate: number;
-      rideHeight: number;
-      camber: number;
-      toe: number;
-      antiRollBar: number;
-    };
-    rear: {
-      springRate: number;
-      rideHeight: number;
-      camber: number;
-      toe: number;
-      antiRollBar: number;
-    };
-  };
-  dampers: {
-    front: {
-      bump: number;
-      rebound: number;
-    };
-    rear: {
-      bump: number;
-      rebound: number;
-    };
-  };
-  tirePressures: {
-    frontLeft: number;
-    frontRight: number;
-    rearLeft: number;
-    rearRight: number;
-  };
-  aero: {
-    frontWing?: number;
-    rearWing?: number;
-  };
-  brakeBias: number;
-  differential?: {
-    preload: number;
-    powerRamp?: number;
-    coastRamp?: number;
-  };
-  metadata?: {
-    created: string;
-    modified: string;
-    author?: string;
-    version?: string;
-  };
-}
+// Import setup parser types and the parser shared with the user car mappings
+import { setupParser } from '../parser';
+import {
+  ParsedSetup,
+  CarDetectionResult,
+  ParseDiagnostic,
+  SetupParseError
+} from 'setup-parser';
+import {
+  AurigaSetupExtras,
+  createAurigaDocument,
+  parseAurigaDocument,
+  serializeAurigaDocument
+} from 'setup-schema';
 
 interface SetupContainerProps {
   // Optional props for integration with parent components
   onSetupLoaded?: (setup: ParsedSetup) => void;
   onSetupSaved?: (setup: ParsedSetup, path: string) => void;
+  // Setup file to load, e.g. a new file found in the setups folder
+  filePathToOpen?: string | null;
 }
 
 const SetupContainer: React.FC<SetupContainerProps> = ({ 
   onSetupLoaded, 
-  onSetupSaved 
+  onSetupSaved,
+  filePathToOpen
 }) => {
-  const [setupFile, setSetupFile] = useState<{ path: string; name: string; content: string } | null>(null);
+  // Raw bytes of files read from disk, binary .sto files can only be parsed from them
+  const [setupFile, setSetupFile] = useState<{ path: string; name: string; content: string; bytes?: Uint8Array } | null>(null);
   const [parsedSetup, setParsedSetup] = useState<ParsedSetup | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Car identified from the setup content, waiting for the user to confirm it
+  const [carDetection, setCarDetection] = useState<CarDetectionResult | null>(null);
+  const [selectedCarId, setSelectedCarId] = useState('');
+  const [confirmedCarId, setConfirmedCarId] = useState<string | undefined>(undefined);
+  // Problems found while parsing the setup file
+  const [diagnostics, setDiagnostics] = useState<ParseDiagnostic[]>([]);
+  // Notes, tags and provenance saved with the setup in Auriga JSON files
+  const [documentExtras, setDocumentExtras] = useState<AurigaSetupExtras>({});
   const [notification, setNotification] = useState<{ open: boolean; message: string; severity: 'success' | 'error' | 'info' }>({
     open: false,
     message: '',
@@ -99,8 +55,34 @@ const SetupContainer: React.FC<SetupContainerProps> = ({
     if (setupFile?.content) {
       try {
         // Use the actual parser from the setup-parser package
-        const parsed = parseSetupString(setupFile.content);
+        const isSetupSheet = /\.html?$/i.test(setupFile.name);
+        let parsed: ParsedSetup;
+        
+        if (/\.json$/i.test(setupFile.name)) {
+          // Auriga JSON setups, older format versions are upgraded when read
+          const { setup, notes, tags, provenance } = parseAurigaDocument(setupFile.content, setupFile.name);
+          parsed = setup;
+          setDocumentExtras({ notes, tags, provenance });
+        } else {
+          parsed = isSetupSheet
+            ? setupParser.parseHtmlSetupSheet(setupFile.content, confirmedCarId)
+            : setupFile.bytes
+              ? setupParser.parseBuffer(setupFile.bytes, { carId: confirmedCarId, diagnostics: true })
+              : setupParser.parseString(setupFile.content, { carId: confirmedCarId, diagnostics: true });
+          setDocumentExtras({
+            provenance: {
+              source: isSetupSheet ? 'setup-sheet' : 'sto',
+              fileName: setupFile.name,
+              stoVersion: parsed.rawSetup?.header.version,
+              importedAt: new Date().toISOString()
+            }
+          });
+        }
         setParsedSetup(parsed);
+        setDiagnostics(parsed.diagnostics || []);
+        
+        setCarDetection(parsed.carDetection || null);
+        setSelectedCarId(parsed.carDetection?.carId || parsed.carDetection?.candidates[0]?.carId || '');
         
         if (onSetupLoaded) {
           onSetupLoaded(parsed);
@@ -109,29 +91,44 @@ const SetupContainer: React.FC<SetupContainerProps> = ({
         setError(null);
       } catch (err) {
         console.error('Error parsing setup file:', err);
-        setError('Failed to parse setup file. Make sure it is a valid iRacing .sto file.');
+        setError('Failed to parse setup file. Make sure it is a valid iRacing .sto file, setup sheet export or Auriga JSON setup.');
+        setDiagnostics(err instanceof SetupParseError ? err.diagnostics : []);
         setParsedSetup(null);
       }
     }
-  }, [setupFile, onSetupLoaded]);
+  }, [setupFile, confirmedCarId, onSetupLoaded]);
 
   // This function is no longer needed as we're using the actual parser
 
   // This function is no longer needed as we're using the actual converter
 
+  // Load a setup file given by the parent component
+  useEffect(() => {
+    if (filePathToOpen) {
+      loadSetupFile(filePathToOpen);
+    }
+  }, [filePathToOpen]);
+
   // Handle opening a setup file
   const handleOpenSetupFile = async () => {
+    const filePath = await window.electronAPI.openFile();
+    if (filePath) {
+      await loadSetupFile(filePath);
+    }
+  };
+
+  // Read a setup file and parse it with the car it names
+  const loadSetupFile = async (filePath: string) => {
     try {
-      const filePath = await window.electronAPI.openFile();
-      if (!filePath) return;
-      
       const fileName = filePath.split('/').pop() || 'unknown.sto';
-      const content = await window.electronAPI.readFile(filePath);
+      const bytes = await window.electronAPI.readFileBytes(filePath);
       
+      setConfirmedCarId(undefined);
       setSetupFile({
         path: filePath,
         name: fileName,
-        content
+        content: new TextDecoder().decode(bytes),
+        bytes
       });
       
       setNotification({
@@ -162,22 +159,33 @@ const SetupContainer: React.FC<SetupContainerProps> = ({
     }
 
     try {
-      // Convert parsed setup back to .sto format using the actual converter
-      const stoContent = convertToSto(parsedSetup);
+      // Default to the existing path, except for setup sheets and other files that can't be written back
+      const defaultPath = setupFile && /\.(sto|json)$/i.test(setupFile.path)
+        ? setupFile.path
+        : (setupFile?.path.replace(/\.[^./\\]*$/, '') || parsedSetup.name) + '.sto';
       
-      // Get save path from user or use existing path
-      const savePath = setupFile?.path || await window.electronAPI.getSavePath(parsedSetup.name + '.sto');
+      const savePath = await window.electronAPI.chooseSavePath(defaultPath);
       if (!savePath) return;
       
+      // Write an Auriga JSON document when the user chose a .json file, otherwise
+      // convert parsed setup back to .sto format using the actual converter
+      const { carDetection: _carDetection, diagnostics: _diagnostics, ...setup } = parsedSetup;
+      const content = /\.json$/i.test(savePath)
+        ? serializeAurigaDocument(createAurigaDocument(setup, {
+            ...documentExtras,
+            provenance: { source: 'json', ...documentExtras.provenance, createdBy: 'Auriga Setup AI' }
+          }))
+        : setupParser.convertToSto(parsedSetup);
+      
       // Save the file
-      await window.electronAPI.saveFile(savePath, stoContent);
+      await window.electronAPI.writeFile(savePath, content);
       
       // Update setup file reference
-      const fileName = savePath.split('/').pop() || 'unknown.sto';
+      const fileName = savePath.split(/[\\/]/).pop() || 'unknown.sto';
       setSetupFile({
         path: savePath,
         name: fileName,
-        content: stoContent
+        content
       });
       
       // Notify parent component if needed
@@ -185,9 +193,13 @@ const SetupContainer: React.FC<SetupContainerProps> = ({
         onSetupSaved(parsedSetup, savePath);
       }
       
+      // Binary .sto files are written back in the INI-like format, which iRacing reads as well
+      const writtenAsText = !/\.json$/i.test(savePath) && parsedSetup.rawSetup?.format === 'binary';
       setNotification({
         open: true,
-        message: `Setup saved to ${fileName}`,
+        message: writtenAsText
+          ? `Setup saved to ${fileName} as a text .sto file (the original file was binary)`
+          : `Setup saved to ${fileName}`,
         severity: 'success'
       });
     } catch (error) {
@@ -200,6 +212,15 @@ const SetupContainer: React.FC<SetupContainerProps> = ({
     }
   };
 
+  // Handle confirming the detected car, or choosing another one
+  const handleConfirmCar = () => {
+    if (selectedCarId && selectedCarId !== parsedSetup?.carId) {
+      // Parse the setup again with the chosen car mapping
+      setConfirmedCarId(selectedCarId);
+    }
+    setCarDetection(null);
+  };
+
   // Handle setup changes from the editor
   const handleSetupChange = (updatedSetup: ParsedSetup) => {
     setParsedSetup(updatedSetup);
@@ -246,6 +267,55 @@ const SetupContainer: React.FC<SetupContainerProps> = ({
         </Alert>
       )}
       
+      {/* Problems found while parsing, values they affect fell back to defaults */}
+      {diagnostics.length > 0 && (
+        <Alert
+          severity={diagnostics.some(diagnostic => diagnostic.severity === 'error') ? 'error' : 'warning'}
+          sx={{ mb: 2 }}
+          onClose={() => setDiagnostics([])}
+        >
+          <AlertTitle>
+            {diagnostics.length} problem{diagnostics.length === 1 ? '' : 's'} found while reading the setup
+          </AlertTitle>
+          <Box component="ul" sx={{ m: 0, pl: 2, maxHeight: 160, overflowY: 'auto' }}>
+            {diagnostics.map((diagnostic, index) => (
+              <li key={index}>{diagnostic.message}</li>
+            ))}
+          </Box>
+        </Alert>
+      )}
+      
+      {/* Car confirmation when the setup doesn't name a supported car */}
+      {carDetection && (
+        <Alert
+          severity={carDetection.carId ? 'info' : 'warning'}
+          sx={{ mb: 2 }}
+          action={
+            <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+              <TextField
+                select
+                size="small"
+                value={selectedCarId}
+                onChange={(e) => setSelectedCarId(e.target.value)}
+              >
+                {carDetection.candidates.map(candidate => (
+                  <MenuItem key={candidate.carId} value={candidate.carId}>
+                    {candidate.carName} ({Math.round(candidate.confidence * 100)}%)
+                  </MenuItem>
+                ))}
+              </TextField>
+              <Button color="inherit" size="small" onClick={handleConfirmCar} disabled={!selectedCarId}>
+                Confirm
+              </Button>
+            </Box>
+          }
+        >
+          {carDetection.carId
+            ? `The setup doesn't name a supported car. It was identified as ${carDetection.candidates[0].carName} (${Math.round(carDetection.confidence * 100)}% of its settings match), please confirm the car.`
+            : 'The setup doesn\'t name a supported car and no car matches its settings, so only common settings were read. Choose the car to read it with.'}
+        </Alert>
+      )}
+      
       {/* Setup editor */}
       <Box sx={{ flexGrow: 1 }}>
         <SetupEditor 
@@ -10,68 +10,31 @@ import {
   Paper,
   Button,
   Tooltip,
-  Alert
+  Alert,
+  ToggleButton,
+  ToggleButtonGroup,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow
 } from '@mui/material';
 import { styled } from '@mui/material/styles';
 import InfoIcon from '@mui/icons-material/Info';
 import SaveIcon from '@mui/icons-material/Save';
 import RestoreIcon from '@mui/icons-material/Restore';
-
-// Define interfaces for our setup data
-interface SetupData {
-  carId: string;
-  trackId: string;
-  name: string;
-  description?: string;
-  suspension: {
-    front: {
-      springRate: number;
-      rideHeight: number;
-      camber: number;
-      toe: number;
-      antiRollBar: number;
-    };
-    rear: {
-      springRate: number;
-      rideHeight: number;
-      camber: number;
-      toe: number;
-      antiRollBar: number;
-    };
-  };
-  dampers: {
-    front: {
-      bump: number;
-      rebound: number;
-    };
-    rear: {
-      bump: number;
-      rebound: number;
-    };
-  };
-  tirePressures: {
-    frontLeft: number;
-    frontRight: number;
-    rearLeft: number;
-    rearRight: number;
-  };
-  aero: {
-    frontWing?: number;
-    rearWing?: number;
-  };
-  brakeBias: number;
-  differential?: {
-    preload: number;
-    powerRamp?: number;
-    coastRamp?: number;
-  };
-  metadata?: {
-    created: string;
-    modified: string;
-    author?: string;
-    version?: string;
-  };
-}
+import { getSetupValidationErrors } from 'setup-schema';
+import {
+  ParsedSetup,
+  UnitSystem,
+  isWithinRange,
+  getFieldUnit,
+  getPreferredUnit,
+  toPreferredUnit,
+  fromPreferredUnitInRange,
+  getAeroForces
+} from 'setup-parser';
+import { setupParser } from '../parser';
 
 // Define validation rules for setup parameters
 interface ValidationRule {
@@ -80,13 +43,15 @@ interface ValidationRule {
   step: number;
   unit: string;
   description: string;
+  // Discrete legal values, when the car only allows specific settings
+  values?: number[];
 }
 
 interface ValidationRules {
   [key: string]: ValidationRule;
 }
 
-// Setup validation rules
+// Setup validation rules (in the units of the structured setup, converted for display)
 const setupValidationRules: ValidationRules = {
   'suspension.front.springRate': { min: 50000, max: 250000, step: 1000, unit: 'N/m', description: 'Front spring rate' },
   'suspension.rear.springRate': { min: 50000, max: 250000, step: 1000, unit: 'N/m', description: 'Rear spring rate' },
@@ -98,10 +63,24 @@ const setupValidationRules: ValidationRules = {
   'suspension.rear.toe': { min: -0.5, max: 0.5, step: 0.01, unit: '°', description: 'Rear toe angle (positive is toe-in)' },
   'suspension.front.antiRollBar': { min: 0, max: 50, step: 1, unit: '', description: 'Front anti-roll bar stiffness' },
   'suspension.rear.antiRollBar': { min: 0, max: 50, step: 1, unit: '', description: 'Rear anti-roll bar stiffness' },
+  'heaveSprings.front.springRate': { min: 0, max: 500000, step: 1000, unit: 'N/m', description: 'Front heave/third spring rate (heave stiffness only, no roll stiffness)' },
+  'heaveSprings.rear.springRate': { min: 0, max: 500000, step: 1000, unit: 'N/m', description: 'Rear heave/third spring rate (heave stiffness only, no roll stiffness)' },
+  'heaveSprings.front.perchOffset': { min: -50, max: 50, step: 0.5, unit: 'mm', description: 'Front heave spring perch offset (preload)' },
+  'heaveSprings.rear.perchOffset': { min: -50, max: 50, step: 0.5, unit: 'mm', description: 'Rear heave spring perch offset (preload)' },
+  'heaveSprings.front.packers': { min: 0, max: 50, step: 0.5, unit: 'mm', description: 'Front heave packers (limit travel under aero load)' },
+  'heaveSprings.rear.packers': { min: 0, max: 50, step: 0.5, unit: 'mm', description: 'Rear heave packers (limit travel under aero load)' },
   'dampers.front.bump': { min: 0, max: 20, step: 1, unit: '', description: 'Front bump damping' },
   'dampers.front.rebound': { min: 0, max: 20, step: 1, unit: '', description: 'Front rebound damping' },
   'dampers.rear.bump': { min: 0, max: 20, step: 1, unit: '', description: 'Rear bump damping' },
   'dampers.rear.rebound': { min: 0, max: 20, step: 1, unit: '', description: 'Rear rebound damping' },
+  'dampers.front.highSpeedBump': { min: 0, max: 20, step: 1, unit: '', description: 'Front high-speed bump damping (kerbs and sharp bumps)' },
+  'dampers.front.highSpeedRebound': { min: 0, max: 20, step: 1, unit: '', description: 'Front high-speed rebound damping' },
+  'dampers.front.bumpSlope': { min: 0, max: 10, step: 1, unit: '', description: 'Front high-speed bump slope' },
+  'dampers.front.reboundSlope': { min: 0, max: 10, step: 1, unit: '', description: 'Front high-speed rebound slope' },
+  'dampers.rear.highSpeedBump': { min: 0, max: 20, step: 1, unit: '', description: 'Rear high-speed bump damping (kerbs and sharp bumps)' },
+  'dampers.rear.highSpeedRebound': { min: 0, max: 20, step: 1, unit: '', description: 'Rear high-speed rebound damping' },
+  'dampers.rear.bumpSlope': { min: 0, max: 10, step: 1, unit: '', description: 'Rear high-speed bump slope' },
+  'dampers.rear.reboundSlope': { min: 0, max: 10, step: 1, unit: '', description: 'Rear high-speed rebound slope' },
   'tirePressures.frontLeft': { min: 120, max: 200, step: 0.5, unit: 'kPa', description: 'Front left tire pressure' },
   'tirePressures.frontRight': { min: 120, max: 200, step: 0.5, unit: 'kPa', description: 'Front right tire pressure' },
   'tirePressures.rearLeft': { min: 120, max: 200, step: 0.5, unit: 'kPa', description: 'Rear left tire pressure' },
@@ -111,9 +90,26 @@ const setupValidationRules: ValidationRules = {
   'brakeBias': { min: 45, max: 65, step: 0.1, unit: '%', description: 'Brake bias (percentage to the front)' },
   'differential.preload': { min: 0, max: 200, step: 1, unit: 'Nm', description: 'Differential preload' },
   'differential.powerRamp': { min: 0, max: 100, step: 1, unit: '%', description: 'Power/acceleration ramp' },
-  'differential.coastRamp': { min: 0, max: 100, step: 1, unit: '%', description: 'Coast/deceleration ramp' }
+  'differential.coastRamp': { min: 0, max: 100, step: 1, unit: '%', description: 'Coast/deceleration ramp' },
+  'cooling.frontBrakeDucts': { min: 0, max: 10, step: 1, unit: '', description: 'Front brake duct opening (more cooling, more drag)' },
+  'cooling.rearBrakeDucts': { min: 0, max: 10, step: 1, unit: '', description: 'Rear brake duct opening (more cooling, more drag)' },
+  'cooling.radiator': { min: 0, max: 10, step: 1, unit: '', description: 'Radiator opening (more cooling, more drag)' },
+  'fuel.level': { min: 0, max: 150, step: 1, unit: 'L', description: 'Fuel load' },
+  'ballast.weight': { min: 0, max: 100, step: 1, unit: 'kg', description: 'Ballast weight' },
+  'ballast.position': { min: -20, max: 20, step: 1, unit: '', description: 'Fore-aft ballast position (lower is further forward)' },
+  'crossWeight': { min: 45, max: 55, step: 0.1, unit: '%', description: 'Cross weight (right front and left rear share of the total weight)' },
+  'electronics.tractionControl': { min: 0, max: 12, step: 1, unit: '', description: 'Traction control map (higher intervenes more, 0 is off)' },
+  'electronics.abs': { min: 0, max: 12, step: 1, unit: '', description: 'ABS map (higher intervenes more, 0 is off)' },
+  'gearbox.ratios': { min: 0.5, max: 5, step: 0.001, unit: '', description: 'Gear ratio (engine turns per turn of the output shaft)' },
+  'gearbox.finalDrive': { min: 1, max: 6, step: 0.001, unit: '', description: 'Final drive ratio' }
 };
 
+// Kilometers per mile, for showing gearing speeds in imperial units
+const KM_PER_MILE = 1.609344;
+
+// Speed in km/h the aero forces are shown at
+const AERO_REFERENCE_SPEED = 200;
+
 // Styled components
 const StyledPaper = styled(Paper)(({ theme }) => ({
   padding: theme.spacing(2),
@@ -127,8 +123,8 @@ const ParameterRow = styled(Grid)(({ theme }) => ({
 }));
 
 interface SetupEditorProps {
-  setupData: SetupData | null;
-  onSave: (updatedSetup: SetupData) => void;
+  setupData: ParsedSetup | null;
+  onSave: (updatedSetup: ParsedSetup) => void;
 }
 
 interface TabPanelProps {
@@ -165,10 +161,13 @@ function a11yProps(index: number) {
 }
 
 export const SetupEditor: React.FC<SetupEditorProps> = ({ setupData, onSave }) => {
-  const [editedSetup, setEditedSetup] = useState<SetupData | null>(null);
+  const [editedSetup, setEditedSetup] = useState<ParsedSetup | null>(null);
   const [tabValue, setTabValue] = useState(0);
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
+  // Problems with the setup as a whole, found by the shared setup schema on save
+  const [schemaErrors, setSchemaErrors] = useState<string[]>([]);
   const [isModified, setIsModified] = useState(false);
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>('metric');
 
   // Initialize edited setup when setupData changes
   useEffect(() => {
@@ -176,6 +175,7 @@ export const SetupEditor: React.FC<SetupEditorProps> = ({ setupData, onSave }) =
       setEditedSetup(JSON.parse(JSON.stringify(setupData)));
       setIsModified(false);
       setValidationErrors({});
+      setSchemaErrors([]);
     }
   }, [setupData]);
 
@@ -225,17 +225,50 @@ export const SetupEditor: React.FC<SetupEditorProps> = ({ setupData, onSave }) =
     current[parts[parts.length - 1]] = value;
   };
 
+  // Convert values with a physical unit between the setup and the selected unit system
+  const toDisplayValue = (path: string, value: number): number => {
+    const converted = toPreferredUnit(value, path, unitSystem);
+    return converted && converted.unit !== getFieldUnit(path)
+      ? Number(converted.value.toPrecision(4))
+      : value;
+  };
+  
+  const getDisplayUnit = (path: string, rule: ValidationRule): string => {
+    return getPreferredUnit(path, unitSystem) || rule.unit;
+  };
+
+  // Get the rule of a parameter, with the legal range of the car when its mapping declares one
+  const getRule = (path: string): ValidationRule | undefined => {
+    // Items of a list (e.g. 'gearbox.ratios.0') share the rule of the list
+    const rule = setupValidationRules[path.replace(/\.\d+$/, '')];
+    const range = editedSetup && setupParser.getParameterRange(editedSetup.carId, path);
+    if (!rule || !range) return rule;
+    
+    if ('values' in range) {
+      return { ...rule, min: Math.min(...range.values), max: Math.max(...range.values), values: range.values };
+    }
+    return { ...rule, min: range.min, max: range.max, step: range.step ?? rule.step };
+  };
+
   // Handle parameter change
   const handleParameterChange = (path: string, value: number) => {
     if (!editedSetup) return;
     
     // Validate the value
-    const rule = setupValidationRules[path];
+    const rule = getRule(path);
+    const range = setupParser.getParameterRange(editedSetup.carId, path);
     if (rule) {
       if (value < rule.min || value > rule.max) {
         setValidationErrors({
           ...validationErrors,
-          [path]: `Value must be between ${rule.min} and ${rule.max} ${rule.unit}`
+          [path]: `Value must be between ${toDisplayValue(path, rule.min)} and ${toDisplayValue(path, rule.max)} ${getDisplayUnit(path, rule)}`
+        });
+      } else if (range && !isWithinRange(value, range)) {
+        setValidationErrors({
+          ...validationErrors,
+          [path]: rule.values
+            ? `Value must be one of ${rule.values.map(legal => toDisplayValue(path, legal)).join(', ')} ${getDisplayUnit(path, rule)}`
+            : `Value must be in steps of ${toDisplayValue(path, rule.step)} ${getDisplayUnit(path, rule)}`
         });
       } else {
         // Clear validation error if it exists
@@ -266,6 +299,10 @@ export const SetupEditor: React.FC<SetupEditorProps> = ({ setupData, onSave }) =
   // Handle save
   const handleSave = () => {
     if (editedSetup && Object.keys(validationErrors).length === 0) {
+      const errors = getSetupValidationErrors(editedSetup);
+      setSchemaErrors(errors);
+      if (errors.length > 0) return;
+      
       onSave(editedSetup);
       setIsModified(false);
     }
@@ -276,17 +313,28 @@ export const SetupEditor: React.FC<SetupEditorProps> = ({ setupData, onSave }) =
     if (setupData) {
       setEditedSetup(JSON.parse(JSON.stringify(setupData)));
       setValidationErrors({});
+      setSchemaErrors([]);
       setIsModified(false);
     }
   };
 
   // Render parameter control based on validation rule
   const renderParameterControl = (path: string, label: string) => {
-    const rule = setupValidationRules[path];
+    const rule = getRule(path);
     if (!rule) return null;
     
-    const value = getNestedProperty(editedSetup, path);
+    const value = toDisplayValue(path, getNestedProperty(editedSetup, path));
     const error = validationErrors[path];
+    const min = toDisplayValue(path, rule.min);
+    const max = toDisplayValue(path, rule.max);
+    const step = toDisplayValue(path, rule.step);
+    
+    // Values are entered in the selected unit system and stored in the setup's units,
+    // on the legal value the rounded display stands for
+    const handleDisplayChange = (displayValue: number) => {
+      const range = setupParser.getParameterRange(editedSetup.carId, path);
+      handleParameterChange(path, fromPreferredUnitInRange(displayValue, path, unitSystem, range));
+    };
     
     return (
       <ParameterRow container spacing={2}>
@@ -301,10 +349,11 @@ export const SetupEditor: React.FC<SetupEditorProps> = ({ setupData, onSave }) =
         <Grid item xs={4}>
           <Slider
             value={value}
-            min={rule.min}
-            max={rule.max}
-            step={rule.step}
-            onChange={(_, newValue) => handleParameterChange(path, newValue as number)}
+            min={min}
+            max={max}
+            step={rule.values ? null : step}
+            marks={rule.values?.map(legal => ({ value: toDisplayValue(path, legal) }))}
+            onChange={(_, newValue) => handleDisplayChange(newValue as number)}
             aria-labelledby={`${path}-slider`}
             valueLabelDisplay="auto"
           />
@@ -315,15 +364,15 @@ export const SetupEditor: React.FC<SetupEditorProps> = ({ setupData, onSave }) =
             onChange={(e) => {
               const newValue = parseFloat(e.target.value);
               if (!isNaN(newValue)) {
-                handleParameterChange(path, newValue);
+                handleDisplayChange(newValue);
               }
             }}
             type="number"
             size="small"
             inputProps={{
-              min: rule.min,
-              max: rule.max,
-              step: rule.step
+              min,
+              max,
+              step
             }}
             error={!!error}
             helperText={error}
@@ -331,13 +380,196 @@ export const SetupEditor: React.FC<SetupEditorProps> = ({ setupData, onSave }) =
         </Grid>
         <Grid item xs={1}>
           <Typography variant="body2" color="text.secondary">
-            {rule.unit}
+            {getDisplayUnit(path, rule)}
           </Typography>
         </Grid>
       </ParameterRow>
     );
   };
 
+  // Render the controls of one axle's heave spring, for cars that have one
+  const renderHeaveSpringControls = (axle: 'front' | 'rear') => {
+    const heaveSpring = editedSetup.heaveSprings?.[axle];
+    if (!heaveSpring) return null;
+    
+    return (
+      <>
+        {heaveSpring.springRate !== undefined &&
+          renderParameterControl(`heaveSprings.${axle}.springRate`, 'Heave Spring')}
+        {heaveSpring.perchOffset !== undefined &&
+          renderParameterControl(`heaveSprings.${axle}.perchOffset`, 'Heave Perch Offset')}
+        {heaveSpring.packers !== undefined &&
+          renderParameterControl(`heaveSprings.${axle}.packers`, 'Heave Packers')}
+      </>
+    );
+  };
+
+  // Render the controls of one axle's dampers, with the high-speed adjusters of four-way dampers
+  const renderDamperControls = (axle: 'front' | 'rear') => {
+    const dampers = editedSetup.dampers[axle];
+    const fourWay = dampers.highSpeedBump !== undefined || dampers.highSpeedRebound !== undefined;
+    
+    return (
+      <>
+        {renderParameterControl(`dampers.${axle}.bump`, fourWay ? 'LS Bump' : 'Bump')}
+        {dampers.highSpeedBump !== undefined &&
+          renderParameterControl(`dampers.${axle}.highSpeedBump`, 'HS Bump')}
+        {dampers.bumpSlope !== undefined &&
+          renderParameterControl(`dampers.${axle}.bumpSlope`, 'HS Bump Slope')}
+        {renderParameterControl(`dampers.${axle}.rebound`, fourWay ? 'LS Rebound' : 'Rebound')}
+        {dampers.highSpeedRebound !== undefined &&
+          renderParameterControl(`dampers.${axle}.highSpeedRebound`, 'HS Rebound')}
+        {dampers.reboundSlope !== undefined &&
+          renderParameterControl(`dampers.${axle}.reboundSlope`, 'HS Rebound Slope')}
+      </>
+    );
+  };
+
+  // Render the top speed and upshift of each gear, for cars whose mapping has drivetrain data
+  const renderGearingTable = () => {
+    const gearing = setupParser.analyzeGearing(editedSetup);
+    if (!gearing) {
+      return (
+        <Typography variant="body2" color="text.secondary">
+          The car mapping has no tire rolling radius and redline to calculate speeds from.
+        </Typography>
+      );
+    }
+    
+    const speedUnit = unitSystem === 'imperial' ? 'mph' : 'km/h';
+    const formatSpeed = (speed: number) =>
+      (unitSystem === 'imperial' ? speed / KM_PER_MILE : speed).toFixed(1);
+    
+    return (
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Gear</TableCell>
+            <TableCell align="right">Top speed ({speedUnit})</TableCell>
+            <TableCell align="right">RPM after upshift</TableCell>
+            <TableCell align="right">RPM drop</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {gearing.gears.map((gear, index) => {
+            const shift = gearing.shifts[index];
+            return (
+              <TableRow key={gear.gear}>
+                <TableCell>{gear.gear}</TableCell>
+                <TableCell align="right">{formatSpeed(gear.topSpeed)}</TableCell>
+                <TableCell align="right">{shift ? Math.round(shift.rpmAfterShift) : '-'}</TableCell>
+                <TableCell align="right">{shift ? Math.round(shift.rpmDrop) : '-'}</TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    );
+  };
+
+  // Render the engineering numbers derived from the setup, for cars whose mapping has a car spec
+  const renderDerivedMetrics = () => {
+    const metrics = setupParser.computeDerivedMetrics(editedSetup);
+    if (!metrics) {
+      return (
+        <Typography variant="body1">
+          The car mapping has no chassis data (mass, motion ratios, track width) to derive metrics from.
+        </Typography>
+      );
+    }
+    
+    const springRateUnit = getPreferredUnit('suspension.front.springRate', unitSystem) || 'N/m';
+    const rows: Array<[string, string, string]> = [
+      [
+        'Wheel rate',
+        `${toDisplayValue('suspension.front.springRate', metrics.front.wheelRate)} ${springRateUnit}`,
+        `${toDisplayValue('suspension.rear.springRate', metrics.rear.wheelRate)} ${springRateUnit}`
+      ],
+      ...(metrics.front.heaveWheelRate > 0 || metrics.rear.heaveWheelRate > 0 ? [[
+        'Heave wheel rate',
+        `${toDisplayValue('suspension.front.springRate', metrics.front.heaveWheelRate)} ${springRateUnit}`,
+        `${toDisplayValue('suspension.rear.springRate', metrics.rear.heaveWheelRate)} ${springRateUnit}`
+      ] as [string, string, string]] : []),
+      ['Ride frequency', `${metrics.front.rideFrequency.toFixed(2)} Hz`, `${metrics.rear.rideFrequency.toFixed(2)} Hz`],
+      ['Roll stiffness', `${Math.round(metrics.front.rollStiffness)} N·m/deg`, `${Math.round(metrics.rear.rollStiffness)} N·m/deg`]
+    ];
+    
+    return (
+      <Grid container spacing={3}>
+        <Grid item xs={12} md={6}>
+          <Typography variant="h6" gutterBottom>Per Axle</Typography>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell />
+                <TableCell align="right">Front</TableCell>
+                <TableCell align="right">Rear</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rows.map(([label, front, rear]) => (
+                <TableRow key={label}>
+                  <TableCell>{label}</TableCell>
+                  <TableCell align="right">{front}</TableCell>
+                  <TableCell align="right">{rear}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Grid>
+        <Grid item xs={12} md={6}>
+          <Typography variant="h6" gutterBottom>Balance</Typography>
+          <Typography variant="body2">
+            <strong>Weight distribution:</strong> {metrics.frontWeightDistribution.toFixed(1)}% front
+          </Typography>
+          <Typography variant="body2">
+            <strong>Roll stiffness distribution:</strong> {metrics.frontRollStiffnessDistribution.toFixed(1)}% front
+          </Typography>
+          <Typography variant="body2">
+            <strong>Mechanical balance:</strong> {metrics.mechanicalBalance > 0 ? '+' : ''}
+            {metrics.mechanicalBalance.toFixed(1)} ({metrics.balanceTendency})
+          </Typography>
+          <Typography variant="body2">
+            <strong>Ride frequency ratio:</strong> {metrics.rideFrequencyRatio.toFixed(2)} (front/rear)
+          </Typography>
+          <Typography variant="body2">
+            <strong>Rake:</strong> {toDisplayValue('suspension.front.rideHeight', metrics.rake)}{' '}
+            {getPreferredUnit('suspension.front.rideHeight', unitSystem)} ({metrics.rakeAngle.toFixed(2)}°)
+          </Typography>
+        </Grid>
+      </Grid>
+    );
+  };
+
+  // Render downforce, drag and aero balance from the car's aero map, at a reference speed
+  const renderAeroAnalysis = () => {
+    const aero = setupParser.analyzeAero(editedSetup);
+    if (!aero) return null;
+    
+    const forces = getAeroForces(aero, AERO_REFERENCE_SPEED);
+    
+    return (
+      <Box sx={{ mt: 3 }}>
+        <Typography variant="h6" gutterBottom>Aero</Typography>
+        <Typography variant="body2">
+          <strong>Aero balance:</strong> {aero.balance.toFixed(1)}% front
+          {aero.extrapolated && ' (outside the aero map)'}
+        </Typography>
+        <Typography variant="body2">
+          <strong>Downforce:</strong> {Math.round(forces.downforce)} N at {AERO_REFERENCE_SPEED} km/h
+          (CL·A {aero.downforce.toFixed(3)} m²)
+        </Typography>
+        <Typography variant="body2">
+          <strong>Drag:</strong> {Math.round(forces.drag)} N at {AERO_REFERENCE_SPEED} km/h
+          (CD·A {aero.drag.toFixed(3)} m²)
+        </Typography>
+        <Typography variant="body2">
+          <strong>Efficiency (L/D):</strong> {aero.efficiency.toFixed(2)}
+        </Typography>
+      </Box>
+    );
+  };
+
   return (
     <Box sx={{ width: '100%' }}>
       <Box sx={{ borderBottom: 1, borderColor: 'divider', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
@@ -347,9 +579,23 @@ export const SetupEditor: React.FC<SetupEditorProps> = ({ setupData, onSave }) =
           <Tab label="Tires" {...a11yProps(2)} />
           <Tab label="Aero & Brakes" {...a11yProps(3)} />
           <Tab label="Differential" {...a11yProps(4)} />
-          <Tab label="Info" {...a11yProps(5)} />
+          <Tab label="Chassis & Electronics" {...a11yProps(5)} />
+          <Tab label="Gearing" {...a11yProps(6)} />
+          <Tab label="Metrics" {...a11yProps(7)} />
+          <Tab label="Info" {...a11yProps(8)} />
         </Tabs>
-        <Box>
+        <Box sx={{ display: 'flex', alignItems: 'center' }}>
+          <ToggleButtonGroup
+            value={unitSystem}
+            exclusive
+            size="small"
+            onChange={(_, newUnitSystem) => newUnitSystem && setUnitSystem(newUnitSystem)}
+            aria-label="unit system"
+            sx={{ mr: 2 }}
+          >
+            <ToggleButton value="metric">Metric</ToggleButton>
+            <ToggleButton value="imperial">Imperial</ToggleButton>
+          </ToggleButtonGroup>
           <Button
             variant="outlined"
             startIcon={<RestoreIcon />}
@@ -380,6 +626,7 @@ export const SetupEditor: React.FC<SetupEditorProps> = ({ setupData, onSave }) =
             {renderParameterControl('suspension.front.camber', 'Camber')}
             {renderParameterControl('suspension.front.toe', 'Toe')}
             {renderParameterControl('suspension.front.antiRollBar', 'Anti-Roll Bar')}
+            {renderHeaveSpringControls('front')}
           </Grid>
           <Grid item xs={12} md={6}>
             <Typography variant="h6" gutterBottom>Rear Suspension</Typography>
@@ -388,6 +635,7 @@ export const SetupEditor: React.FC<SetupEditorProps> = ({ setupData, onSave }) =
             {renderParameterControl('suspension.rear.camber', 'Camber')}
             {renderParameterControl('suspension.rear.toe', 'Toe')}
             {renderParameterControl('suspension.rear.antiRollBar', 'Anti-Roll Bar')}
+            {renderHeaveSpringControls('rear')}
           </Grid>
         </Grid>
       </TabPanel>
@@ -397,13 +645,11 @@ export const SetupEditor: React.FC<SetupEditorProps> = ({ setupData, onSave }) =
         <Grid container spacing={3}>
           <Grid item xs={12} md={6}>
             <Typography variant="h6" gutterBottom>Front Dampers</Typography>
-            {renderParameterControl('dampers.front.bump', 'Bump')}
-            {renderParameterControl('dampers.front.rebound', 'Rebound')}
+            {renderDamperControls('front')}
           </Grid>
           <Grid item xs={12} md={6}>
             <Typography variant="h6" gutterBottom>Rear Dampers</Typography>
-            {renderParameterControl('dampers.rear.bump', 'Bump')}
-            {renderParameterControl('dampers.rear.rebound', 'Rebound')}
+            {renderDamperControls('rear')}
           </Grid>
         </Grid>
       </TabPanel>
@@ -421,6 +667,21 @@ export const SetupEditor: React.FC<SetupEditorProps> = ({ setupData, onSave }) =
             {renderParameterControl('tirePressures.rearLeft', 'Rear Left Pressure')}
             {renderParameterControl('tirePressures.rearRight', 'Rear Right Pressure')}
           </Grid>
+          {editedSetup.tireCompound !== undefined && (
+            <Grid item xs={12} md={6}>
+              <Typography variant="h6" gutterBottom>Compound</Typography>
+              <TextField
+                label="Tire Compound"
+                value={editedSetup.tireCompound}
+                onChange={(e) => {
+                  const newSetup = { ...editedSetup, tireCompound: e.target.value };
+                  setEditedSetup(newSetup);
+                  setIsModified(true);
+                }}
+                size="small"
+              />
+            </Grid>
+          )}
         </Grid>
       </TabPanel>
       
@@ -438,6 +699,17 @@ export const SetupEditor: React.FC<SetupEditorProps> = ({ setupData, onSave }) =
             <Typography variant="h6" gutterBottom>Brakes</Typography>
             {renderParameterControl('brakeBias', 'Brake Bias')}
           </Grid>
+          {editedSetup.cooling && (
+            <Grid item xs={12} md={6}>
+              <Typography variant="h6" gutterBottom>Cooling</Typography>
+              {editedSetup.cooling.frontBrakeDucts !== undefined && 
+                renderParameterControl('cooling.frontBrakeDucts', 'Front Brake Ducts')}
+              {editedSetup.cooling.rearBrakeDucts !== undefined && 
+                renderParameterControl('cooling.rearBrakeDucts', 'Rear Brake Ducts')}
+              {editedSetup.cooling.radiator !== undefined && 
+                renderParameterControl('cooling.radiator', 'Radiator')}
+            </Grid>
+          )}
         </Grid>
       </TabPanel>
       
@@ -459,8 +731,65 @@ export const SetupEditor: React.FC<SetupEditorProps> = ({ setupData, onSave }) =
         )}
       </TabPanel>
       
-      {/* Info Tab */}
+      {/* Chassis & Electronics Tab */}
       <TabPanel value={tabValue} index={5}>
+        {editedSetup.fuel || editedSetup.ballast || editedSetup.crossWeight !== undefined || editedSetup.electronics ? (
+          <Grid container spacing={3}>
+            <Grid item xs={12} md={6}>
+              <Typography variant="h6" gutterBottom>Chassis</Typography>
+              {editedSetup.fuel && renderParameterControl('fuel.level', 'Fuel Level')}
+              {editedSetup.ballast?.weight !== undefined && 
+                renderParameterControl('ballast.weight', 'Ballast Weight')}
+              {editedSetup.ballast?.position !== undefined && 
+                renderParameterControl('ballast.position', 'Ballast Position')}
+              {editedSetup.crossWeight !== undefined && 
+                renderParameterControl('crossWeight', 'Cross Weight')}
+            </Grid>
+            <Grid item xs={12} md={6}>
+              <Typography variant="h6" gutterBottom>Electronics</Typography>
+              {editedSetup.electronics?.tractionControl !== undefined && 
+                renderParameterControl('electronics.tractionControl', 'Traction Control')}
+              {editedSetup.electronics?.abs !== undefined && 
+                renderParameterControl('electronics.abs', 'ABS')}
+            </Grid>
+          </Grid>
+        ) : (
+          <Typography variant="body1">No chassis or electronics settings available for this car.</Typography>
+        )}
+      </TabPanel>
+      
+      {/* Gearing Tab */}
+      <TabPanel value={tabValue} index={6}>
+        {editedSetup.gearbox ? (
+          <Grid container spacing={3}>
+            <Grid item xs={12} md={6}>
+              <Typography variant="h6" gutterBottom>Gearbox</Typography>
+              {editedSetup.gearbox.ratios.map((_, index) => (
+                <React.Fragment key={index}>
+                  {renderParameterControl(`gearbox.ratios.${index}`, `Gear ${index + 1}`)}
+                </React.Fragment>
+              ))}
+              {editedSetup.gearbox.finalDrive !== undefined && 
+                renderParameterControl('gearbox.finalDrive', 'Final Drive')}
+            </Grid>
+            <Grid item xs={12} md={6}>
+              <Typography variant="h6" gutterBottom>Speed per Gear</Typography>
+              {renderGearingTable()}
+            </Grid>
+          </Grid>
+        ) : (
+          <Typography variant="body1">No gearbox settings available for this car.</Typography>
+        )}
+      </TabPanel>
+      
+      {/* Metrics Tab */}
+      <TabPanel value={tabValue} index={7}>
+        {renderDerivedMetrics()}
+        {renderAeroAnalysis()}
+      </TabPanel>
+      
+      {/* Info Tab */}
+      <TabPanel value={tabValue} index={8}>
         <Grid container spacing={3}>
           <Grid item xs={12} md={6}>
             <Typography variant="h6" gutterBottom>Setup Information</Typography>
@@ -522,16 +851,19 @@ export const SetupEditor: React.FC<SetupEditorProps> = ({ setupData, onSave }) =
       </TabPanel>
       
       {/* Validation Error Summary */}
-      {Object.keys(validationErrors).length > 0 && (
+      {(Object.keys(validationErrors).length > 0 || schemaErrors.length > 0) && (
         <Box sx={{ mt: 2 }}>
           <Alert severity="error">
             <Typography variant="subtitle1">Please fix the following errors:</Typography>
             <ul>
               {Object.entries(validationErrors).map(([path, error]) => (
                 <li key={path}>
-                  {setupValidationRules[path]?.description}: {error}
+                  {getRule(path)?.description}: {error}
                 </li>
               ))}
+              {schemaErrors.map(error => (
+                <li key={error}>{error}</li>
+              ))}
             </ul>
           </Alert>
         </Box>
@@ -1,8 +1,63 @@
+import type { CarMappingDefinition } from 'setup-parser';
+
+// Setup library of the Electron main process (apps/electron/src/setup-library.ts)
+export interface SetupLibraryEntry {
+  filePath: string;
+  relativePath: string;
+  carFolder: string;
+  folder: string;
+  carId: string;
+  trackId: string;
+  name: string;
+  modified: string;
+  size: number;
+  hash: string;
+  error?: string;
+}
+
+export interface SetupLibraryFilter {
+  carId?: string;
+  carFolder?: string;
+  trackId?: string;
+  folder?: string;
+}
+
+export interface SetupLibraryScanResult {
+  root: string;
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+  failed: number;
+}
+
+// File reported by the folder watcher of the Electron main process (apps/electron/src/file-watcher.ts)
+export interface WatchedFileEvent {
+  folder: 'setups' | 'telemetry';
+  filePath: string;
+  name: string;
+  change: 'added' | 'changed' | 'removed';
+  modified?: string;
+  setup?: SetupLibraryEntry;
+  telemetry?: { columns: string[]; rows: number };
+  error?: string;
+}
+
 interface ElectronAPI {
   openFile: () => Promise<string | null>;
-  saveFile: (defaultPath: string, fileContent: string) => Promise<string | null>;
+  chooseSavePath: (defaultPath: string) => Promise<string | null>;
   readFile: (filePath: string) => Promise<string>;
+  readFileBytes: (filePath: string) => Promise<Uint8Array>;
   writeFile: (filePath: string, content: string) => Promise<boolean>;
+  listUserCarMappings: () => Promise<CarMappingDefinition[]>;
+  getLibraryRoot: () => Promise<string | null>;
+  chooseLibraryRoot: () => Promise<string | null>;
+  scanLibrary: () => Promise<SetupLibraryScanResult>;
+  listLibrary: (filter?: SetupLibraryFilter) => Promise<SetupLibraryEntry[]>;
+  searchLibrary: (query: string, filter?: SetupLibraryFilter) => Promise<SetupLibraryEntry[]>;
+  getWatchedFolders: () => Promise<{ setups: string | null; telemetry: string | null }>;
+  chooseTelemetryFolder: () => Promise<string | null>;
+  onWatchedFile: (callback: (event: WatchedFileEvent) => void) => () => void;
 }
 
 declare global {
@@ -0,0 +1,23 @@
+import { SetupParser, compileCarMapping, createDefaultParser } from 'setup-parser';
+
+// Parser shared by the components, with the bundled car mappings and the
+// user car mappings of the app once loadUserCarMappings has resolved
+export const setupParser: SetupParser = createDefaultParser();
+
+/**
+ * Register the car mappings of the app's user car-mappings folder, which take
+ * precedence over the bundled mappings for the same car
+ *
+ * The main process reads and validates the mapping files; they are compiled
+ * here because their value transforms can't be sent over IPC.
+ */
+export async function loadUserCarMappings(): Promise<void> {
+  try {
+    for (const definition of await window.electronAPI.listUserCarMappings()) {
+      setupParser.registerCarMapping(compileCarMapping(definition));
+    }
+  } catch (error) {
+    // Setups of the cars with bundled mappings can still be parsed
+    console.error('Error loading user car mappings:', error);
+  }
+}
@@ -3,6 +3,7 @@ import { TelemetryAgent } from './TelemetryAgent';
 import { EngineerAgent } from './EngineerAgent';
 import { TestDriverAgent } from './TestDriverAgent';
 import { SetupData } from '../interfaces/SetupData';
+import { parseAurigaDocument, validateSetupData } from 'setup-schema';
 
 /**
  * CoordinatorAgent orchestrates the other agents and manages the dialogue
@@ -36,7 +37,8 @@ export class CoordinatorAgent extends BaseAgent {
   
   /**
    * Initialize the CoordinatorAgent with configuration and sub-agents
-   * @param config Configuration for the CoordinatorAgent
+   * @param config Configuration for the CoordinatorAgent; `userMappingsDir` is
+   * passed on to the sub-agents that read setups
    */
   public async initialize(config: Record<string, any>): Promise<void> {
     await super.initialize(config);
@@ -46,10 +48,10 @@ export class CoordinatorAgent extends BaseAgent {
     await this.telemetryAgent.initialize(config.telemetryAgent || {});
     
     this.engineerAgent = new EngineerAgent();
-    await this.engineerAgent.initialize(config.engineerAgent || {});
+    await this.engineerAgent.initialize({ userMappingsDir: config.userMappingsDir, ...config.engineerAgent });
     
     this.testDriverAgent = new TestDriverAgent();
-    await this.testDriverAgent.initialize(config.testDriverAgent || {});
+    await this.testDriverAgent.initialize({ userMappingsDir: config.userMappingsDir, ...config.testDriverAgent });
   }
   
   /**
@@ -70,12 +72,12 @@ export class CoordinatorAgent extends BaseAgent {
       throw new Error('Sub-agents have not been properly initialized');
     }
     
-    // Parse setup data if it's a string
+    // Parse setup data if it's a string, and reject setups that don't match the setup schema
     let setupData: SetupData | undefined;
     if (input.setupData) {
       setupData = typeof input.setupData === 'string' 
         ? this.parseSetupData(input.setupData)
-        : input.setupData;
+        : validateSetupData<SetupData>(input.setupData);
     }
     
     // Determine the action to take
@@ -119,18 +121,20 @@ export class CoordinatorAgent extends BaseAgent {
   }
   
   /**
-   * Parse setup data from a string (either JSON or .sto format)
+   * Parse setup data from a string (either an Auriga JSON setup or .sto format)
    * @param setupDataString Setup data as a string
    * @returns Parsed SetupData
+   * @throws SetupValidationError if the JSON is not a valid setup
    */
   private parseSetupData(setupDataString: string): SetupData {
     // This is a placeholder implementation
     // In a real implementation, this would parse the setup data from JSON or .sto format
     console.log('Parsing setup data...');
     
+    let data: unknown;
     try {
       // Try parsing as JSON first
-      return JSON.parse(setupDataString);
+      data = JSON.parse(setupDataString);
     } catch (error) {
       // If not valid JSON, assume it's .sto format and parse accordingly
       console.log('Not valid JSON, parsing as .sto format...');
@@ -179,6 +183,9 @@ export class CoordinatorAgent extends BaseAgent {
         brakeBias: 55
       };
     }
+    
+    // Valid JSON must be an Auriga setup document (or a bare setup of the first format) with a complete setup
+    return parseAurigaDocument(data, 'setup JSON').setup;
   }
   
   /**
@@ -224,7 +231,7 @@ export class CoordinatorAgent extends BaseAgent {
     let telemetryAnalysis: Record<string, any> | undefined;
     if (telemetryData && this.telemetryAgent) {
       console.log('Analyzing telemetry data first...');
-      const result = await this.telemetryAgent.run({ telemetryData });
+      const result = await this.telemetryAgent.run({ telemetryData, trackId: currentSetup.trackId });
       telemetryAnalysis = result;
     }
     
@@ -290,7 +297,7 @@ export class CoordinatorAgent extends BaseAgent {
     let telemetryAnalysis: Record<string, any> | undefined;
     if (telemetryData && this.telemetryAgent) {
       console.log('Step 1: Analyzing telemetry...');
-      telemetryAnalysis = await this.telemetryAgent.run({ telemetryData });
+      telemetryAnalysis = await this.telemetryAgent.run({ telemetryData, trackId: setupData?.trackId });
     }
     
     // Step 2: Suggest setup changes if we have a current setup
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { EngineerAgent } from './EngineerAgent';
+import { SetupData } from '../interfaces/SetupData';
+
+/**
+ * Setup of a car without car mapping, so suggestions are only bounded by the agent's own limits
+ */
+function createSetup(): SetupData {
+  const axle = { springRate: 180000, rideHeight: 55, camber: -3.8, toe: -0.06, antiRollBar: 4 };
+  const dampers = { bump: 10, rebound: 12 };
+
+  return {
+    carId: 'test_car',
+    trackId: 'test_track',
+    name: 'Baseline',
+    suspension: { front: { ...axle }, rear: { ...axle } },
+    dampers: { front: { ...dampers }, rear: { ...dampers } },
+    tirePressures: { frontLeft: 165.5, frontRight: 165.5, rearLeft: 162, rearRight: 162 },
+    aero: { rearWing: 5 },
+    electronics: { tractionControl: 4, abs: 5 },
+    brakeBias: 54.2
+  };
+}
+
+/**
+ * Suggested driver aid values for a piece of driver feedback
+ */
+async function suggestDriverAids(driverFeedback: string): Promise<Record<string, number>> {
+  const agent = new EngineerAgent();
+  await agent.initialize({});
+
+  const { suggestions } = await agent.run({ currentSetup: createSetup(), driverFeedback });
+  return Object.fromEntries(
+    suggestions.changes
+      .filter((change: any) => change.component.startsWith('electronics.'))
+      .map((change: any) => [change.component, change.suggestedValue])
+  );
+}
+
+describe('EngineerAgent driver aid feedback', () => {
+  it('raises the traction control for wheelspin, and lowers it when it cuts too much', async () => {
+    expect(await suggestDriverAids('Lots of wheelspin out of slow corners')).toEqual({ 'electronics.tractionControl': 5 });
+    expect(await suggestDriverAids('The TC is cutting too much on exit')).toEqual({ 'electronics.tractionControl': 3 });
+    expect(await suggestDriverAids('Traction control is too intrusive')).toEqual({ 'electronics.tractionControl': 3 });
+  });
+
+  it('raises the ABS for lock-ups, and lowers it when braking distances are long', async () => {
+    expect(await suggestDriverAids('Front left locks into turn 1')).toEqual({ 'electronics.abs': 6 });
+    expect(await suggestDriverAids('Too many lock-ups')).toEqual({ 'electronics.abs': 6 });
+    expect(await suggestDriverAids('ABS feels intrusive')).toEqual({ 'electronics.abs': 4 });
+  });
+
+  it('matches driver aids as whole words only', async () => {
+    expect(await suggestDriverAids('The pitch of the car feels intrusive under braking')).toEqual({});
+    expect(await suggestDriverAids('Absolutely too long in the chicane, the rear feels blocked')).toEqual({});
+  });
+});
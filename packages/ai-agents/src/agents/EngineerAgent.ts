@@ -1,10 +1,52 @@
 import { BaseAgent } from './BaseAgent';
 import { SetupData } from '../interfaces/SetupData';
+import {
+  DerivedMetrics,
+  TrackInfo,
+  applyAxleEditsToCorners,
+  createDefaultParser,
+  createDefaultTrackRegistry,
+  deriveAxlesFromCorners,
+  formatAeroAnalysis,
+  formatDerivedMetrics,
+  formatGearing,
+  formatTrackInfo
+} from 'setup-parser';
+
+/**
+ * Feedback asking for more traction, but not about the traction control itself
+ */
+const TRACTION_PATTERN = /wheelspin|\btraction\b(?! control)/;
+
+/**
+ * Feedback about the traction control ('tc' as a word, not inside 'pitch')
+ */
+const TRACTION_CONTROL_PATTERN = /\btc\b|traction control/;
+
+/**
+ * Feedback about wheels locking ('lock-ups', 'locking', but not 'block' or 'clock')
+ */
+const LOCKING_PATTERN = /\block(ing|s|ed|ups?)?\b/;
+
+/**
+ * Feedback about the ABS ('abs' as a word, not inside 'absolutely')
+ */
+const ABS_PATTERN = /\babs\b/;
 
 /**
  * EngineerAgent processes driver feedback or telemetry analysis to suggest setup adjustments
  */
 export class EngineerAgent extends BaseAgent {
+  /**
+   * Parser providing the legal ranges of each car's garage
+   */
+  private setupParser = createDefaultParser();
+  
+  /**
+   * Registry providing the downforce level and surface of each track
+   */
+  private trackRegistry = createDefaultTrackRegistry();
+  
   /**
    * Create a new EngineerAgent
    */
@@ -18,11 +60,15 @@ export class EngineerAgent extends BaseAgent {
   
   /**
    * Initialize the EngineerAgent with configuration
-   * @param config Configuration for the EngineerAgent
+   * @param config Configuration for the EngineerAgent; `userMappingsDir` adds
+   * the car mappings of the user, the same folder the app loads them from
    */
   public async initialize(config: Record<string, any>): Promise<void> {
     await super.initialize(config);
-    // Additional initialization specific to EngineerAgent
+    
+    if (config.userMappingsDir) {
+      this.setupParser = createDefaultParser({ userMappingsDir: config.userMappingsDir });
+    }
   }
   
   /**
@@ -37,11 +83,19 @@ export class EngineerAgent extends BaseAgent {
   }): Promise<Record<string, any>> {
     this.checkInitialized();
     
+    // Engineering numbers behind the garage values, when the car mapping has a car spec
+    const derivedMetrics = this.setupParser.computeDerivedMetrics(input.currentSetup);
+    
+    // Layout, surface and usual wing level of the track, when the track is known
+    const track = this.trackRegistry.getTrackInfo(input.currentSetup.trackId);
+    
     // Process the input to generate setup suggestions
     const suggestions = this.generateSetupSuggestions(
       input.currentSetup,
       input.driverFeedback,
-      input.telemetryAnalysis
+      input.telemetryAnalysis,
+      derivedMetrics,
+      track
     );
     
     // Generate the modified setup based on the suggestions
@@ -50,9 +104,19 @@ export class EngineerAgent extends BaseAgent {
       suggestions
     );
     
+    // Speed per gear of the modified setup, so gearing can be discussed in concrete numbers
+    const gearing = this.setupParser.analyzeGearing(modifiedSetup);
+    
+    // Downforce, drag and aero balance of the modified setup, when the car mapping has an aero map
+    const aero = this.setupParser.analyzeAero(modifiedSetup);
+    
     return {
       suggestions,
-      modifiedSetup
+      modifiedSetup,
+      ...(derivedMetrics ? { derivedMetrics, derivedMetricsSummary: formatDerivedMetrics(derivedMetrics) } : {}),
+      ...(gearing ? { gearing, gearingSummary: formatGearing(gearing) } : {}),
+      ...(aero ? { aero, aeroSummary: formatAeroAnalysis(aero) } : {}),
+      ...(track ? { track, trackSummary: formatTrackInfo(track) } : {})
     };
   }
   
@@ -61,12 +125,16 @@ export class EngineerAgent extends BaseAgent {
    * @param currentSetup Current setup data
    * @param driverFeedback Optional driver feedback
    * @param telemetryAnalysis Optional telemetry analysis
+   * @param derivedMetrics Optional metrics derived from the current setup
+   * @param track Optional track the setup is for
    * @returns Setup suggestions
    */
   private generateSetupSuggestions(
     currentSetup: SetupData,
     driverFeedback?: string,
-    telemetryAnalysis?: Record<string, any>
+    telemetryAnalysis?: Record<string, any>,
+    derivedMetrics?: DerivedMetrics,
+    track?: TrackInfo
   ): Record<string, any> {
     // This is a placeholder implementation
     // In a real implementation, this would analyze the driver feedback and telemetry analysis
@@ -84,39 +152,130 @@ export class EngineerAgent extends BaseAgent {
       console.log('Processing driver feedback:', driverFeedback);
       
       // Mock suggestions based on common feedback
-      if (driverFeedback.toLowerCase().includes('understeer')) {
+      const feedback = driverFeedback.toLowerCase();
+      
+      // Balance in fast corners comes from the aero, so it's corrected with the
+      // wing or the rake when the car has an aero map, and with the ARBs otherwise
+      const highSpeed = feedback.includes('high speed') || feedback.includes('high-speed');
+      
+      if (feedback.includes('understeer') &&
+          !(highSpeed && this.suggestAeroBalanceChange(currentSetup, suggestions, 'forward', 'the car understeers in fast corners', track))) {
         suggestions.changes.push({
           component: 'suspension.front.antiRollBar',
           currentValue: currentSetup.suspension.front.antiRollBar,
-          suggestedValue: Math.max(1, currentSetup.suspension.front.antiRollBar - 2),
-          reason: 'Reduce front anti-roll bar stiffness to reduce understeer'
+          suggestedValue: this.toLegalValue(currentSetup, 'suspension.front.antiRollBar', currentSetup.suspension.front.antiRollBar - 2, { min: 1 }),
+          reason: 'Reduce front anti-roll bar stiffness to reduce understeer' + this.describeBalance(derivedMetrics)
         });
       }
       
-      if (driverFeedback.toLowerCase().includes('oversteer')) {
+      if (feedback.includes('oversteer') &&
+          !(highSpeed && this.suggestAeroBalanceChange(currentSetup, suggestions, 'rearward', 'the car oversteers in fast corners', track))) {
         suggestions.changes.push({
           component: 'suspension.rear.antiRollBar',
           currentValue: currentSetup.suspension.rear.antiRollBar,
-          suggestedValue: Math.max(1, currentSetup.suspension.rear.antiRollBar - 2),
-          reason: 'Reduce rear anti-roll bar stiffness to reduce oversteer'
+          suggestedValue: this.toLegalValue(currentSetup, 'suspension.rear.antiRollBar', currentSetup.suspension.rear.antiRollBar - 2, { min: 1 }),
+          reason: 'Reduce rear anti-roll bar stiffness to reduce oversteer' + this.describeBalance(derivedMetrics)
         });
       }
       
+      // Heave springs carry the aero load without changing the roll balance, so
+      // platform problems are fixed there before touching the corner springs
+      if (feedback.includes('bottoming') || feedback.includes('porpoising') || feedback.includes('scraping')) {
+        for (const axle of ['front', 'rear'] as const) {
+          this.suggestHeaveSupport(currentSetup, suggestions, axle, 'the car bottoms out under aero load');
+        }
+      }
+      
+      if (feedback.includes('understeer') && highSpeed) {
+        this.suggestHeaveSupport(currentSetup, suggestions, 'front', 'the front loses ride height and downforce in fast corners');
+      }
+      
+      // Low-speed damping controls body motion (pitch, roll, bouncing), high-speed
+      // damping controls how the wheel reacts to kerbs and sharp bumps
+      const fourWay = this.hasFourWayDampers(currentSetup);
+      
       if (driverFeedback.toLowerCase().includes('bounce') || driverFeedback.toLowerCase().includes('unstable')) {
         suggestions.changes.push({
           component: 'dampers.front.bump',
           currentValue: currentSetup.dampers.front.bump,
-          suggestedValue: Math.min(100, currentSetup.dampers.front.bump + 2),
-          reason: 'Increase front bump damping to reduce bouncing'
+          suggestedValue: this.toLegalValue(currentSetup, 'dampers.front.bump', currentSetup.dampers.front.bump + 2, { max: 100 }),
+          reason: fourWay
+            ? 'Increase front low-speed bump damping to control body movement and reduce bouncing'
+            : 'Increase front bump damping to reduce bouncing'
         });
         
         suggestions.changes.push({
           component: 'dampers.rear.bump',
           currentValue: currentSetup.dampers.rear.bump,
-          suggestedValue: Math.min(100, currentSetup.dampers.rear.bump + 2),
-          reason: 'Increase rear bump damping to reduce bouncing'
+          suggestedValue: this.toLegalValue(currentSetup, 'dampers.rear.bump', currentSetup.dampers.rear.bump + 2, { max: 100 }),
+          reason: fourWay
+            ? 'Increase rear low-speed bump damping to control body movement and reduce bouncing'
+            : 'Increase rear bump damping to reduce bouncing'
+        });
+      }
+      
+      if (driverFeedback.toLowerCase().includes('floaty') || driverFeedback.toLowerCase().includes('wallow')) {
+        suggestions.changes.push({
+          component: 'dampers.front.rebound',
+          currentValue: currentSetup.dampers.front.rebound,
+          suggestedValue: this.toLegalValue(currentSetup, 'dampers.front.rebound', currentSetup.dampers.front.rebound + 2, { max: 100 }),
+          reason: fourWay
+            ? 'Increase front low-speed rebound damping to settle the car faster after weight transfer'
+            : 'Increase front rebound damping to settle the car faster after weight transfer'
+        });
+        
+        suggestions.changes.push({
+          component: 'dampers.rear.rebound',
+          currentValue: currentSetup.dampers.rear.rebound,
+          suggestedValue: this.toLegalValue(currentSetup, 'dampers.rear.rebound', currentSetup.dampers.rear.rebound + 2, { max: 100 }),
+          reason: fourWay
+            ? 'Increase rear low-speed rebound damping to settle the car faster after weight transfer'
+            : 'Increase rear rebound damping to settle the car faster after weight transfer'
         });
       }
+      
+      // Driver aids, before any mechanical change for problems they're made for
+      if (TRACTION_PATTERN.test(feedback)) {
+        this.suggestDriverAidChange(currentSetup, suggestions, 'tractionControl', 1,
+          'Increase traction control to limit wheelspin on corner exit');
+      } else if (TRACTION_CONTROL_PATTERN.test(feedback) && (feedback.includes('intrusive') || feedback.includes('cutting'))) {
+        this.suggestDriverAidChange(currentSetup, suggestions, 'tractionControl', -1,
+          'Reduce traction control so it cuts less power on corner exit');
+      }
+      
+      if (LOCKING_PATTERN.test(feedback)) {
+        this.suggestDriverAidChange(currentSetup, suggestions, 'abs', 1,
+          'Increase ABS to stop the wheels locking under heavy braking');
+      } else if (ABS_PATTERN.test(feedback) && (feedback.includes('long') || feedback.includes('intrusive'))) {
+        this.suggestDriverAidChange(currentSetup, suggestions, 'abs', -1,
+          'Reduce ABS to shorten braking distances, at the cost of more lock-ups');
+      }
+      
+      if (driverFeedback.toLowerCase().includes('limiter')) {
+        // Top gear should reach a few percent more than the fastest point of the lap
+        const gearing = this.setupParser.analyzeGearing(currentSetup);
+        if (gearing) {
+          this.suggestTopSpeed(currentSetup, suggestions, gearing.topSpeed * 1.03, 'the driver hits the rev limiter');
+        }
+      }
+      
+      if (driverFeedback.toLowerCase().includes('kerb') || driverFeedback.toLowerCase().includes('curb')) {
+        for (const axle of ['front', 'rear'] as const) {
+          // Without high-speed adjusters the single bump adjuster is the only option
+          const dampers = currentSetup.dampers[axle];
+          const component = fourWay ? 'highSpeedBump' : 'bump';
+          const currentValue = dampers[component] ?? dampers.bump;
+          
+          suggestions.changes.push({
+            component: `dampers.${axle}.${component}`,
+            currentValue,
+            suggestedValue: this.toLegalValue(currentSetup, `dampers.${axle}.${component}`, currentValue - 2, { min: 0 }),
+            reason: fourWay
+              ? `Reduce ${axle} high-speed bump damping so the car rides over kerbs without being unsettled, leaving body control unchanged`
+              : `Reduce ${axle} bump damping so the car rides over kerbs without being unsettled`
+          });
+        }
+      }
     }
     
     // Process telemetry analysis if available
@@ -131,16 +290,32 @@ export class EngineerAgent extends BaseAgent {
               suggestions.changes.push({
                 component: 'suspension.front.antiRollBar',
                 currentValue: currentSetup.suspension.front.antiRollBar,
-                suggestedValue: Math.max(1, currentSetup.suspension.front.antiRollBar - 2),
+                suggestedValue: this.toLegalValue(currentSetup, 'suspension.front.antiRollBar', currentSetup.suspension.front.antiRollBar - 2, { min: 1 }),
                 reason: 'Reduce front anti-roll bar stiffness to reduce understeer detected in telemetry'
               });
             }
             
+            if (insight.toLowerCase().includes('bottoming')) {
+              for (const axle of ['front', 'rear'] as const) {
+                this.suggestHeaveSupport(currentSetup, suggestions, axle, 'telemetry shows the car bottoming out');
+              }
+            }
+            
+            if (insight.toLowerCase().includes('wheelspin')) {
+              this.suggestDriverAidChange(currentSetup, suggestions, 'tractionControl', 1,
+                'Increase traction control to limit the wheelspin detected in telemetry');
+            }
+            
+            if (LOCKING_PATTERN.test(insight.toLowerCase())) {
+              this.suggestDriverAidChange(currentSetup, suggestions, 'abs', 1,
+                'Increase ABS to prevent the lock-ups detected in telemetry');
+            }
+            
             if (insight.toLowerCase().includes('brake') || insight.toLowerCase().includes('braking')) {
               suggestions.changes.push({
                 component: 'brakeBias',
                 currentValue: currentSetup.brakeBias,
-                suggestedValue: Math.min(70, currentSetup.brakeBias + 1),
+                suggestedValue: this.toLegalValue(currentSetup, 'brakeBias', currentSetup.brakeBias + 1, { max: 70 }),
                 reason: 'Increase brake bias to improve braking stability'
               });
             }
@@ -157,14 +332,14 @@ export class EngineerAgent extends BaseAgent {
           suggestions.changes.push({
             component: 'tirePressures.frontLeft',
             currentValue: currentSetup.tirePressures.frontLeft,
-            suggestedValue: Math.max(150, currentSetup.tirePressures.frontLeft - 3),
+            suggestedValue: this.toLegalValue(currentSetup, 'tirePressures.frontLeft', currentSetup.tirePressures.frontLeft - 3, { min: 150 }),
             reason: 'Reduce front-left tire pressure to balance temperatures'
           });
         } else if (temps.frontRight > temps.frontLeft + 5) {
           suggestions.changes.push({
             component: 'tirePressures.frontRight',
             currentValue: currentSetup.tirePressures.frontRight,
-            suggestedValue: Math.max(150, currentSetup.tirePressures.frontRight - 3),
+            suggestedValue: this.toLegalValue(currentSetup, 'tirePressures.frontRight', currentSetup.tirePressures.frontRight - 3, { min: 150 }),
             reason: 'Reduce front-right tire pressure to balance temperatures'
           });
         }
@@ -174,18 +349,29 @@ export class EngineerAgent extends BaseAgent {
           suggestions.changes.push({
             component: 'tirePressures.rearLeft',
             currentValue: currentSetup.tirePressures.rearLeft,
-            suggestedValue: Math.max(150, currentSetup.tirePressures.rearLeft - 3),
+            suggestedValue: this.toLegalValue(currentSetup, 'tirePressures.rearLeft', currentSetup.tirePressures.rearLeft - 3, { min: 150 }),
             reason: 'Reduce rear-left tire pressure to balance temperatures'
           });
         } else if (temps.rearRight > temps.rearLeft + 5) {
           suggestions.changes.push({
             component: 'tirePressures.rearRight',
             currentValue: currentSetup.tirePressures.rearRight,
-            suggestedValue: Math.max(150, currentSetup.tirePressures.rearRight - 3),
+            suggestedValue: this.toLegalValue(currentSetup, 'tirePressures.rearRight', currentSetup.tirePressures.rearRight - 3, { min: 150 }),
             reason: 'Reduce rear-right tire pressure to balance temperatures'
           });
         }
       }
+      
+      // Compare the fastest point of the lap with the top speed of the gearbox
+      const maxSpeed = telemetryAnalysis.summary?.maxSpeed;
+      const gearing = this.setupParser.analyzeGearing(currentSetup);
+      if (typeof maxSpeed === 'number' && gearing) {
+        if (maxSpeed >= gearing.topSpeed * 0.99) {
+          this.suggestTopSpeed(currentSetup, suggestions, maxSpeed * 1.03, `telemetry reaches ${maxSpeed.toFixed(1)} km/h, the redline in top gear`);
+        } else if (maxSpeed < gearing.topSpeed * 0.9) {
+          this.suggestTopSpeed(currentSetup, suggestions, maxSpeed * 1.03, `telemetry only reaches ${maxSpeed.toFixed(1)} km/h, leaving top gear unused`);
+        }
+      }
     }
     
     // If no specific changes were suggested, add some general improvements
@@ -193,21 +379,21 @@ export class EngineerAgent extends BaseAgent {
       suggestions.changes.push({
         component: 'dampers.front.rebound',
         currentValue: currentSetup.dampers.front.rebound,
-        suggestedValue: Math.min(100, currentSetup.dampers.front.rebound + 1),
+        suggestedValue: this.toLegalValue(currentSetup, 'dampers.front.rebound', currentSetup.dampers.front.rebound + 1, { max: 100 }),
         reason: 'Slight increase in front rebound damping for better stability'
       });
       
       suggestions.changes.push({
         component: 'tirePressures.frontLeft',
         currentValue: currentSetup.tirePressures.frontLeft,
-        suggestedValue: Math.max(150, currentSetup.tirePressures.frontLeft - 1),
+        suggestedValue: this.toLegalValue(currentSetup, 'tirePressures.frontLeft', currentSetup.tirePressures.frontLeft - 1, { min: 150 }),
         reason: 'Slight reduction in front-left tire pressure for better grip'
       });
       
       suggestions.changes.push({
         component: 'tirePressures.frontRight',
         currentValue: currentSetup.tirePressures.frontRight,
-        suggestedValue: Math.max(150, currentSetup.tirePressures.frontRight - 1),
+        suggestedValue: this.toLegalValue(currentSetup, 'tirePressures.frontRight', currentSetup.tirePressures.frontRight - 1, { min: 150 }),
         reason: 'Slight reduction in front-right tire pressure for better grip'
       });
     }
@@ -215,6 +401,231 @@ export class EngineerAgent extends BaseAgent {
     return suggestions;
   }
   
+  /**
+   * Check whether a setup has four-way dampers (separate low- and high-speed adjusters)
+   * @param setup Setup data
+   * @returns True if high-speed damper values are available
+   */
+  private hasFourWayDampers(setup: SetupData): boolean {
+    return setup.dampers.front.highSpeedBump !== undefined || setup.dampers.rear.highSpeedBump !== undefined;
+  }
+  
+  /**
+   * Describe the mechanical balance of a setup for a suggestion's reason
+   * @param metrics Metrics derived from the setup
+   * @returns Sentence fragment starting with a space, empty without metrics
+   */
+  private describeBalance(metrics?: DerivedMetrics): string {
+    if (!metrics) return '';
+    
+    return ` (front roll stiffness distribution ${metrics.frontRollStiffnessDistribution.toFixed(1)}% ` +
+      `against ${metrics.frontWeightDistribution.toFixed(1)}% front weight, mechanical balance ` +
+      `${metrics.mechanicalBalance > 0 ? '+' : ''}${metrics.mechanicalBalance.toFixed(1)}: ${metrics.balanceTendency})`;
+  }
+  
+  /**
+   * Suggest a step of a driver aid (traction control or ABS) map
+   * @param setup Setup data
+   * @param suggestions Suggestions to add the change to
+   * @param aid Driver aid to change
+   * @param steps Number of map steps, positive for more intervention
+   * @param reason Why the driver aid should change
+   */
+  private suggestDriverAidChange(
+    setup: SetupData,
+    suggestions: Record<string, any>,
+    aid: 'tractionControl' | 'abs',
+    steps: number,
+    reason: string
+  ): void {
+    const component = `electronics.${aid}`;
+    const currentValue = setup.electronics?.[aid];
+    
+    // Cars without the driver aid, or with a change already suggested, are left alone
+    if (currentValue === undefined || suggestions.changes.some((change: any) => change.component === component)) return;
+    
+    const suggestedValue = this.toLegalValue(setup, component, currentValue + steps, { min: 0 });
+    if (suggestedValue === currentValue) return;
+    
+    suggestions.changes.push({ component, currentValue, suggestedValue, reason });
+  }
+  
+  /**
+   * Suggest more heave support on an axle: a stiffer heave spring, or more
+   * packers on cars where only the packers can be changed
+   * @param setup Setup data
+   * @param suggestions Suggestions to add the change to
+   * @param axle Axle that needs support
+   * @param cause Why the axle needs support, used in the reason
+   */
+  private suggestHeaveSupport(
+    setup: SetupData,
+    suggestions: Record<string, any>,
+    axle: 'front' | 'rear',
+    cause: string
+  ): void {
+    const heaveSpring = setup.heaveSprings?.[axle];
+    
+    // Cars without a heave spring, or with a change already suggested, are left alone
+    if (!heaveSpring || suggestions.changes.some((change: any) => change.component.startsWith(`heaveSprings.${axle}.`))) return;
+    
+    if (heaveSpring.springRate !== undefined) {
+      const component = `heaveSprings.${axle}.springRate`;
+      const suggestedValue = this.toLegalValue(setup, component, heaveSpring.springRate * 1.1);
+      
+      if (suggestedValue > heaveSpring.springRate) {
+        suggestions.changes.push({
+          component,
+          currentValue: heaveSpring.springRate,
+          suggestedValue,
+          reason: `Stiffen the ${axle} heave spring because ${cause}; it holds the ride height without changing the roll balance`
+        });
+        return;
+      }
+    }
+    
+    if (heaveSpring.packers !== undefined) {
+      const component = `heaveSprings.${axle}.packers`;
+      const suggestedValue = this.toLegalValue(setup, component, heaveSpring.packers + 2);
+      if (suggestedValue === heaveSpring.packers) return;
+      
+      suggestions.changes.push({
+        component,
+        currentValue: heaveSpring.packers,
+        suggestedValue,
+        reason: `Add ${axle} heave packers because ${cause}; they limit travel only at the bottom of the stroke`
+      });
+    }
+  }
+  
+  /**
+   * Suggest moving the aero balance with whichever of one rear wing step or a
+   * rake change keeps more downforce, based on the car's aero map; on
+   * low-downforce tracks the change with less drag is chosen instead
+   * @param setup Setup data
+   * @param suggestions Suggestions to add the changes to
+   * @param direction Direction to move the aero balance, forward for more front downforce
+   * @param cause Why the balance should move, used in the reason
+   * @param track Optional track the setup is for
+   * @returns True if a change was suggested, false if the car has no aero map or nothing helps
+   */
+  private suggestAeroBalanceChange(
+    setup: SetupData,
+    suggestions: Record<string, any>,
+    direction: 'forward' | 'rearward',
+    cause: string,
+    track?: TrackInfo
+  ): boolean {
+    const current = this.setupParser.analyzeAero(setup);
+    if (!current || setup.aero.rearWing === undefined) return false;
+    
+    // Less wing and more rake both move the balance forward
+    const sign = direction === 'forward' ? 1 : -1;
+    const rearRideHeights: Array<{ component: string; currentValue: number }> = setup.corners
+      ? [
+        { component: 'corners.rearLeft.rideHeight', currentValue: setup.corners.rearLeft.rideHeight },
+        { component: 'corners.rearRight.rideHeight', currentValue: setup.corners.rearRight.rideHeight }
+      ]
+      : [{ component: 'suspension.rear.rideHeight', currentValue: setup.suspension.rear.rideHeight }];
+    
+    const candidates = [
+      {
+        name: 'rear wing',
+        changes: [{
+          component: 'aero.rearWing',
+          currentValue: setup.aero.rearWing,
+          suggestedValue: this.toLegalValue(setup, 'aero.rearWing', setup.aero.rearWing - sign)
+        }]
+      },
+      {
+        name: 'rake',
+        changes: rearRideHeights.map(({ component, currentValue }) => ({
+          component,
+          currentValue,
+          suggestedValue: this.toLegalValue(setup, component, currentValue + 2 * sign)
+        }))
+      }
+    ].map(candidate => ({
+      ...candidate,
+      aero: this.setupParser.analyzeAero(this.applySetupSuggestions(setup, candidate))
+    }));
+    
+    const best = candidates
+      .filter(candidate => candidate.aero && (candidate.aero.balance - current.balance) * sign > 0)
+      .sort((a, b) => track?.downforce === 'low' ? a.aero!.drag - b.aero!.drag : b.aero!.downforce - a.aero!.downforce)[0];
+    if (!best) return false;
+    
+    const percentChange = (before: number, after: number) =>
+      `${after >= before ? '+' : ''}${((after - before) / before * 100).toFixed(1)}%`;
+    
+    for (const change of best.changes) {
+      suggestions.changes.push({
+        ...change,
+        reason: `Move the aero balance ${direction} with the ${best.name} because ${cause}: ` +
+          `${current.balance.toFixed(1)}% to ${best.aero!.balance.toFixed(1)}% front, ` +
+          `downforce ${percentChange(current.downforce, best.aero!.downforce)}, drag ${percentChange(current.drag, best.aero!.drag)}`
+      });
+    }
+    
+    return true;
+  }
+  
+  /**
+   * Suggest the final drive that gives the car a target top speed
+   * @param setup Setup data
+   * @param suggestions Suggestions to add the change to
+   * @param targetTopSpeed Top speed in km/h at the redline in top gear
+   * @param cause Why the top speed should change, used in the reason
+   */
+  private suggestTopSpeed(
+    setup: SetupData,
+    suggestions: Record<string, any>,
+    targetTopSpeed: number,
+    cause: string
+  ): void {
+    const gearing = this.setupParser.analyzeGearing(setup);
+    const finalDrive = setup.gearbox?.finalDrive;
+    if (!gearing || finalDrive === undefined) return;
+    
+    // Top speed is inversely proportional to the final drive
+    const suggestedValue = this.toLegalValue(
+      setup,
+      'gearbox.finalDrive',
+      Number((finalDrive * gearing.topSpeed / targetTopSpeed).toFixed(3))
+    );
+    if (suggestedValue === finalDrive) return;
+    
+    const newTopSpeed = gearing.topSpeed * finalDrive / suggestedValue;
+    suggestions.changes.push({
+      component: 'gearbox.finalDrive',
+      currentValue: finalDrive,
+      suggestedValue,
+      reason: `${suggestedValue < finalDrive ? 'Lengthen' : 'Shorten'} the final drive because ${cause}: ` +
+        `top speed in gear ${gearing.gears.length} goes from ${gearing.topSpeed.toFixed(1)} to ${newTopSpeed.toFixed(1)} km/h`
+    });
+  }
+  
+  /**
+   * Round a suggested value to the closest value the car's garage accepts
+   * @param setup Setup data
+   * @param component Path of the setup parameter
+   * @param value Suggested value
+   * @param fallback Limits for cars without a range for the parameter
+   * @returns Legal value, or the suggested value within the fallback limits if the car has no range for the parameter
+   */
+  private toLegalValue(
+    setup: SetupData,
+    component: string,
+    value: number,
+    fallback: { min?: number; max?: number } = {}
+  ): number {
+    if (this.setupParser.getParameterRange(setup.carId, component)) {
+      return this.setupParser.snapToLegal(setup.carId, component, value);
+    }
+    
+    return Math.min(fallback.max ?? Infinity, Math.max(fallback.min ?? -Infinity, value));
+  }
+  
   /**
    * Apply setup suggestions to the current setup
    * @param currentSetup Current setup data
@@ -233,12 +644,23 @@ export class EngineerAgent extends BaseAgent {
       // Parse the component path (e.g., 'suspension.front.antiRollBar')
       const path = change.component.split('.');
       
+      // Axle edits made so far go down to the corners first, so re-deriving the axles keeps them
+      const cornerChange = path[0] === 'corners';
+      if (cornerChange) {
+        applyAxleEditsToCorners(modifiedSetup);
+      }
+      
       // Apply the change to the modified setup
       let target: any = modifiedSetup;
       for (let i = 0; i < path.length - 1; i++) {
         target = target[path[i]];
       }
       target[path[path.length - 1]] = change.suggestedValue;
+      
+      // The axle view of a per-corner setup is the average of its corners
+      if (cornerChange) {
+        deriveAxlesFromCorners(modifiedSetup);
+      }
     }
     
     // Update metadata
@@ -1,10 +1,16 @@
 import { BaseAgent } from './BaseAgent';
 import { TelemetryData } from '../interfaces/TelemetryData';
+import { createDefaultTrackRegistry, findTrackSegment } from 'setup-parser';
 
 /**
  * TelemetryAgent analyzes CSV telemetry data from SimHub/iRacing
  */
 export class TelemetryAgent extends BaseAgent {
+  /**
+   * Registry providing the corners of each track to split laps by corner
+   */
+  private trackRegistry = createDefaultTrackRegistry();
+  
   /**
    * Create a new TelemetryAgent
    */
@@ -27,14 +33,17 @@ export class TelemetryAgent extends BaseAgent {
   
   /**
    * Run the TelemetryAgent to analyze telemetry data
-   * @param input Input containing telemetry data to analyze
+   * @param input Input containing telemetry data to analyze and the track it was recorded at
    * @returns Analysis results
    */
-  public async run(input: { telemetryData: string }): Promise<Record<string, any>> {
+  public async run(input: { telemetryData: string; trackId?: string }): Promise<Record<string, any>> {
     this.checkInitialized();
     
     // Parse the CSV telemetry data
     const parsedData = this.parseTelemetryData(input.telemetryData);
+    if (input.trackId) {
+      parsedData.metadata.trackId = input.trackId;
+    }
     
     // Analyze the telemetry data
     const analysis = this.analyzeTelemetryData(parsedData);
@@ -100,6 +109,8 @@ export class TelemetryAgent extends BaseAgent {
     console.log('Analyzing telemetry data...');
     
     // Mock implementation for now
+    const corners = this.analyzeCorners(telemetryData);
+    
     return {
       summary: {
         averageSpeed: telemetryData.summary.averageSpeed,
@@ -107,7 +118,8 @@ export class TelemetryAgent extends BaseAgent {
         bestLapTime: telemetryData.summary.bestLapTime,
         maxLateralG: telemetryData.summary.maxLateralG,
         maxBrakingG: Math.abs(telemetryData.summary.maxLongitudinalGBrake),
-        tireTemperatures: telemetryData.summary.averageTireTemps
+        tireTemperatures: telemetryData.summary.averageTireTemps,
+        ...(corners ? { corners } : {})
       },
       insights: [
         'The car exhibits understeer in high-speed corners',
@@ -121,4 +133,31 @@ export class TelemetryAgent extends BaseAgent {
       ]
     };
   }
+  
+  /**
+   * Split the best lap into corners of the track and summarize each corner
+   * @param telemetryData Parsed telemetry data
+   * @returns Minimum speed, peak lateral and braking G per corner, or undefined
+   *   if the track is unknown or no lap has data points
+   */
+  private analyzeCorners(telemetryData: TelemetryData): Record<string, any>[] | undefined {
+    const track = this.trackRegistry.getTrackInfo(telemetryData.metadata.trackId);
+    const bestLap = telemetryData.laps
+      .filter(lap => lap.dataPoints.length > 0)
+      .sort((a, b) => a.lapTime - b.lapTime)[0];
+    if (!track || !bestLap) return undefined;
+    
+    return track.corners.map(corner => {
+      const points = bestLap.dataPoints.filter(point => findTrackSegment(track, point.distance)?.corner === corner);
+      
+      return {
+        number: corner.number,
+        name: corner.name,
+        speed: corner.speed,
+        minSpeed: points.length > 0 ? Math.min(...points.map(point => point.speed)) : undefined,
+        maxLateralG: points.length > 0 ? Math.max(...points.map(point => Math.abs(point.lateralG))) : undefined,
+        maxBrakingG: points.length > 0 ? Math.max(0, ...points.map(point => -point.longitudinalG)) : undefined
+      };
+    });
+  }
 }
@@ -1,10 +1,21 @@
 import { BaseAgent } from './BaseAgent';
 import { SetupData } from '../interfaces/SetupData';
+import { createDefaultParser, createDefaultTrackRegistry, diffSetups, formatChange } from 'setup-parser';
 
 /**
  * TestDriverAgent evaluates the effects of proposed setup modifications
  */
 export class TestDriverAgent extends BaseAgent {
+  /**
+   * Parser providing the legal ranges used to count changes in garage clicks
+   */
+  private setupParser = createDefaultParser();
+  
+  /**
+   * Registry providing the surface and downforce level of each track
+   */
+  private trackRegistry = createDefaultTrackRegistry();
+  
   /**
    * Create a new TestDriverAgent
    */
@@ -18,11 +29,15 @@ export class TestDriverAgent extends BaseAgent {
   
   /**
    * Initialize the TestDriverAgent with configuration
-   * @param config Configuration for the TestDriverAgent
+   * @param config Configuration for the TestDriverAgent; `userMappingsDir` adds
+   * the car mappings of the user, the same folder the app loads them from
    */
   public async initialize(config: Record<string, any>): Promise<void> {
     await super.initialize(config);
-    // Additional initialization specific to TestDriverAgent
+    
+    if (config.userMappingsDir) {
+      this.setupParser = createDefaultParser({ userMappingsDir: config.userMappingsDir });
+    }
   }
   
   /**
@@ -74,8 +89,10 @@ export class TestDriverAgent extends BaseAgent {
     // effects of the setup changes based on the driver's style and track conditions
     console.log('Evaluating setup changes...');
     
-    // Identify the changes between the setups
-    const changes = this.identifySetupChanges(originalSetup, modifiedSetup);
+    // Identify the changes between the setups, in garage clicks where the car has legal ranges
+    const changes = diffSetups(originalSetup, modifiedSetup, {
+      getRange: fieldPath => this.setupParser.getParameterRange(modifiedSetup.carId, fieldPath)
+    });
     
     // Mock evaluation for now
     const evaluation: Record<string, any> = {
@@ -93,51 +110,70 @@ export class TestDriverAgent extends BaseAgent {
     // Generate effects for each change
     for (const change of changes) {
       let effect: Record<string, any> = {
-        component: change.component,
-        change: `${change.originalValue} → ${change.modifiedValue}`,
+        component: change.path,
+        change: formatChange(change),
         impact: 'Neutral',
         details: 'No significant effect expected.'
       };
       
       // Suspension changes
-      if (change.component.includes('antiRollBar')) {
-        if (change.component.includes('front') && change.modifiedValue < change.originalValue) {
+      if (change.path.includes('antiRollBar')) {
+        if (change.path.includes('front') && change.newValue < change.oldValue) {
           effect.impact = 'Positive';
           effect.details = 'Reduced front anti-roll bar stiffness should reduce understeer in corners.';
-        } else if (change.component.includes('rear') && change.modifiedValue < change.originalValue) {
+        } else if (change.path.includes('rear') && change.newValue < change.oldValue) {
           effect.impact = 'Positive';
           effect.details = 'Reduced rear anti-roll bar stiffness should reduce oversteer, especially on corner exit.';
         }
       }
       
-      // Damper changes
-      if (change.component.includes('dampers')) {
-        if (change.component.includes('bump') && change.modifiedValue > change.originalValue) {
+      // Damper changes (bump/rebound are the low-speed adjusters on four-way dampers)
+      if (change.path.includes('dampers') || change.path.includes('.damper.')) {
+        const field = change.path.split('.').pop();
+        const fourWay = this.hasFourWayDampers(modifiedSetup);
+        
+        if (field === 'highSpeedBump' && change.newValue < change.oldValue) {
+          effect.impact = 'Positive';
+          effect.details = 'Softer high-speed bump damping should let the car absorb kerbs and sharp bumps without affecting body control.';
+        } else if (field === 'highSpeedBump' && change.newValue > change.oldValue) {
+          effect.impact = 'Mixed';
+          effect.details = 'Stiffer high-speed bump damping should reduce bottoming on big impacts but may make the car skip over kerbs.';
+        } else if (field === 'highSpeedRebound' && change.newValue > change.oldValue) {
+          effect.impact = 'Mixed';
+          effect.details = 'Stiffer high-speed rebound damping should calm the car after kerbs but may keep the wheel from following the surface.';
+        } else if ((field === 'bumpSlope' || field === 'reboundSlope') && change.newValue !== change.oldValue) {
+          effect.impact = 'Mixed';
+          effect.details = 'A different high-speed slope changes how progressively the damper stiffens on sharp impacts.';
+        } else if (field === 'bump' && change.newValue > change.oldValue) {
           effect.impact = 'Positive';
-          effect.details = 'Increased bump damping should improve stability over bumps and curbs.';
-        } else if (change.component.includes('rebound') && change.modifiedValue > change.originalValue) {
+          effect.details = fourWay
+            ? 'Increased low-speed bump damping should reduce pitch and roll during braking and turn-in.'
+            : 'Increased bump damping should improve stability over bumps and curbs.';
+        } else if (field === 'rebound' && change.newValue > change.oldValue) {
           effect.impact = 'Positive';
-          effect.details = 'Increased rebound damping should improve stability during weight transfer.';
+          effect.details = fourWay
+            ? 'Increased low-speed rebound damping should settle the car faster during weight transfer.'
+            : 'Increased rebound damping should improve stability during weight transfer.';
         }
       }
       
       // Tire pressure changes
-      if (change.component.includes('tirePressures')) {
-        if (change.modifiedValue < change.originalValue) {
+      if (change.path.includes('tirePressures')) {
+        if (change.newValue < change.oldValue) {
           effect.impact = 'Positive';
           effect.details = 'Lower tire pressure should improve grip but may increase tire wear.';
-        } else if (change.modifiedValue > change.originalValue) {
+        } else if (change.newValue > change.oldValue) {
           effect.impact = 'Mixed';
           effect.details = 'Higher tire pressure may reduce grip but improve responsiveness and reduce tire wear.';
         }
       }
       
       // Brake bias changes
-      if (change.component === 'brakeBias') {
-        if (change.modifiedValue > change.originalValue) {
+      if (change.path === 'brakeBias') {
+        if (change.newValue > change.oldValue) {
           effect.impact = 'Positive';
           effect.details = 'More front brake bias should improve initial braking response but may increase front lockup risk.';
-        } else if (change.modifiedValue < change.originalValue) {
+        } else if (change.newValue < change.oldValue) {
           effect.impact = 'Mixed';
           effect.details = 'Less front brake bias should improve braking stability but may reduce initial braking power.';
         }
@@ -155,9 +191,32 @@ export class TestDriverAgent extends BaseAgent {
       } else if (trackConditions.temperature && trackConditions.temperature < 15) {
         evaluation.trackSpecificNotes = 'In cool temperatures, you may need to increase tire pressures slightly from the recommended values.';
       }
+    }
+    
+    // The track of the setup tells the surface and wing level when the conditions don't
+    const track = this.trackRegistry.getTrackInfo(modifiedSetup.trackId);
+    const surface = trackConditions?.surface ?? track?.bumpiness;
+    
+    if (surface === 'bumpy') {
+      evaluation.trackSpecificNotes = (evaluation.trackSpecificNotes || '') + ' The increased damping will be very helpful on this bumpy surface.';
+    }
+    
+    if (track) {
+      evaluation.track = {
+        trackId: track.trackId,
+        configId: track.configId,
+        name: track.name,
+        bumpiness: track.bumpiness,
+        downforce: track.downforce
+      };
       
-      if (trackConditions.surface && trackConditions.surface === 'bumpy') {
-        evaluation.trackSpecificNotes = (evaluation.trackSpecificNotes || '') + ' The increased damping will be very helpful on this bumpy surface.';
+      const wingChanges = changes.filter(change => /^aero\.(front|rear)Wing$/.test(change.path));
+      if (track.downforce === 'low' && wingChanges.some(change => change.newValue > change.oldValue)) {
+        evaluation.trackSpecificNotes = (evaluation.trackSpecificNotes || '') +
+          ` ${track.name} is a low-downforce track, the extra wing will cost top speed on the straights.`;
+      } else if (track.downforce === 'high' && wingChanges.some(change => change.newValue < change.oldValue)) {
+        evaluation.trackSpecificNotes = (evaluation.trackSpecificNotes || '') +
+          ` ${track.name} is a high-downforce track, the lower wing will cost grip in the fast corners.`;
       }
     }
     
@@ -176,63 +235,12 @@ export class TestDriverAgent extends BaseAgent {
   }
   
   /**
-   * Identify the changes between two setups
-   * @param originalSetup Original setup data
-   * @param modifiedSetup Modified setup data
-   * @returns List of identified changes
+   * Check whether a setup has four-way dampers (separate low- and high-speed adjusters)
+   * @param setup Setup data
+   * @returns True if high-speed damper values are available
    */
-  private identifySetupChanges(
-    originalSetup: SetupData,
-    modifiedSetup: SetupData
-  ): Array<{
-    component: string;
-    originalValue: any;
-    modifiedValue: any;
-  }> {
-    const changes: Array<{
-      component: string;
-      originalValue: any;
-      modifiedValue: any;
-    }> = [];
-    
-    // Helper function to recursively compare objects
-    const compareObjects = (
-      original: any,
-      modified: any,
-      path: string = ''
-    ) => {
-      // Skip metadata
-      if (path === 'metadata') return;
-      
-      if (typeof original === 'object' && original !== null &&
-          typeof modified === 'object' && modified !== null) {
-        // Compare nested objects
-        for (const key in original) {
-          const newPath = path ? `${path}.${key}` : key;
-          compareObjects(original[key], modified[key], newPath);
-        }
-        
-        // Check for new properties in modified
-        for (const key in modified) {
-          if (!(key in original)) {
-            const newPath = path ? `${path}.${key}` : key;
-            compareObjects(undefined, modified[key], newPath);
-          }
-        }
-      } else if (original !== modified) {
-        // Values differ, record the change
-        changes.push({
-          component: path,
-          originalValue: original,
-          modifiedValue: modified
-        });
-      }
-    };
-    
-    // Compare the setups
-    compareObjects(originalSetup, modifiedSetup);
-    
-    return changes;
+  private hasFourWayDampers(setup: SetupData): boolean {
+    return setup.dampers.front.highSpeedBump !== undefined || setup.dampers.rear.highSpeedBump !== undefined;
   }
   
   /**
@@ -0,0 +1,403 @@
+import * as path from 'path';
+import {
+  ParseDiagnostic,
+  RangeViolation,
+  SetupChange,
+  SetupParser,
+  analyzeMappingCoverage,
+  formatMappingCoverage,
+  formatSetupDiff
+} from 'setup-parser';
+import { createAurigaDocument, getSetupValidationErrors, serializeAurigaDocument } from 'setup-schema';
+import {
+  InputFile,
+  JSON_EXTENSIONS,
+  SETUP_SHEET_EXTENSIONS,
+  STO_EXTENSIONS,
+  collectInputFiles,
+  getOutputPath,
+  isBatch,
+  loadSetup,
+  writeOutputFile
+} from './files';
+
+/**
+ * Exit code when everything succeeded and, for diff and validate, nothing was found
+ */
+export const EXIT_OK = 0;
+
+/**
+ * Exit code when a file failed, setups differ or a setup is invalid
+ */
+export const EXIT_PROBLEMS = 1;
+
+/**
+ * Exit code for wrong usage and unreadable inputs
+ */
+export const EXIT_USAGE = 2;
+
+/**
+ * Options shared by the commands
+ */
+export interface CommandOptions {
+  // Format of the reports of diff and validate
+  format: 'text' | 'json';
+
+  // Output file or directory of parse and build
+  out?: string;
+
+  // Car mapping to use for .sto files and setup sheets, instead of car detection
+  carId?: string;
+
+  // Treat parse warnings as failures
+  strict: boolean;
+
+  // Overwrite existing files next to the inputs when a batch has no output directory
+  force: boolean;
+}
+
+/**
+ * Result of comparing two setup files, with only one side for files missing in the other directory
+ */
+export interface DiffResult {
+  a?: string;
+  b?: string;
+  changes: SetupChange[];
+}
+
+/**
+ * Result of validating a setup file
+ */
+export interface ValidationResult {
+  file: string;
+  valid: boolean;
+
+  // Problems that make the file unusable (unreadable file, schema violations)
+  errors: string[];
+
+  // Values the car's garage doesn't accept
+  violations: RangeViolation[];
+
+  // Problems found while parsing a .sto file
+  diagnostics: ParseDiagnostic[];
+}
+
+/**
+ * Setup files any command can read
+ */
+const SETUP_EXTENSIONS = [...STO_EXTENSIONS, ...SETUP_SHEET_EXTENSIONS, ...JSON_EXTENSIONS];
+
+/**
+ * Convert .sto files and setup sheets to Auriga JSON documents
+ * @param parser Parser with the car mappings to use
+ * @param inputs Files and directories to convert
+ * @param options Command options
+ * @returns Exit code
+ */
+export function runParse(parser: SetupParser, inputs: string[], options: CommandOptions): number {
+  return convertFiles(inputs, [...STO_EXTENSIONS, ...SETUP_SHEET_EXTENSIONS], '.json', options, input => {
+    const { setup, extras } = loadSetup(parser, input.filePath, options.carId);
+    const { carDetection: _carDetection, diagnostics = [], ...structured } = setup;
+
+    reportDiagnostics(input.filePath, diagnostics, options.strict);
+    if (options.strict && diagnostics.length > 0) {
+      throw new Error(`${diagnostics.length} parse problem(s) in strict mode`);
+    }
+
+    return serializeAurigaDocument(createAurigaDocument(structured, {
+      ...extras,
+      provenance: {
+        source: 'sto',
+        ...extras.provenance,
+        importedAt: new Date().toISOString(),
+        createdBy: 'auriga CLI'
+      }
+    }));
+  });
+}
+
+/**
+ * Convert Auriga JSON documents to .sto files
+ * @param parser Parser with the car mappings to use
+ * @param inputs Files and directories to convert
+ * @param options Command options
+ * @returns Exit code
+ */
+export function runBuild(parser: SetupParser, inputs: string[], options: CommandOptions): number {
+  return convertFiles(inputs, JSON_EXTENSIONS, '.sto', options, input => {
+    const { setup } = loadSetup(parser, input.filePath);
+
+    // Only the INI-like format is written, which iRacing reads as well
+    if (setup.rawSetup?.format === 'binary') {
+      console.error(`${input.filePath}: read from a binary .sto file, written as a text .sto file`);
+    }
+
+    return parser.convertToSto(setup);
+  });
+}
+
+/**
+ * Compare two setup files, or the setups with the same name in two directories
+ * @param parser Parser with the car mappings to use
+ * @param a First (original) file or directory
+ * @param b Second (modified) file or directory
+ * @param options Command options
+ * @returns EXIT_OK if the setups are the same, EXIT_PROBLEMS if they differ
+ */
+export function runDiff(parser: SetupParser, a: string, b: string, options: CommandOptions): number {
+  const results: DiffResult[] = [];
+
+  if (isBatch([a]) !== isBatch([b])) {
+    throw new Error('diff needs two files or two directories');
+  }
+
+  if (!isBatch([a])) {
+    results.push({ a, b, changes: diffFiles(parser, a, b, options) });
+  } else {
+    // Setups are paired by their path without extension, so a .sto file matches its .json conversion
+    const filesA = indexByName(collectInputFiles([a], SETUP_EXTENSIONS));
+    const filesB = indexByName(collectInputFiles([b], SETUP_EXTENSIONS));
+
+    for (const name of [...new Set([...filesA.keys(), ...filesB.keys()])].sort()) {
+      const fileA = filesA.get(name);
+      const fileB = filesB.get(name);
+
+      results.push(fileA && fileB
+        ? { a: fileA, b: fileB, changes: diffFiles(parser, fileA, fileB, options) }
+        : { ...(fileA ? { a: fileA } : { b: fileB }), changes: [] });
+    }
+  }
+
+  if (options.format === 'json') {
+    console.log(JSON.stringify(results, null, 2));
+  } else {
+    console.log(results.map(formatDiffResult).join('\n\n'));
+  }
+
+  return results.some(result => !result.a || !result.b || result.changes.length > 0) ? EXIT_PROBLEMS : EXIT_OK;
+}
+
+/**
+ * Check setup files against the setup schema and the legal ranges of their car
+ * @param parser Parser with the car mappings to use
+ * @param inputs Files and directories to check
+ * @param options Command options
+ * @returns EXIT_OK if every setup is valid, EXIT_PROBLEMS otherwise
+ */
+export function runValidate(parser: SetupParser, inputs: string[], options: CommandOptions): number {
+  const files = collectInputFiles(inputs, SETUP_EXTENSIONS);
+  if (files.length === 0) {
+    throw new Error(`No setup files found in ${inputs.join(', ')}`);
+  }
+
+  const results = files.map(({ filePath }): ValidationResult => {
+    try {
+      const { setup } = loadSetup(parser, filePath, options.carId);
+      const { carDetection: _carDetection, diagnostics = [], ...structured } = setup;
+      const errors = getSetupValidationErrors(structured);
+      const violations = parser.validateSetup(setup);
+      const failedDiagnostics = diagnostics.filter(diagnostic => options.strict || diagnostic.severity === 'error');
+
+      return {
+        file: filePath,
+        valid: errors.length === 0 && violations.length === 0 && failedDiagnostics.length === 0,
+        errors,
+        violations,
+        diagnostics
+      };
+    } catch (error) {
+      return { file: filePath, valid: false, errors: [getErrorMessage(error)], violations: [], diagnostics: [] };
+    }
+  });
+
+  if (options.format === 'json') {
+    console.log(JSON.stringify(results, null, 2));
+  } else {
+    console.log(results.map(result => formatValidationResult(result, options.strict)).join('\n'));
+  }
+
+  return results.every(result => result.valid) ? EXIT_OK : EXIT_PROBLEMS;
+}
+
+/**
+ * Check which keys of sample .sto files a car mapping reads and whether its values survive a round trip
+ * @param parser Parser with the car mappings to use
+ * @param inputs Sample .sto files and directories
+ * @param options Command options, the car mapping is detected from the first sample without --car
+ * @returns EXIT_OK if the mapping reads every key of every sample without losing values, EXIT_PROBLEMS otherwise
+ */
+export function runCoverage(parser: SetupParser, inputs: string[], options: CommandOptions): number {
+  const files = collectInputFiles(inputs, STO_EXTENSIONS);
+  if (files.length === 0) {
+    throw new Error(`No ${STO_EXTENSIONS.join('/')} files found in ${inputs.join(', ')}`);
+  }
+
+  const samples = files.map(({ filePath }) => {
+    const setup = parser.parseFile(filePath, { carId: options.carId });
+    if (!setup.rawSetup) {
+      throw new Error(`${filePath}: no raw setup data`);
+    }
+    return { name: filePath, carId: setup.carId, rawSetup: setup.rawSetup };
+  });
+
+  const carId = options.carId || samples[0].carId;
+  const mapping = parser.getCarMapping(carId);
+  if (!mapping) {
+    throw new Error(`No car mapping for ${carId}, use --car to choose one`);
+  }
+
+  const report = analyzeMappingCoverage(mapping, samples.map(({ name, rawSetup }) => ({ name, rawSetup })));
+
+  if (options.format === 'json') {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log(formatMappingCoverage(report));
+  }
+
+  const complete = report.roundTripFailures.length === 0 &&
+    report.sections.every(section => section.unmapped.length === 0 && section.missing.length === 0);
+  return complete ? EXIT_OK : EXIT_PROBLEMS;
+}
+
+/**
+ * Convert each input file, writing the result to stdout or an output file
+ * @param inputs Files and directories to convert
+ * @param extensions File extensions to look for in directories
+ * @param outputExtension Extension of the converted files
+ * @param options Command options
+ * @param convert Conversion of one file, returning the converted content
+ * @returns EXIT_OK if every file was converted, EXIT_PROBLEMS otherwise
+ */
+function convertFiles(
+  inputs: string[],
+  extensions: string[],
+  outputExtension: string,
+  options: CommandOptions,
+  convert: (input: InputFile) => string
+): number {
+  const batch = isBatch(inputs);
+  const files = collectInputFiles(inputs, extensions);
+  if (files.length === 0) {
+    throw new Error(`No ${extensions.join('/')} files found in ${inputs.join(', ')}`);
+  }
+
+  let failures = 0;
+  for (const input of files) {
+    try {
+      const content = convert(input);
+      const outputPath = getOutputPath(input, outputExtension, options.out, batch);
+
+      if (outputPath) {
+        // Next to the inputs, build would otherwise replace the .sto files the documents were parsed from
+        writeOutputFile(outputPath, content, !batch || !!options.out || options.force);
+        console.error(`${input.filePath} -> ${outputPath}`);
+      } else {
+        process.stdout.write(content);
+      }
+    } catch (error) {
+      failures++;
+      console.error(`${input.filePath}: ${getErrorMessage(error)}`);
+    }
+  }
+
+  if (batch) {
+    console.error(`Converted ${files.length - failures} of ${files.length} file(s)`);
+  }
+
+  return failures > 0 ? EXIT_PROBLEMS : EXIT_OK;
+}
+
+/**
+ * Compare the setups of two files
+ */
+function diffFiles(parser: SetupParser, a: string, b: string, options: CommandOptions): SetupChange[] {
+  return parser.diffSetups(
+    loadSetup(parser, a, options.carId).setup,
+    loadSetup(parser, b, options.carId).setup,
+    { ignore: ['diagnostics'] }
+  );
+}
+
+/**
+ * Print the problems found while parsing a file to stderr
+ *
+ * Warnings are only counted unless they fail the file in strict mode, as
+ * sparse or older files easily have dozens of missing fields.
+ */
+function reportDiagnostics(filePath: string, diagnostics: ParseDiagnostic[], strict: boolean): void {
+  for (const line of describeDiagnostics(diagnostics, strict)) {
+    console.error(`${filePath}: ${line}`);
+  }
+}
+
+/**
+ * Describe parse problems, one line per error and per listed warning
+ * @param diagnostics Problems found while parsing
+ * @param strict Whether to list warnings instead of counting them
+ */
+function describeDiagnostics(diagnostics: ParseDiagnostic[], strict: boolean): string[] {
+  const listed = diagnostics.filter(diagnostic => strict || diagnostic.severity === 'error');
+  const warningCount = diagnostics.length - listed.length;
+
+  return [
+    ...listed.map(diagnostic => `${diagnostic.severity}: ${diagnostic.message}`),
+    ...(warningCount > 0 ? [`${warningCount} parse warning(s), use --strict to list them`] : [])
+  ];
+}
+
+/**
+ * Format the comparison of two files as human-readable text
+ */
+function formatDiffResult(result: DiffResult): string {
+  if (!result.a) return `Only in ${path.dirname(result.b!)}: ${path.basename(result.b!)}`;
+  if (!result.b) return `Only in ${path.dirname(result.a)}: ${path.basename(result.a)}`;
+
+  const header = `--- ${result.a}\n+++ ${result.b}`;
+  return `${header}\n${result.changes.length > 0 ? formatSetupDiff(result.changes) : 'No differences'}`;
+}
+
+/**
+ * Format the validation of a file as human-readable text
+ */
+function formatValidationResult(result: ValidationResult, strict: boolean): string {
+  const problems = [
+    ...result.errors.map(error => `error: ${error}`),
+    ...result.violations.map(violation => `range: ${violation.message}`),
+    ...describeDiagnostics(result.diagnostics, strict)
+  ].map(problem => `  ${problem}`);
+
+  return [`${result.file}: ${result.valid ? 'OK' : 'INVALID'}`, ...problems].join('\n');
+}
+
+/**
+ * Index the files found in a directory by their path without extension
+ * @throws Error if two files only differ in their extension, as they can't both be paired
+ */
+function indexByName(inputs: InputFile[]): Map<string, string> {
+  const files = new Map<string, string>();
+
+  for (const input of inputs) {
+    const name = stripExtension(input.relativePath);
+    const other = files.get(name);
+    if (other) {
+      throw new Error(`${other} and ${input.filePath} have the same name, keep only one of them to compare the directories`);
+    }
+    files.set(name, input.filePath);
+  }
+
+  return files;
+}
+
+/**
+ * Remove the extension of a path
+ */
+function stripExtension(filePath: string): string {
+  return filePath.slice(0, filePath.length - path.extname(filePath).length);
+}
+
+/**
+ * Get the message of a thrown value
+ */
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
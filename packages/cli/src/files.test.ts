@@ -0,0 +1,96 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { collectInputFiles, getOutputPath, isBatch, writeOutputFile } from './files';
+
+let directory: string;
+
+beforeEach(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), 'auriga-cli-'));
+});
+
+afterEach(() => {
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+/**
+ * Create an empty file in the temporary directory
+ */
+function touch(relativePath: string): string {
+  const filePath = path.join(directory, relativePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, '');
+  return filePath;
+}
+
+describe('collectInputFiles', () => {
+  it('finds the files with the extensions in directories, sorted and relative to the directory', () => {
+    touch('spa/race.sto');
+    touch('monza/quali.STO');
+    touch('monza/notes.txt');
+
+    expect(collectInputFiles([directory], ['.sto'])).toEqual([
+      { filePath: path.join(directory, 'monza', 'quali.STO'), relativePath: path.join('monza', 'quali.STO') },
+      { filePath: path.join(directory, 'spa', 'race.sto'), relativePath: path.join('spa', 'race.sto') }
+    ]);
+  });
+
+  it('always takes files given directly, whatever their extension', () => {
+    const notes = touch('notes.txt');
+
+    expect(collectInputFiles([notes], ['.sto'])).toEqual([{ filePath: notes, relativePath: 'notes.txt' }]);
+  });
+
+  it('fails for inputs that do not exist', () => {
+    expect(() => collectInputFiles([path.join(directory, 'missing.sto')], ['.sto'])).toThrow('No such file or directory');
+  });
+});
+
+describe('isBatch', () => {
+  it('is a batch for several inputs or a directory', () => {
+    const file = touch('race.sto');
+
+    expect(isBatch([file])).toBe(false);
+    expect(isBatch([file, file])).toBe(true);
+    expect(isBatch([directory])).toBe(true);
+  });
+});
+
+describe('getOutputPath', () => {
+  const input = { filePath: path.join('setups', 'spa', 'race.sto'), relativePath: path.join('spa', 'race.sto') };
+
+  it('keeps the layout of the input directory in the output directory of a batch', () => {
+    expect(getOutputPath(input, '.json', 'out', true)).toBe(path.join('out', 'spa', 'race.json'));
+  });
+
+  it('writes a batch without output directory next to its inputs', () => {
+    expect(getOutputPath(input, '.json', undefined, true)).toBe(path.join('setups', 'spa', 'race.json'));
+  });
+
+  it('writes a single file to the output path, into an existing directory, or to stdout', () => {
+    expect(getOutputPath(input, '.json', 'converted.json', false)).toBe('converted.json');
+    expect(getOutputPath(input, '.json', directory, false)).toBe(path.join(directory, 'race.json'));
+    expect(getOutputPath(input, '.json', undefined, false)).toBeUndefined();
+  });
+});
+
+describe('writeOutputFile', () => {
+  it('creates missing directories', () => {
+    const filePath = path.join(directory, 'a', 'b', 'race.json');
+
+    writeOutputFile(filePath, '{}');
+
+    expect(fs.readFileSync(filePath, 'utf8')).toBe('{}');
+  });
+
+  it('refuses to replace an existing file unless allowed', () => {
+    const filePath = touch('race.sto');
+
+    expect(() => writeOutputFile(filePath, 'new', false)).toThrow(`${filePath} already exists`);
+    expect(fs.readFileSync(filePath, 'utf8')).toBe('');
+
+    writeOutputFile(filePath, 'new');
+    expect(fs.readFileSync(filePath, 'utf8')).toBe('new');
+  });
+});
@@ -0,0 +1,168 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ParsedSetup, SetupParser } from 'setup-parser';
+import { AurigaSetupExtras, parseAurigaDocument } from 'setup-schema';
+
+/**
+ * File extensions of .sto setup files
+ */
+export const STO_EXTENSIONS = ['.sto'];
+
+/**
+ * File extensions of HTML setup sheets exported from the iRacing garage
+ */
+export const SETUP_SHEET_EXTENSIONS = ['.htm', '.html'];
+
+/**
+ * File extensions of Auriga JSON setup documents
+ */
+export const JSON_EXTENSIONS = ['.json'];
+
+/**
+ * File to process, found directly or in an input directory
+ */
+export interface InputFile {
+  // Path of the file
+  filePath: string;
+
+  // Path relative to the input directory it was found in, or the file name
+  // for files given directly; used to lay out output directories
+  relativePath: string;
+}
+
+/**
+ * Setup read from a file, with the extras stored next to it in Auriga JSON documents
+ */
+export interface LoadedSetup {
+  setup: ParsedSetup;
+  extras: AurigaSetupExtras;
+}
+
+/**
+ * Expand files and directories into the files to process
+ *
+ * Directories are searched recursively for files with one of the extensions,
+ * files given directly are always processed.
+ * @param inputs Paths of files and directories
+ * @param extensions File extensions to look for in directories (e.g. '.sto')
+ * @returns Files in the order given, directory contents sorted by path
+ * @throws Error if an input doesn't exist
+ */
+export function collectInputFiles(inputs: string[], extensions: string[]): InputFile[] {
+  const files: InputFile[] = [];
+
+  for (const input of inputs) {
+    if (!fs.existsSync(input)) {
+      throw new Error(`No such file or directory: ${input}`);
+    }
+
+    if (!fs.statSync(input).isDirectory()) {
+      files.push({ filePath: input, relativePath: path.basename(input) });
+      continue;
+    }
+
+    for (const filePath of listFiles(input).sort()) {
+      if (extensions.includes(path.extname(filePath).toLowerCase())) {
+        files.push({ filePath, relativePath: path.relative(input, filePath) });
+      }
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Check whether the inputs may expand to more than one file
+ * @param inputs Paths of files and directories
+ */
+export function isBatch(inputs: string[]): boolean {
+  return inputs.length > 1 || inputs.some(input => fs.existsSync(input) && fs.statSync(input).isDirectory());
+}
+
+/**
+ * Get the path a converted file is written to
+ *
+ * In a batch, files are written into the output directory with the layout of
+ * their input directory, or next to their input without an output directory.
+ * A single file is written to the output path (or into it, if it is an
+ * existing directory), or to stdout without one.
+ * @param input File being converted
+ * @param extension Extension of the converted file (e.g. '.json')
+ * @param out Output path given by the user
+ * @param batch Whether several files are being converted
+ * @returns Output path, or undefined for stdout
+ */
+export function getOutputPath(input: InputFile, extension: string, out: string | undefined, batch: boolean): string | undefined {
+  const replaceExtension = (filePath: string) =>
+    path.join(path.dirname(filePath), path.basename(filePath, path.extname(filePath)) + extension);
+
+  if (batch) {
+    return out ? path.join(out, replaceExtension(input.relativePath)) : replaceExtension(input.filePath);
+  }
+
+  if (!out) return undefined;
+
+  return fs.existsSync(out) && fs.statSync(out).isDirectory()
+    ? path.join(out, replaceExtension(path.basename(input.filePath)))
+    : out;
+}
+
+/**
+ * Write a file, creating its directory if needed
+ * @param filePath Path to write to
+ * @param content File content
+ * @param overwrite Whether to replace an existing file
+ * @throws Error if the file exists and may not be replaced
+ */
+export function writeOutputFile(filePath: string, content: string, overwrite: boolean = true): void {
+  if (!overwrite && fs.existsSync(filePath)) {
+    throw new Error(`${filePath} already exists, use --out to write elsewhere or --force to overwrite it`);
+  }
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content, 'utf8');
+}
+
+/**
+ * Read a setup from a .sto file, an HTML setup sheet or an Auriga JSON document
+ * @param parser Parser with the car mappings to use
+ * @param filePath Path of the setup file
+ * @param carId Car mapping to use instead of car detection, for .sto files and setup sheets
+ * @returns Setup, with parse diagnostics for .sto files
+ */
+export function loadSetup(parser: SetupParser, filePath: string, carId?: string): LoadedSetup {
+  const extension = path.extname(filePath).toLowerCase();
+
+  if (JSON_EXTENSIONS.includes(extension)) {
+    // Older format versions are upgraded when read
+    const { setup, ...extras } = parseAurigaDocument(fs.readFileSync(filePath, 'utf8'), path.basename(filePath));
+    return { setup, extras };
+  }
+
+  if (SETUP_SHEET_EXTENSIONS.includes(extension)) {
+    const setup = parser.parseHtmlSetupSheet(fs.readFileSync(filePath, 'utf8'), carId);
+    return { setup, extras: { provenance: { source: 'setup-sheet', fileName: path.basename(filePath) } } };
+  }
+
+  const setup = parser.parseFile(filePath, { carId, diagnostics: true });
+  return {
+    setup,
+    extras: {
+      provenance: {
+        source: 'sto',
+        fileName: path.basename(filePath),
+        ...(setup.rawSetup?.header.version ? { stoVersion: setup.rawSetup.header.version } : {})
+      }
+    }
+  };
+}
+
+/**
+ * List the files in a directory and its subdirectories
+ */
+function listFiles(directory: string): string[] {
+  return fs.readdirSync(directory, { withFileTypes: true }).flatMap(entry => {
+    const entryPath = path.join(directory, entry.name);
+    return entry.isDirectory() ? listFiles(entryPath) : [entryPath];
+  });
+}
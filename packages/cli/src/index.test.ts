@@ -0,0 +1,141 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { main } from './index';
+import { EXIT_OK, EXIT_PROBLEMS, EXIT_USAGE } from './commands';
+
+const FIXTURE = path.join(__dirname, '..', '..', 'setup-parser', 'fixtures', 'bmw-m4-gt3.sto');
+
+let directory: string;
+let stdout: string[];
+let stderr: string[];
+
+beforeEach(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), 'auriga-cli-'));
+  stdout = [];
+  stderr = [];
+  vi.spyOn(console, 'log').mockImplementation((...args) => { stdout.push(args.join(' ')); });
+  vi.spyOn(console, 'error').mockImplementation((...args) => { stderr.push(args.join(' ')); });
+  vi.spyOn(process.stdout, 'write').mockImplementation(chunk => { stdout.push(String(chunk)); return true; });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+/**
+ * Copy the BMW fixture into the temporary directory, optionally changing a line
+ */
+function copyFixture(relativePath: string, replace?: [string, string]): string {
+  const filePath = path.join(directory, relativePath);
+  const content = fs.readFileSync(FIXTURE, 'utf8');
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, replace ? content.replace(...replace) : content);
+  return filePath;
+}
+
+describe('main', () => {
+  it('shows the usage with exit code 0 only when asked for', () => {
+    expect(main(['--help'])).toBe(EXIT_OK);
+    expect(main([])).toBe(EXIT_USAGE);
+    expect(stdout.join('\n')).toContain('Usage: auriga <command>');
+  });
+
+  it('exits with the usage code for unknown commands, options and formats', () => {
+    expect(main(['convert', 'a.sto'])).toBe(EXIT_USAGE);
+    expect(main(['parse', '--verbose', 'a.sto'])).toBe(EXIT_USAGE);
+    expect(main(['diff', '--format', 'xml', 'a.sto', 'b.sto'])).toBe(EXIT_USAGE);
+    expect(main(['diff', 'a.sto'])).toBe(EXIT_USAGE);
+  });
+
+  it('exits with the usage code for inputs that do not exist', () => {
+    expect(main(['validate', path.join(directory, 'missing.sto')])).toBe(EXIT_USAGE);
+    expect(stderr.join('\n')).toContain('No such file or directory');
+  });
+});
+
+describe('parse and build', () => {
+  it('writes a single file to stdout', () => {
+    expect(main(['parse', copyFixture('race.sto')])).toBe(EXIT_OK);
+    expect(JSON.parse(stdout.join('')).setup.carId).toBe('bmw_m4_gt3');
+  });
+
+  it('converts a directory into the output directory with the same layout', () => {
+    copyFixture('setups/spa/race.sto');
+    copyFixture('setups/monza/quali.sto');
+    const out = path.join(directory, 'json');
+
+    expect(main(['parse', path.join(directory, 'setups'), '--out', out])).toBe(EXIT_OK);
+    expect(fs.existsSync(path.join(out, 'spa', 'race.json'))).toBe(true);
+    expect(fs.existsSync(path.join(out, 'monza', 'quali.json'))).toBe(true);
+
+    expect(main(['build', out, '--out', path.join(directory, 'sto')])).toBe(EXIT_OK);
+    expect(fs.readFileSync(path.join(directory, 'sto', 'spa', 'race.sto'), 'utf8')).toContain('CAR=bmw_m4_gt3');
+  });
+
+  it('does not replace the original .sto files when building next to the inputs', () => {
+    const original = copyFixture('setups/race.sto');
+    const setups = path.join(directory, 'setups');
+    expect(main(['parse', setups])).toBe(EXIT_OK);
+    fs.appendFileSync(original, '; kept\n');
+
+    expect(main(['build', setups])).toBe(EXIT_PROBLEMS);
+    expect(stderr.join('\n')).toContain('already exists, use --out to write elsewhere or --force to overwrite it');
+    expect(fs.readFileSync(original, 'utf8')).toContain('; kept');
+
+    expect(main(['build', setups, '--force'])).toBe(EXIT_OK);
+    expect(fs.readFileSync(original, 'utf8')).not.toContain('; kept');
+  });
+
+  it('counts files that fail to convert', () => {
+    const setups = path.join(directory, 'setups');
+    copyFixture('setups/race.sto');
+    expect(main(['parse', setups])).toBe(EXIT_OK);
+    fs.writeFileSync(path.join(setups, 'broken.json'), '{ "setup": ');
+
+    expect(main(['build', setups, '--out', path.join(directory, 'sto')])).toBe(EXIT_PROBLEMS);
+    expect(stderr.join('\n')).toContain('Converted 1 of 2 file(s)');
+  });
+});
+
+describe('diff', () => {
+  it('exits with 0 for the same setups and 1 for different ones', () => {
+    const a = copyFixture('a.sto');
+
+    expect(main(['diff', a, copyFixture('b.sto')])).toBe(EXIT_OK);
+    expect(main(['diff', a, copyFixture('c.sto', ['LF_COLD_PRESSURE=165.5', 'LF_COLD_PRESSURE=162.0'])])).toBe(EXIT_PROBLEMS);
+    expect(stdout.join('\n')).toContain('frontLeft: 165.5 → 162 kPa (-3.5, -7 clicks)');
+  });
+
+  it('pairs the setups of two directories by name, reporting files only in one of them', () => {
+    copyFixture('a/race.sto');
+    copyFixture('b/race.sto');
+    copyFixture('b/quali.sto');
+
+    expect(main(['diff', path.join(directory, 'a'), path.join(directory, 'b')])).toBe(EXIT_PROBLEMS);
+    expect(stdout.join('\n')).toContain(`Only in ${path.join(directory, 'b')}: quali.sto`);
+  });
+
+  it('refuses directories with two setups of the same name', () => {
+    copyFixture('a/race.sto');
+    copyFixture('b/race.sto');
+    const out = path.join(directory, 'b');
+    expect(main(['parse', path.join(out, 'race.sto'), '--out', path.join(out, 'race.json')])).toBe(EXIT_OK);
+
+    expect(main(['diff', path.join(directory, 'a'), out])).toBe(EXIT_USAGE);
+    expect(stderr.join('\n')).toContain('have the same name');
+  });
+});
+
+describe('validate', () => {
+  it('exits with 1 when a setup has values its car does not accept', () => {
+    const valid = copyFixture('valid.sto');
+    const invalid = copyFixture('invalid.sto', ['LF_COLD_PRESSURE=165.5', 'LF_COLD_PRESSURE=165.3']);
+
+    expect(main(['validate', valid])).toBe(EXIT_OK);
+    expect(main(['validate', valid, invalid])).toBe(EXIT_PROBLEMS);
+    expect(stdout.join('\n')).toContain(`${invalid}: INVALID`);
+  });
+});
@@ -0,0 +1,114 @@
+#!/usr/bin/env node
+import { parseArgs } from 'util';
+import { createDefaultParser } from 'setup-parser';
+import { CommandOptions, EXIT_USAGE, runBuild, runCoverage, runDiff, runParse, runValidate } from './commands';
+
+export * from './commands';
+export * from './files';
+
+const USAGE = `Usage: auriga <command> [options] <files or directories...>
+
+Commands:
+  parse <input...>     Convert .sto files and setup sheets to Auriga JSON
+  build <input...>     Convert Auriga JSON setups to .sto files
+  diff <a> <b>         Compare two setups, or the setups with the same name in two directories
+  validate <input...>  Check setups against the setup schema and the legal ranges of their car
+  coverage <sample...> List the .sto keys a car mapping reads, ignores and misses in sample files
+
+Options:
+  -o, --out <path>       Output file, or output directory for several files (parse, build)
+  -f, --format <format>  Report format of diff, validate and coverage: text (default) or json
+  -c, --car <carId>      Car mapping to use instead of car detection
+  -m, --mappings <dir>   Directory with additional car mapping files
+  -s, --strict           Treat parse warnings as failures
+      --force            Overwrite existing files next to the inputs (parse, build)
+  -h, --help             Show this help
+
+Without --out, parse and build write a single file to stdout and the files of
+a directory next to their inputs, without replacing existing files unless
+--force is given.
+
+Exit codes: 0 success, 1 failed files, differences, invalid setups or incomplete
+mappings, 2 usage errors`;
+
+/**
+ * Run the auriga command line tool
+ * @param args Command line arguments, without the node executable and script
+ * @returns Exit code
+ */
+export function main(args: string[]): number {
+  let parsed: ReturnType<typeof parseCommandLine>;
+  try {
+    parsed = parseCommandLine(args);
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  const { values, positionals } = parsed;
+  const [command, ...inputs] = positionals;
+
+  if (values.help || !command) {
+    console.log(USAGE);
+    return values.help ? 0 : EXIT_USAGE;
+  }
+
+  if (values.format !== undefined && values.format !== 'text' && values.format !== 'json') {
+    console.error(`Unknown format: ${values.format}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  const options: CommandOptions = {
+    format: values.format ?? 'text',
+    out: values.out,
+    carId: values.car,
+    strict: values.strict ?? false,
+    force: values.force ?? false
+  };
+
+  try {
+    const parser = createDefaultParser({ userMappingsDir: values.mappings });
+
+    switch (command) {
+      case 'parse':
+      case 'build':
+      case 'validate':
+      case 'coverage':
+        if (inputs.length === 0) throw new Error(`${command} needs at least one file or directory`);
+        return { parse: runParse, build: runBuild, validate: runValidate, coverage: runCoverage }[command](parser, inputs, options);
+      case 'diff':
+        if (inputs.length !== 2) throw new Error('diff needs two files or two directories');
+        return runDiff(parser, inputs[0], inputs[1], options);
+      default:
+        console.error(`Unknown command: ${command}\n\n${USAGE}`);
+        return EXIT_USAGE;
+    }
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return EXIT_USAGE;
+  }
+}
+
+/**
+ * Split the command line into options and positional arguments
+ * @throws Error for unknown options or missing option values
+ */
+function parseCommandLine(args: string[]) {
+  return parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o' },
+      format: { type: 'string', short: 'f' },
+      car: { type: 'string', short: 'c' },
+      mappings: { type: 'string', short: 'm' },
+      strict: { type: 'boolean', short: 's' },
+      force: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+}
+
+if (require.main === module) {
+  process.exitCode = main(process.argv.slice(2));
+}
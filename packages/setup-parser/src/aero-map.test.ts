@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { Setup } from 'setup-schema';
+import { analyzeAero, findAeroMapErrors, formatAeroAnalysis, getAeroForces, interpolateAeroMap } from './aero-map';
+import { AeroMap } from './types';
+
+/**
+ * Two by two ride heights and two wing settings, with values that are easy to interpolate by hand
+ */
+const AERO_MAP: AeroMap = {
+  frontRideHeights: [50, 70],
+  rearRideHeights: [60, 80],
+  wings: [
+    { wing: 2, downforce: [[1, 2], [3, 4]], drag: [[0.5, 0.5], [0.5, 0.5]], balance: [[40, 42], [44, 46]] },
+    { wing: 6, downforce: [[2, 3], [4, 5]], drag: [[1, 1], [1, 1]], balance: [[38, 40], [42, 44]] }
+  ]
+};
+
+/**
+ * Setup with the given ride heights and rear wing
+ */
+function createSetup(frontRideHeight: number, rearRideHeight: number, rearWing?: number): Setup {
+  const axle = { springRate: 180000, rideHeight: frontRideHeight, camber: -3.8, toe: 0, antiRollBar: 4 };
+  const dampers = { bump: 10, rebound: 12 };
+
+  return {
+    carId: 'test_car',
+    trackId: 'test_track',
+    name: 'Baseline',
+    suspension: { front: { ...axle }, rear: { ...axle, rideHeight: rearRideHeight } },
+    dampers: { front: { ...dampers }, rear: { ...dampers } },
+    tirePressures: { frontLeft: 165.5, frontRight: 165.5, rearLeft: 162, rearRight: 162 },
+    aero: { rearWing },
+    brakeBias: 54
+  };
+}
+
+describe('interpolateAeroMap', () => {
+  it('returns the table entries on the points of the map', () => {
+    expect(interpolateAeroMap(AERO_MAP, 70, 60, 6)).toEqual({
+      frontRideHeight: 70,
+      rearRideHeight: 60,
+      wing: 6,
+      downforce: 4,
+      drag: 1,
+      balance: 42,
+      efficiency: 4,
+      extrapolated: false
+    });
+  });
+
+  it('interpolates the ride heights bilinearly within a table', () => {
+    expect(interpolateAeroMap(AERO_MAP, 60, 70, 2)).toMatchObject({ downforce: 2.5, drag: 0.5, balance: 43, efficiency: 5 });
+    // A quarter of the way to the rear row, three quarters of the way to the upper column
+    expect(interpolateAeroMap(AERO_MAP, 55, 75, 2).downforce).toBe(2.25);
+  });
+
+  it('interpolates the wing linearly between tables', () => {
+    expect(interpolateAeroMap(AERO_MAP, 60, 70, 4)).toMatchObject({ downforce: 3, drag: 0.75, balance: 42, efficiency: 4 });
+  });
+
+  it('clamps values outside the map to its edges and flags them', () => {
+    expect(interpolateAeroMap(AERO_MAP, 40, 90, 8)).toMatchObject({ downforce: 3, drag: 1, balance: 40, extrapolated: true });
+    expect(interpolateAeroMap(AERO_MAP, 70, 80, 6).extrapolated).toBe(false);
+  });
+
+  it('uses the single table of a map with one wing setting', () => {
+    const aeroMap = { ...AERO_MAP, wings: [AERO_MAP.wings[0]] };
+
+    expect(interpolateAeroMap(aeroMap, 60, 70, 2)).toMatchObject({ downforce: 2.5, extrapolated: false });
+    expect(interpolateAeroMap(aeroMap, 60, 70, 3)).toMatchObject({ downforce: 2.5, extrapolated: true });
+  });
+});
+
+describe('analyzeAero', () => {
+  it('looks up the static ride heights and rear wing of a setup', () => {
+    expect(analyzeAero(createSetup(60, 70, 2), AERO_MAP)?.downforce).toBe(2.5);
+  });
+
+  it('averages the ride heights of the corners', () => {
+    const setup = createSetup(0, 0, 2);
+    const corner = (rideHeight: number) => ({ ...setup.suspension.front, rideHeight, damper: setup.dampers.front });
+    setup.corners = { frontLeft: corner(50), frontRight: corner(60), rearLeft: corner(70), rearRight: corner(80) };
+
+    expect(analyzeAero(setup, AERO_MAP)).toMatchObject({ frontRideHeight: 55, rearRideHeight: 75, downforce: 2.25 });
+  });
+
+  it('has no analysis without a rear wing setting', () => {
+    expect(analyzeAero(createSetup(60, 70), AERO_MAP)).toBeUndefined();
+  });
+});
+
+describe('getAeroForces', () => {
+  it('multiplies the coefficients by the dynamic pressure and splits the downforce by the balance', () => {
+    // 180 km/h is 50 m/s: ½ · 1.225 · 50² = 1531.25 Pa
+    expect(getAeroForces(interpolateAeroMap(AERO_MAP, 60, 70, 2), 180)).toEqual({
+      speed: 180,
+      downforce: 3828.125,
+      frontDownforce: 1646.094,
+      rearDownforce: 2182.031,
+      drag: 765.625
+    });
+  });
+});
+
+describe('findAeroMapErrors', () => {
+  it('accepts a consistent map', () => {
+    expect(findAeroMapErrors(AERO_MAP)).toEqual([]);
+  });
+
+  it('reports empty or unordered axes and tables of the wrong size', () => {
+    const aeroMap: AeroMap = {
+      frontRideHeights: [70, 50],
+      rearRideHeights: [],
+      wings: [{ ...AERO_MAP.wings[0], drag: [[0.5, 0.5]] }]
+    };
+
+    expect(findAeroMapErrors(aeroMap)).toEqual([
+      'frontRideHeights must be in ascending order',
+      'rearRideHeights is empty',
+      'downforce of wing 2 must have 2 rows (front ride heights) of 0 values (rear ride heights)',
+      'drag of wing 2 must have 2 rows (front ride heights) of 0 values (rear ride heights)',
+      'balance of wing 2 must have 2 rows (front ride heights) of 0 values (rear ride heights)'
+    ]);
+  });
+});
+
+describe('formatAeroAnalysis', () => {
+  it('describes the coefficients and the forces at a speed', () => {
+    expect(formatAeroAnalysis(interpolateAeroMap(AERO_MAP, 40, 70, 2), 180)).toBe([
+      'Ride height: 40.0 mm front, 70.0 mm rear, wing 2 (outside the aero map)',
+      'Aero balance: 41.0% front',
+      'Downforce: CL·A 1.500 m², 2297 N at 180 km/h',
+      'Drag: CD·A 0.500 m², 766 N at 180 km/h',
+      'Efficiency (L/D): 3.00'
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,192 @@
+import { Setup } from 'setup-schema';
+import { AeroAnalysis, AeroForces, AeroMap, AeroMapTable } from './types';
+import { AXLE_CORNERS } from './corners';
+import { round } from './rounding';
+
+/**
+ * Air density at sea level and 15 °C in kg/m³
+ */
+const AIR_DENSITY = 1.225;
+
+/**
+ * Position of a value between two entries of an ascending axis
+ */
+interface AxisPosition {
+  // Index of the lower entry
+  index: number;
+
+  // Fraction of the way to the next entry, 0 at the lower entry
+  fraction: number;
+
+  // Whether the value is outside the axis and was clamped to its edge
+  clamped: boolean;
+}
+
+/**
+ * Interpolate the aero coefficients of an aero map
+ *
+ * Ride heights are interpolated bilinearly within the table of a wing setting,
+ * and the wing linearly between tables. Values outside the map are clamped to
+ * its edges rather than extrapolated.
+ * @param aeroMap Aero map of the car
+ * @param frontRideHeight Front ride height in mm
+ * @param rearRideHeight Rear ride height in mm
+ * @param wing Rear wing setting
+ * @returns Interpolated downforce, drag and aero balance
+ */
+export function interpolateAeroMap(
+  aeroMap: AeroMap,
+  frontRideHeight: number,
+  rearRideHeight: number,
+  wing: number
+): AeroAnalysis {
+  const front = locate(aeroMap.frontRideHeights, frontRideHeight);
+  const rear = locate(aeroMap.rearRideHeights, rearRideHeight);
+  const wingPosition = locate(aeroMap.wings.map(table => table.wing), wing);
+
+  const lookup = (field: 'downforce' | 'drag' | 'balance') => {
+    const atWing = (table: AeroMapTable) => bilinear(table[field], front, rear);
+    const lower = atWing(aeroMap.wings[wingPosition.index]);
+    const upper = aeroMap.wings[wingPosition.index + 1];
+
+    return upper ? lower + (atWing(upper) - lower) * wingPosition.fraction : lower;
+  };
+
+  const downforce = lookup('downforce');
+  const drag = lookup('drag');
+
+  return {
+    frontRideHeight,
+    rearRideHeight,
+    wing,
+    downforce: round(downforce),
+    drag: round(drag),
+    balance: round(lookup('balance')),
+    efficiency: round(drag > 0 ? downforce / drag : 0),
+    extrapolated: front.clamped || rear.clamped || wingPosition.clamped
+  };
+}
+
+/**
+ * Look up the aero coefficients of a setup in the car's aero map
+ *
+ * The static ride heights of the setup are used (average of the corners when
+ * the setup has them), as the aero map is measured at static ride heights.
+ * @param setup Structured setup data
+ * @param aeroMap Aero map of the car
+ * @returns Downforce, drag and aero balance, or undefined if the setup has no rear wing setting
+ */
+export function analyzeAero(setup: Setup, aeroMap: AeroMap): AeroAnalysis | undefined {
+  if (setup.aero.rearWing === undefined) return undefined;
+
+  const rideHeight = (axle: 'front' | 'rear') => setup.corners
+    ? AXLE_CORNERS[axle].reduce((sum, corner) => sum + setup.corners![corner].rideHeight, 0) / 2
+    : setup.suspension[axle].rideHeight;
+
+  return interpolateAeroMap(aeroMap, rideHeight('front'), rideHeight('rear'), setup.aero.rearWing);
+}
+
+/**
+ * Calculate the aero forces of an aero analysis at a speed
+ * @param analysis Result of interpolateAeroMap or analyzeAero
+ * @param speed Speed in km/h
+ * @returns Downforce per axle and drag in N
+ */
+export function getAeroForces(analysis: AeroAnalysis, speed: number): AeroForces {
+  // Dynamic pressure, ½ρv² in Pa
+  const dynamicPressure = 0.5 * AIR_DENSITY * (speed / 3.6) ** 2;
+  const downforce = analysis.downforce * dynamicPressure;
+
+  return {
+    speed,
+    downforce: round(downforce),
+    frontDownforce: round(downforce * analysis.balance / 100),
+    rearDownforce: round(downforce * (100 - analysis.balance) / 100),
+    drag: round(analysis.drag * dynamicPressure)
+  };
+}
+
+/**
+ * Check an aero map for tables that don't match its axes
+ * @param aeroMap Aero map to check
+ * @returns Description of each problem, empty if the map is consistent
+ */
+export function findAeroMapErrors(aeroMap: AeroMap): string[] {
+  const errors: string[] = [];
+  const axes: Array<[string, number[]]> = [
+    ['frontRideHeights', aeroMap.frontRideHeights],
+    ['rearRideHeights', aeroMap.rearRideHeights],
+    ['wings', aeroMap.wings.map(table => table.wing)]
+  ];
+
+  for (const [name, values] of axes) {
+    if (values.length === 0) {
+      errors.push(`${name} is empty`);
+    } else if (values.some((value, index) => index > 0 && value <= values[index - 1])) {
+      errors.push(`${name} must be in ascending order`);
+    }
+  }
+
+  for (const table of aeroMap.wings) {
+    for (const field of ['downforce', 'drag', 'balance'] as const) {
+      const rows = table[field];
+      if (rows.length !== aeroMap.frontRideHeights.length ||
+          rows.some(row => row.length !== aeroMap.rearRideHeights.length)) {
+        errors.push(
+          `${field} of wing ${table.wing} must have ${aeroMap.frontRideHeights.length} rows (front ride heights) ` +
+          `of ${aeroMap.rearRideHeights.length} values (rear ride heights)`
+        );
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Format an aero analysis as human-readable text
+ * @param analysis Result of interpolateAeroMap or analyzeAero
+ * @param speed Speed in km/h to show the forces at
+ * @returns One line per value
+ */
+export function formatAeroAnalysis(analysis: AeroAnalysis, speed: number = 200): string {
+  const forces = getAeroForces(analysis, speed);
+
+  return [
+    `Ride height: ${analysis.frontRideHeight.toFixed(1)} mm front, ${analysis.rearRideHeight.toFixed(1)} mm rear, wing ${analysis.wing}` +
+      (analysis.extrapolated ? ' (outside the aero map)' : ''),
+    `Aero balance: ${analysis.balance.toFixed(1)}% front`,
+    `Downforce: CL·A ${analysis.downforce.toFixed(3)} m², ${Math.round(forces.downforce)} N at ${speed} km/h`,
+    `Drag: CD·A ${analysis.drag.toFixed(3)} m², ${Math.round(forces.drag)} N at ${speed} km/h`,
+    `Efficiency (L/D): ${analysis.efficiency.toFixed(2)}`
+  ].join('\n');
+}
+
+/**
+ * Find where a value lies on an ascending axis, clamped to its ends
+ */
+function locate(axis: number[], value: number): AxisPosition {
+  if (axis.length === 1 || value <= axis[0]) {
+    return { index: 0, fraction: 0, clamped: axis.length > 1 ? value < axis[0] : value !== axis[0] };
+  }
+
+  const last = axis.length - 1;
+  if (value >= axis[last]) {
+    return { index: last, fraction: 0, clamped: value > axis[last] };
+  }
+
+  const index = axis.findIndex((entry, i) => value >= entry && value < axis[i + 1]);
+  return { index, fraction: (value - axis[index]) / (axis[index + 1] - axis[index]), clamped: false };
+}
+
+/**
+ * Interpolate a table between its four entries around a point
+ */
+function bilinear(table: number[][], row: AxisPosition, column: AxisPosition): number {
+  const at = (r: number, c: number) => table[Math.min(r, table.length - 1)][Math.min(c, table[0].length - 1)];
+
+  const lower = at(row.index, column.index) + (at(row.index, column.index + 1) - at(row.index, column.index)) * column.fraction;
+  const upper = at(row.index + 1, column.index) + (at(row.index + 1, column.index + 1) - at(row.index + 1, column.index)) * column.fraction;
+
+  return lower + (upper - lower) * row.fraction;
+}
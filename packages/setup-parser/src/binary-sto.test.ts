@@ -0,0 +1,51 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { isBinarySto, readBinarySto } from './binary-sto';
+
+const BINARY_FIXTURE = path.join(__dirname, '..', 'fixtures', 'binary', 'bmw-m4-gt3.sto');
+const TEXT_FIXTURE = path.join(__dirname, '..', 'fixtures', 'bmw-m4-gt3.sto');
+
+describe('isBinarySto', () => {
+  it('recognizes the ISTO magic bytes', () => {
+    expect(isBinarySto(fs.readFileSync(BINARY_FIXTURE))).toBe(true);
+  });
+
+  it('rejects INI-like files, also when saved as UTF-16 with NUL bytes', () => {
+    const text = fs.readFileSync(TEXT_FIXTURE, 'utf8');
+
+    expect(isBinarySto(Buffer.from(text, 'utf8'))).toBe(false);
+    expect(isBinarySto(Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(text, 'utf16le')]))).toBe(false);
+    expect(isBinarySto(new Uint8Array([0x49, 0x53]))).toBe(false);
+  });
+});
+
+describe('readBinarySto', () => {
+  it('decodes the top-level entries and sections of a binary file', () => {
+    const contents = readBinarySto(new Uint8Array(fs.readFileSync(BINARY_FIXTURE)));
+
+    expect(contents.formatVersion).toBe(1);
+    expect(contents.rootValues).toMatchObject({ VERSION: 3, CAR: 'bmw_m4_gt3', TRACK: 'spa' });
+    expect(contents.sections.TIRES.LF_COLD_PRESSURE).toBe(165.5);
+    expect(contents.sections.CHASSIS.LF_TOE_IN).toBe(-0.06);
+  });
+
+  it('reads a file that starts inside a larger buffer', () => {
+    const bytes = fs.readFileSync(BINARY_FIXTURE);
+    const padded = new Uint8Array(bytes.length + 8);
+    padded.set(bytes, 8);
+
+    expect(readBinarySto(padded.subarray(8))).toEqual(readBinarySto(bytes));
+  });
+
+  it('reports truncated files and unknown value types', () => {
+    const bytes = fs.readFileSync(BINARY_FIXTURE);
+    const corrupted = Uint8Array.from(bytes);
+    // Type tag of the first header entry, after magic, version, count and the 'VERSION' key
+    corrupted[4 + 4 + 4 + 2 + 'VERSION'.length] = 9;
+
+    expect(() => readBinarySto(bytes.subarray(0, 40))).toThrow(/Unexpected end of binary setup file/);
+    expect(() => readBinarySto(corrupted)).toThrow(/Unknown value type 9 for key VERSION/);
+    expect(() => readBinarySto(Buffer.from('VERSION=3\n'))).toThrow(/missing ISTO magic/);
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Reader for the binary .sto format that iRacing writes to the garage folders
+ *
+ * Layout of the container (all integers are little-endian):
+ *
+ *   magic          4 bytes   'ISTO'
+ *   formatVersion  uint32
+ *   headerCount    uint32    number of top-level entries (VERSION, CAR, TRACK, ...)
+ *   headerEntries  entry[headerCount]
+ *   sectionCount   uint32
+ *   sections       section[sectionCount]
+ *
+ *   section:  name string, entryCount uint32, entry[entryCount]
+ *   entry:    key string, type uint8, value
+ *   string:   uint16 byte length followed by UTF-8 bytes
+ *
+ * iRacing doesn't publish the format; fixtures/binary holds a sample in this
+ * layout that the tests decode. Setups are always written back as INI-like
+ * text, which iRacing reads as well.
+ */
+
+/**
+ * Magic bytes at the start of every binary .sto file
+ */
+export const BINARY_STO_MAGIC = 'ISTO';
+
+/**
+ * Decoder of the UTF-8 strings of binary entries
+ */
+const utf8Decoder = new TextDecoder('utf-8');
+
+/**
+ * Value type tags used by the binary entries
+ */
+enum BinaryValueType {
+  String = 0,
+  Int32 = 1,
+  Float32 = 2,
+  Boolean = 3,
+  Float64 = 4
+}
+
+/**
+ * Decoded content of a binary .sto file, before header extraction
+ */
+export interface BinaryStoContents {
+  // Version of the binary container
+  formatVersion: number;
+
+  // Top-level entries (VERSION, CAR, TRACK, TIMESTAMP, ...)
+  rootValues: Record<string, string | number | boolean>;
+
+  // Sections with their entries, in file order
+  sections: {
+    [sectionName: string]: {
+      [key: string]: string | number | boolean;
+    };
+  };
+}
+
+/**
+ * Check whether a file holds a binary .sto file rather than an INI-like one
+ *
+ * Only the magic bytes decide: INI-like files may contain NUL bytes too when
+ * they are saved as UTF-16.
+ * @param bytes File content
+ * @returns True if the content should be decoded as binary
+ */
+export function isBinarySto(bytes: Uint8Array): boolean {
+  if (bytes.length < BINARY_STO_MAGIC.length) return false;
+
+  for (let i = 0; i < BINARY_STO_MAGIC.length; i++) {
+    if (bytes[i] !== BINARY_STO_MAGIC.charCodeAt(i)) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Decode a binary .sto file
+ * @param bytes File content
+ * @returns Decoded entries and sections
+ */
+export function readBinarySto(bytes: Uint8Array): BinaryStoContents {
+  if (!isBinarySto(bytes)) {
+    throw new Error('Unrecognized binary setup file (missing ISTO magic bytes)');
+  }
+
+  const reader = new BinaryReader(bytes, BINARY_STO_MAGIC.length);
+  const formatVersion = reader.readUInt32();
+
+  const rootValues: BinaryStoContents['rootValues'] = {};
+  const headerCount = reader.readUInt32();
+  for (let i = 0; i < headerCount; i++) {
+    const [key, value] = reader.readEntry();
+    rootValues[key] = value;
+  }
+
+  const sections: BinaryStoContents['sections'] = {};
+  const sectionCount = reader.readUInt32();
+  for (let i = 0; i < sectionCount; i++) {
+    const sectionName = reader.readString();
+    const entryCount = reader.readUInt32();
+    const section = sections[sectionName] || {};
+
+    for (let j = 0; j < entryCount; j++) {
+      const [key, value] = reader.readEntry();
+      section[key] = value;
+    }
+
+    sections[sectionName] = section;
+  }
+
+  return { formatVersion, rootValues, sections };
+}
+
+/**
+ * Sequential reader over the bytes of a file with bounds checking
+ */
+class BinaryReader {
+  private view: DataView;
+
+  constructor(private bytes: Uint8Array, private offset: number) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  public readUInt32(): number {
+    this.ensureAvailable(4);
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  public readString(): string {
+    this.ensureAvailable(2);
+    const length = this.view.getUint16(this.offset, true);
+    this.offset += 2;
+
+    this.ensureAvailable(length);
+    const value = utf8Decoder.decode(this.bytes.subarray(this.offset, this.offset + length));
+    this.offset += length;
+    return value;
+  }
+
+  public readEntry(): [string, string | number | boolean] {
+    const key = this.readString();
+
+    this.ensureAvailable(1);
+    const type = this.view.getUint8(this.offset);
+    this.offset += 1;
+
+    switch (type) {
+      case BinaryValueType.String:
+        return [key, this.readString()];
+
+      case BinaryValueType.Int32: {
+        this.ensureAvailable(4);
+        const value = this.view.getInt32(this.offset, true);
+        this.offset += 4;
+        return [key, value];
+      }
+
+      case BinaryValueType.Float32: {
+        this.ensureAvailable(4);
+        const value = this.view.getFloat32(this.offset, true);
+        this.offset += 4;
+        // Drop the single-precision noise (152.39999389648438 -> 152.4)
+        return [key, Number(value.toPrecision(7))];
+      }
+
+      case BinaryValueType.Boolean: {
+        this.ensureAvailable(1);
+        const value = this.view.getUint8(this.offset) !== 0;
+        this.offset += 1;
+        return [key, value];
+      }
+
+      case BinaryValueType.Float64: {
+        this.ensureAvailable(8);
+        const value = this.view.getFloat64(this.offset, true);
+        this.offset += 8;
+        return [key, value];
+      }
+
+      default:
+        throw new Error(`Unknown value type ${type} for key ${key} at offset ${this.offset - 1}`);
+    }
+  }
+
+  private ensureAvailable(length: number): void {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error(`Unexpected end of binary setup file at offset ${this.offset}`);
+    }
+  }
+}
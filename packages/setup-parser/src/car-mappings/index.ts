@@ -0,0 +1,93 @@
+import { CarMappingConfig } from '../types';
+import { compileCarMapping, validateCarMappingDefinition } from '../mapping-loader';
+import ferrari488GT3 from './ferrari-488-gt3.json';
+import porsche911GT3R from './porsche-911-gt3r.json';
+import bmwM4GT3 from './bmw-m4-gt3.json';
+import mercedesAMGGT3 from './mercedes-amg-gt3.json';
+import audiR8LMSEvoIIGT3 from './audi-r8-lms-evo-ii-gt3.json';
+import lamborghiniHuracanGT3Evo from './lamborghini-huracan-gt3-evo.json';
+import mclaren720SGT3 from './mclaren-720s-gt3.json';
+import fordMustangGT3 from './ford-mustang-gt3.json';
+import acuraNSXGT3Evo22 from './acura-nsx-gt3-evo-22.json';
+
+/**
+ * Mapping configuration for the Ferrari 488 GT3
+ */
+export const ferrari488GT3Mapping = compileCarMapping(
+  validateCarMappingDefinition(ferrari488GT3, 'car mapping ferrari-488-gt3.json')
+);
+
+/**
+ * Mapping configuration for the Porsche 911 GT3 R
+ */
+export const porsche911GT3RMapping = compileCarMapping(
+  validateCarMappingDefinition(porsche911GT3R, 'car mapping porsche-911-gt3r.json')
+);
+
+/**
+ * Mapping configuration for the BMW M4 GT3
+ */
+export const bmwM4GT3Mapping = compileCarMapping(
+  validateCarMappingDefinition(bmwM4GT3, 'car mapping bmw-m4-gt3.json')
+);
+
+/**
+ * Mapping configuration for the Mercedes-AMG GT3 2020
+ */
+export const mercedesAMGGT3Mapping = compileCarMapping(
+  validateCarMappingDefinition(mercedesAMGGT3, 'car mapping mercedes-amg-gt3.json')
+);
+
+/**
+ * Mapping configuration for the Audi R8 LMS EVO II GT3
+ */
+export const audiR8LMSEvoIIGT3Mapping = compileCarMapping(
+  validateCarMappingDefinition(audiR8LMSEvoIIGT3, 'car mapping audi-r8-lms-evo-ii-gt3.json')
+);
+
+/**
+ * Mapping configuration for the Lamborghini Huracán GT3 EVO
+ */
+export const lamborghiniHuracanGT3EvoMapping = compileCarMapping(
+  validateCarMappingDefinition(lamborghiniHuracanGT3Evo, 'car mapping lamborghini-huracan-gt3-evo.json')
+);
+
+/**
+ * Mapping configuration for the McLaren 720S GT3
+ */
+export const mclaren720SGT3Mapping = compileCarMapping(
+  validateCarMappingDefinition(mclaren720SGT3, 'car mapping mclaren-720s-gt3.json')
+);
+
+/**
+ * Mapping configuration for the Ford Mustang GT3
+ */
+export const fordMustangGT3Mapping = compileCarMapping(
+  validateCarMappingDefinition(fordMustangGT3, 'car mapping ford-mustang-gt3.json')
+);
+
+/**
+ * Mapping configuration for the Acura NSX GT3 EVO 22
+ */
+export const acuraNSXGT3Evo22Mapping = compileCarMapping(
+  validateCarMappingDefinition(acuraNSXGT3Evo22, 'car mapping acura-nsx-gt3-evo-22.json')
+);
+
+/**
+ * Car mappings bundled with the package
+ *
+ * The mapping files are imported rather than read from disk so they are also
+ * available where there is no file system (renderer bundle). Users can add
+ * their own mappings at runtime, see createDefaultParser.
+ */
+export const bundledCarMappings: CarMappingConfig[] = [
+  ferrari488GT3Mapping,
+  porsche911GT3RMapping,
+  bmwM4GT3Mapping,
+  mercedesAMGGT3Mapping,
+  audiR8LMSEvoIIGT3Mapping,
+  lamborghiniHuracanGT3EvoMapping,
+  mclaren720SGT3Mapping,
+  fordMustangGT3Mapping,
+  acuraNSXGT3Evo22Mapping
+];
@@ -0,0 +1,124 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import {
+  applyAxleEditsToCorners,
+  completeCorners,
+  createCornersFromAxles,
+  deriveAxlesFromCorners,
+  getOppositeCornerPath
+} from './corners';
+import { createDefaultParser } from './index';
+import { ParsedSetup } from './types';
+
+const FIXTURE = path.join(__dirname, '..', 'fixtures', 'bmw-m4-gt3.sto');
+
+/**
+ * Parse the BMW fixture, whose corners are symmetric per axle
+ */
+function parseFixture(): ParsedSetup {
+  return createDefaultParser().parseString(fs.readFileSync(FIXTURE, 'utf8'));
+}
+
+describe('createCornersFromAxles', () => {
+  it('gives both corners of an axle the axle values', () => {
+    const setup = parseFixture();
+    const corners = createCornersFromAxles(setup);
+
+    expect(corners.frontLeft).toEqual(corners.frontRight);
+    expect(corners.rearLeft.springRate).toBe(setup.suspension.rear.springRate);
+    expect(corners.frontLeft.damper).toEqual(setup.dampers.front);
+  });
+});
+
+describe('completeCorners', () => {
+  it('fills a missing corner from the other side of the axle, except its corner weight', () => {
+    const setup = parseFixture();
+    const { frontLeft, rearLeft, rearRight } = setup.corners!;
+    setup.corners = { frontLeft: { ...frontLeft, camber: -4.2 }, rearLeft, rearRight } as ParsedSetup['corners'];
+
+    completeCorners(setup);
+
+    expect(setup.corners!.frontRight.camber).toBe(-4.2);
+    expect(setup.corners!.frontRight.damper).toEqual(frontLeft.damper);
+    expect(setup.corners!.frontRight.cornerWeight).toBeUndefined();
+  });
+});
+
+describe('deriveAxlesFromCorners', () => {
+  it('averages the corners of each axle and remembers the derived values', () => {
+    const setup = parseFixture();
+    setup.corners!.rearLeft.rideHeight = 70;
+    setup.corners!.rearRight.rideHeight = 73;
+
+    deriveAxlesFromCorners(setup);
+
+    expect(setup.suspension.rear.rideHeight).toBe(71.5);
+    expect(setup.cornerAxles?.suspension.rear.rideHeight).toBe(71.5);
+  });
+});
+
+describe('applyAxleEditsToCorners', () => {
+  it('shifts both corners by an axle edit, keeping the left/right split', () => {
+    const setup = parseFixture();
+    setup.corners!.rearLeft.rideHeight = 70;
+    setup.corners!.rearRight.rideHeight = 73;
+    deriveAxlesFromCorners(setup);
+
+    setup.suspension.rear.rideHeight += 1;
+    applyAxleEditsToCorners(setup);
+
+    expect(setup.corners!.rearLeft.rideHeight).toBe(71);
+    expect(setup.corners!.rearRight.rideHeight).toBe(74);
+  });
+
+  it('keeps corner edits made after the axles were derived', () => {
+    const setup = parseFixture();
+    const camber = setup.corners!.frontRight.camber;
+    setup.corners!.frontLeft.camber = camber - 0.5;
+
+    applyAxleEditsToCorners(setup);
+
+    expect(setup.corners!.frontLeft.camber).toBe(camber - 0.5);
+    expect(setup.corners!.frontRight.camber).toBe(camber);
+  });
+
+  it('shifts damper adjusters and seeds high-speed adjusters the corners lack', () => {
+    const setup = parseFixture();
+    const bump = setup.corners!.frontLeft.damper.bump;
+    delete setup.corners!.rearLeft.damper.reboundSlope;
+    setup.dampers.front.bump = bump + 2;
+    setup.dampers.rear.reboundSlope = 3;
+
+    applyAxleEditsToCorners(setup);
+
+    expect(setup.corners!.frontLeft.damper.bump).toBe(bump + 2);
+    expect(setup.corners!.frontRight.damper.bump).toBe(bump + 2);
+    expect(setup.corners!.rearLeft.damper.reboundSlope).toBe(3);
+    expect(setup.corners!.rearRight.damper.reboundSlope).toBe(3);
+  });
+
+  it('compares with the average of the corners when the setup has no derived values', () => {
+    const setup = parseFixture();
+    delete setup.cornerAxles;
+    setup.suspension.front.toe = 0.04;
+
+    applyAxleEditsToCorners(setup);
+
+    expect(setup.corners!.frontLeft.toe).toBe(0.04);
+    expect(setup.corners!.frontRight.toe).toBe(0.04);
+  });
+});
+
+describe('getOppositeCornerPath', () => {
+  it('returns the same field of the other corner of the axle', () => {
+    expect(getOppositeCornerPath('corners.frontRight.camber')).toBe('corners.frontLeft.camber');
+    expect(getOppositeCornerPath('corners.rearLeft.damper.bump')).toBe('corners.rearRight.damper.bump');
+  });
+
+  it('ignores corner weights and fields outside the corners', () => {
+    expect(getOppositeCornerPath('corners.frontLeft.cornerWeight')).toBeUndefined();
+    expect(getOppositeCornerPath('suspension.front.camber')).toBeUndefined();
+    expect(getOppositeCornerPath('corners.middle.camber')).toBeUndefined();
+  });
+});
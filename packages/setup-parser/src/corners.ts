@@ -0,0 +1,226 @@
+import { ParsedSetup, SetupCorners, CornerSettings, DamperSettings } from './types';
+
+/**
+ * Corner names grouped by axle
+ */
+export const AXLE_CORNERS: Record<'front' | 'rear', [keyof SetupCorners, keyof SetupCorners]> = {
+  front: ['frontLeft', 'frontRight'],
+  rear: ['rearLeft', 'rearRight']
+};
+
+/**
+ * Parts of a setup that keep its axle and corner views in sync
+ */
+type CornerSetup = Pick<ParsedSetup, 'suspension' | 'dampers' | 'corners' | 'cornerAxles'>;
+
+/**
+ * Axle suspension fields that have a per-corner counterpart
+ */
+const CORNER_SUSPENSION_FIELDS = ['springRate', 'rideHeight', 'camber', 'toe'] as const;
+
+/**
+ * Axle damper fields that have a per-corner counterpart
+ */
+const CORNER_DAMPER_FIELDS = ['bump', 'rebound'] as const;
+
+/**
+ * Damper fields only present on four-way dampers
+ */
+const FOUR_WAY_DAMPER_FIELDS = ['highSpeedBump', 'highSpeedRebound', 'bumpSlope', 'reboundSlope'] as const;
+
+/**
+ * Create symmetric corner settings from the front/rear axle values
+ * @param setup Structured setup data
+ * @returns Corner settings with both sides of each axle equal
+ */
+export function createCornersFromAxles(setup: Pick<ParsedSetup, 'suspension' | 'dampers'>): SetupCorners {
+  const corners = {} as SetupCorners;
+
+  for (const axle of ['front', 'rear'] as const) {
+    for (const corner of AXLE_CORNERS[axle]) {
+      corners[corner] = {
+        springRate: setup.suspension[axle].springRate,
+        rideHeight: setup.suspension[axle].rideHeight,
+        camber: setup.suspension[axle].camber,
+        toe: setup.suspension[axle].toe,
+        damper: { ...setup.dampers[axle] }
+      };
+    }
+  }
+
+  return corners;
+}
+
+/**
+ * Fill corner values a mapping didn't provide, first from the other corner of
+ * the same axle (files that only store the left-hand side are symmetric), then
+ * from the axle values
+ * @param setup Structured setup data with partially populated corners
+ */
+export function completeCorners(setup: ParsedSetup): void {
+  if (!setup.corners) return;
+
+  const defaults = createCornersFromAxles(setup);
+  const provided: Partial<Record<keyof SetupCorners, Partial<CornerSettings>>> = setup.corners;
+  const corners = {} as SetupCorners;
+
+  for (const corner of Object.keys(defaults) as Array<keyof SetupCorners>) {
+    const axle = corner.startsWith('front') ? 'front' : 'rear';
+    const opposite = AXLE_CORNERS[axle].find(candidate => candidate !== corner)!;
+
+    const own = provided[corner] || {};
+    // Corner weights are never mirrored from the other side
+    const { cornerWeight: _, ...other } = provided[opposite] || {};
+
+    corners[corner] = {
+      ...defaults[corner],
+      ...other,
+      ...own,
+      damper: { ...defaults[corner].damper, ...other.damper, ...own.damper }
+    };
+  }
+
+  setup.corners = corners;
+}
+
+/**
+ * Get the field completeCorners fills a corner field from
+ * @param fieldPath Field path in structured data (e.g. 'corners.frontRight.camber')
+ * @returns Same field of the other corner of the axle, or undefined if the
+ *   field isn't a corner field that is mirrored
+ */
+export function getOppositeCornerPath(fieldPath: string): string | undefined {
+  const match = fieldPath.match(/^corners\.(\w+)\.(.+)$/);
+  if (!match || match[2] === 'cornerWeight') return undefined;
+
+  const corner = match[1] as keyof SetupCorners;
+  const axle = Object.values(AXLE_CORNERS).find(corners => corners.includes(corner));
+  const opposite = axle?.find(candidate => candidate !== corner);
+
+  return opposite ? `corners.${opposite}.${match[2]}` : undefined;
+}
+
+/**
+ * Derive the front/rear axle view from the corners (average of left and right)
+ *
+ * The derived values are also kept as cornerAxles, so later changes to the
+ * axle view can be recognized by applyAxleEditsToCorners.
+ * @param setup Structured setup data
+ */
+export function deriveAxlesFromCorners(setup: CornerSetup): void {
+  if (!setup.corners) return;
+
+  for (const axle of ['front', 'rear'] as const) {
+    const [left, right] = AXLE_CORNERS[axle].map(corner => setup.corners![corner]);
+
+    for (const field of CORNER_SUSPENSION_FIELDS) {
+      setup.suspension[axle][field] = average(left[field], right[field]);
+    }
+
+    for (const field of CORNER_DAMPER_FIELDS) {
+      setup.dampers[axle][field] = average(left.damper[field], right.damper[field]);
+    }
+
+    for (const field of FOUR_WAY_DAMPER_FIELDS) {
+      const leftValue = left.damper[field];
+      const rightValue = right.damper[field];
+      if (leftValue !== undefined && rightValue !== undefined) {
+        setup.dampers[axle][field] = average(leftValue, rightValue);
+      }
+    }
+  }
+
+  setup.cornerAxles = {
+    suspension: { front: { ...setup.suspension.front }, rear: { ...setup.suspension.rear } },
+    dampers: { front: { ...setup.dampers.front }, rear: { ...setup.dampers.rear } }
+  };
+}
+
+/**
+ * Apply edits made through the axle view to the corners
+ *
+ * An axle value that no longer matches the value derived from its corners
+ * (cornerAxles) was edited directly, so both corners are shifted by the
+ * difference, keeping the left/right split of asymmetric setups. Corners
+ * edited on their own leave the derived axle value unchanged and are kept.
+ * Setups without cornerAxles are compared with the average of their corners.
+ * @param setup Structured setup data
+ */
+export function applyAxleEditsToCorners(setup: CornerSetup): void {
+  if (!setup.corners) return;
+
+  for (const axle of ['front', 'rear'] as const) {
+    const [left, right] = AXLE_CORNERS[axle].map(corner => setup.corners![corner]);
+    const derivedSuspension = setup.cornerAxles?.suspension[axle];
+    const derivedDampers = setup.cornerAxles?.dampers[axle];
+
+    for (const field of CORNER_SUSPENSION_FIELDS) {
+      const derived = derivedSuspension?.[field] ?? average(left[field], right[field]);
+      const delta = setup.suspension[axle][field] - derived;
+      if (Math.abs(delta) > 1e-9) {
+        left[field] = round(left[field] + delta);
+        right[field] = round(right[field] + delta);
+      }
+    }
+
+    for (const field of CORNER_DAMPER_FIELDS) {
+      shiftDampers(left.damper, right.damper, field, setup.dampers[axle][field], derivedDampers?.[field]);
+    }
+
+    for (const field of FOUR_WAY_DAMPER_FIELDS) {
+      const value = setup.dampers[axle][field];
+      if (value === undefined) continue;
+
+      // High-speed adjusters added through the axle view start out symmetric
+      if (left.damper[field] === undefined || right.damper[field] === undefined) {
+        left.damper[field] = value;
+        right.damper[field] = value;
+      } else {
+        shiftDampers(left.damper, right.damper, field, value, derivedDampers?.[field]);
+      }
+    }
+  }
+}
+
+/**
+ * List the axle fields that are derived from the corners when a setup has them
+ * @returns Field paths (e.g. 'suspension.front.camber'), 'dampers.front' and 'dampers.rear' covering every damper field
+ */
+export function getCornerDerivedAxlePaths(): string[] {
+  return (['front', 'rear'] as const).flatMap(axle => [
+    ...CORNER_SUSPENSION_FIELDS.map(field => `suspension.${axle}.${field}`),
+    `dampers.${axle}`
+  ]);
+}
+
+/**
+ * Shift a damper adjuster of both corners by the change of the axle value
+ * from its derived value (the average of the corners when unknown)
+ */
+function shiftDampers(
+  left: DamperSettings,
+  right: DamperSettings,
+  field: keyof DamperSettings,
+  axleValue: number,
+  derivedValue: number = average(left[field]!, right[field]!)
+): void {
+  const delta = axleValue - derivedValue;
+  if (Math.abs(delta) > 1e-9) {
+    left[field] = round(left[field]! + delta);
+    right[field] = round(right[field]! + delta);
+  }
+}
+
+/**
+ * Average of the two corners of an axle
+ */
+function average(left: number, right: number): number {
+  return round((left + right) / 2);
+}
+
+/**
+ * Drop floating-point noise introduced by averaging and shifting values
+ */
+function round(value: number): number {
+  return Number(value.toPrecision(12));
+}
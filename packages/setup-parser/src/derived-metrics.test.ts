@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { Setup } from 'setup-schema';
+import { computeDerivedMetrics, formatDerivedMetrics } from './derived-metrics';
+import { createDefaultParser } from './index';
+import { CarSpec } from './types';
+
+/**
+ * Car with round numbers: 250 kg on each corner, a 1.6 m track and springs acting
+ * at half the wheel travel in front
+ */
+const CAR_SPEC: CarSpec = {
+  mass: 1000,
+  frontWeightDistribution: 50,
+  wheelbase: 2500,
+  trackWidth: { front: 1600, rear: 1600 },
+  motionRatio: { front: 0.5, rear: 1 },
+  antiRollBarRate: { front: 100, rear: 50 }
+};
+
+/**
+ * Setup with the same springs on every corner and 10 mm of rake
+ */
+function createSetup(): Setup {
+  const axle = { springRate: 100000, rideHeight: 50, camber: -3, toe: 0, antiRollBar: 4 };
+  const dampers = { bump: 10, rebound: 12 };
+
+  return {
+    carId: 'test_car',
+    trackId: 'test_track',
+    name: 'Baseline',
+    suspension: { front: { ...axle }, rear: { ...axle, rideHeight: 60, antiRollBar: 2 } },
+    dampers: { front: { ...dampers }, rear: { ...dampers } },
+    tirePressures: { frontLeft: 165.5, frontRight: 165.5, rearLeft: 162, rearRight: 162 },
+    aero: {},
+    brakeBias: 54
+  };
+}
+
+describe('computeDerivedMetrics', () => {
+  it('turns springs into wheel rates and ride frequencies with the motion ratios', () => {
+    const metrics = computeDerivedMetrics(createSetup(), CAR_SPEC);
+
+    expect(metrics.wheelRates).toEqual({ frontLeft: 25000, frontRight: 25000, rearLeft: 100000, rearRight: 100000 });
+    expect(metrics.front).toMatchObject({ wheelRate: 25000, sprungMass: 250, rideFrequency: 1.592 });
+    expect(metrics.rear).toMatchObject({ wheelRate: 100000, sprungMass: 250, rideFrequency: 3.183 });
+    expect(metrics.rideFrequencyRatio).toBe(0.5);
+  });
+
+  it('adds the anti-roll bars to the roll stiffness of the springs and compares it with the weight distribution', () => {
+    const metrics = computeDerivedMetrics(createSetup(), CAR_SPEC);
+
+    // 25000 N/m * 1.6² m² / 2 per radian, in degrees
+    expect(metrics.front).toMatchObject({ springRollStiffness: 558.505, antiRollBarRollStiffness: 400, rollStiffness: 958.505 });
+    expect(metrics.rear).toMatchObject({ springRollStiffness: 2234.021, antiRollBarRollStiffness: 100, rollStiffness: 2334.021 });
+    expect(metrics.frontWeightDistribution).toBe(50);
+    expect(metrics.frontRollStiffnessDistribution).toBe(29.112);
+    expect(metrics.mechanicalBalance).toBe(-20.888);
+    expect(metrics.balanceTendency).toBe('oversteer');
+  });
+
+  it('calculates the rake and the pitch it gives the car', () => {
+    const metrics = computeDerivedMetrics(createSetup(), CAR_SPEC);
+
+    expect(metrics.rake).toBe(10);
+    expect(metrics.rakeAngle).toBe(0.229);
+  });
+
+  it('uses the corner weights of the setup when all four are known', () => {
+    const setup = createSetup();
+    setup.corners = {
+      frontLeft: { ...setup.suspension.front, damper: setup.dampers.front, cornerWeight: 3000 },
+      frontRight: { ...setup.suspension.front, damper: setup.dampers.front, cornerWeight: 3000 },
+      rearLeft: { ...setup.suspension.rear, damper: setup.dampers.rear, cornerWeight: 2000 },
+      rearRight: { ...setup.suspension.rear, damper: setup.dampers.rear, cornerWeight: 2000 }
+    };
+
+    expect(computeDerivedMetrics(setup, CAR_SPEC).frontWeightDistribution).toBe(60);
+
+    delete setup.corners.rearRight.cornerWeight;
+    expect(computeDerivedMetrics(setup, CAR_SPEC).frontWeightDistribution).toBe(50);
+  });
+
+  it('stiffens the axle in heave only for a heave spring', () => {
+    const setup = createSetup();
+    setup.heaveSprings = { rear: { springRate: 200000 } };
+
+    const metrics = computeDerivedMetrics(setup, CAR_SPEC);
+
+    // Shared by both wheels, so half of it acts at each wheel
+    expect(metrics.rear.heaveWheelRate).toBe(100000);
+    expect(metrics.rear.rideFrequency).toBe(4.502);
+    expect(metrics.rear.rollStiffness).toBe(2334.021);
+  });
+
+  it('returns zero instead of NaN for setups without springs', () => {
+    const setup = createSetup();
+    setup.suspension.front.springRate = 0;
+    setup.suspension.rear.springRate = 0;
+    setup.suspension.front.antiRollBar = 0;
+    setup.suspension.rear.antiRollBar = 0;
+
+    const metrics = computeDerivedMetrics(setup, CAR_SPEC);
+
+    expect(metrics.rideFrequencyRatio).toBe(0);
+    expect(metrics.frontRollStiffnessDistribution).toBe(0);
+  });
+});
+
+describe('formatDerivedMetrics', () => {
+  it('describes each metric on its own line', () => {
+    expect(formatDerivedMetrics(computeDerivedMetrics(createSetup(), CAR_SPEC))).toBe([
+      'Front: wheel rate 25000 N/m, ride frequency 1.59 Hz, roll stiffness 959 N·m/deg',
+      'Rear: wheel rate 100000 N/m, ride frequency 3.18 Hz, roll stiffness 2334 N·m/deg',
+      'Ride frequency ratio (front/rear): 0.50',
+      'Weight distribution: 50.0% front',
+      'Roll stiffness distribution: 29.1% front',
+      'Mechanical balance: -20.9 (oversteer)',
+      'Rake: 10.0 mm (0.23°)'
+    ].join('\n'));
+  });
+});
+
+describe('SetupParser.computeDerivedMetrics', () => {
+  it('has no metrics for cars without a car spec', () => {
+    expect(createDefaultParser().computeDerivedMetrics(createSetup())).toBeUndefined();
+  });
+});
@@ -0,0 +1,157 @@
+import { Setup } from 'setup-schema';
+import { AxleMetrics, CarSpec, DerivedMetrics, SetupCorners } from './types';
+import { AXLE_CORNERS, createCornersFromAxles } from './corners';
+import { round } from './rounding';
+
+/**
+ * Standard gravity in m/s², to turn corner weights in N into masses
+ */
+const GRAVITY = 9.80665;
+
+/**
+ * Largest mechanical balance in percentage points still considered neutral
+ */
+const NEUTRAL_BALANCE_MARGIN = 5;
+
+/**
+ * Turn the garage values of a setup into engineering numbers
+ *
+ * Corner weights of the setup are used for the mass distribution when all four
+ * are known, otherwise the mass and weight distribution of the car spec.
+ * Springs and anti-roll bars are assumed linear, and tire stiffness is ignored.
+ * Heave springs stiffen the axle in heave only, so they raise the ride
+ * frequency but leave the roll stiffness unchanged.
+ * @param setup Structured setup data
+ * @param carSpec Chassis data of the car
+ * @returns Wheel rates, ride frequencies, roll stiffness, rake and mechanical balance
+ */
+export function computeDerivedMetrics(setup: Setup, carSpec: CarSpec): DerivedMetrics {
+  const corners = setup.corners ?? createCornersFromAxles(setup);
+
+  const wheelRates = {} as Record<keyof SetupCorners, number>;
+  for (const axle of ['front', 'rear'] as const) {
+    for (const corner of AXLE_CORNERS[axle]) {
+      wheelRates[corner] = round(corners[corner].springRate * carSpec.motionRatio[axle] ** 2);
+    }
+  }
+
+  const cornerMasses = getCornerMasses(corners);
+  const axleMasses = cornerMasses
+    ? { front: cornerMasses.frontLeft + cornerMasses.frontRight, rear: cornerMasses.rearLeft + cornerMasses.rearRight }
+    : {
+      front: carSpec.mass * carSpec.frontWeightDistribution / 100,
+      rear: carSpec.mass * (100 - carSpec.frontWeightDistribution) / 100
+    };
+
+  const [front, rear] = (['front', 'rear'] as const).map(axle => {
+    const [left, right] = AXLE_CORNERS[axle];
+    // A heave spring is shared by both wheels of the axle
+    const heaveSpringRate = setup.heaveSprings?.[axle]?.springRate ?? 0;
+    const heaveWheelRate = heaveSpringRate * (carSpec.heaveMotionRatio?.[axle] ?? 1) ** 2 / 2;
+
+    return computeAxleMetrics(
+      (wheelRates[left] + wheelRates[right]) / 2,
+      heaveWheelRate,
+      axleMasses[axle] / 2 - (carSpec.unsprungMass?.[axle] ?? 0),
+      carSpec.trackWidth[axle],
+      setup.suspension[axle].antiRollBar * (carSpec.antiRollBarRate?.[axle] ?? 0)
+    );
+  });
+
+  const frontWeightDistribution = ratio(axleMasses.front, axleMasses.front + axleMasses.rear) * 100;
+  const frontRollStiffnessDistribution = ratio(front.rollStiffness, front.rollStiffness + rear.rollStiffness) * 100;
+  const mechanicalBalance = frontRollStiffnessDistribution - frontWeightDistribution;
+  const rideHeight = (axle: 'front' | 'rear') =>
+    AXLE_CORNERS[axle].reduce((sum, corner) => sum + corners[corner].rideHeight, 0) / 2;
+  const rake = rideHeight('rear') - rideHeight('front');
+
+  return {
+    wheelRates,
+    front,
+    rear,
+    frontWeightDistribution: round(frontWeightDistribution),
+    frontRollStiffnessDistribution: round(frontRollStiffnessDistribution),
+    rideFrequencyRatio: round(ratio(front.rideFrequency, rear.rideFrequency)),
+    rake: round(rake),
+    rakeAngle: round(Math.atan(rake / carSpec.wheelbase) * 180 / Math.PI),
+    mechanicalBalance: round(mechanicalBalance),
+    balanceTendency: mechanicalBalance > NEUTRAL_BALANCE_MARGIN
+      ? 'understeer'
+      : mechanicalBalance < -NEUTRAL_BALANCE_MARGIN ? 'oversteer' : 'neutral'
+  };
+}
+
+/**
+ * Format derived metrics as human-readable text
+ * @param metrics Result of computeDerivedMetrics
+ * @returns One line per metric
+ */
+export function formatDerivedMetrics(metrics: DerivedMetrics): string {
+  const axle = (name: string, axleMetrics: AxleMetrics) =>
+    `${name}: wheel rate ${Math.round(axleMetrics.wheelRate)} N/m` +
+    (axleMetrics.heaveWheelRate > 0 ? ` (+${Math.round(axleMetrics.heaveWheelRate)} N/m heave)` : '') +
+    `, ride frequency ${axleMetrics.rideFrequency.toFixed(2)} Hz, ` +
+    `roll stiffness ${Math.round(axleMetrics.rollStiffness)} N·m/deg`;
+
+  return [
+    axle('Front', metrics.front),
+    axle('Rear', metrics.rear),
+    `Ride frequency ratio (front/rear): ${metrics.rideFrequencyRatio.toFixed(2)}`,
+    `Weight distribution: ${metrics.frontWeightDistribution.toFixed(1)}% front`,
+    `Roll stiffness distribution: ${metrics.frontRollStiffnessDistribution.toFixed(1)}% front`,
+    `Mechanical balance: ${metrics.mechanicalBalance > 0 ? '+' : ''}${metrics.mechanicalBalance.toFixed(1)} (${metrics.balanceTendency})`,
+    `Rake: ${metrics.rake.toFixed(1)} mm (${metrics.rakeAngle.toFixed(2)}°)`
+  ].join('\n');
+}
+
+/**
+ * Calculate the ride and roll metrics of an axle
+ * @param wheelRate Average wheel rate of the axle's corners in N/m
+ * @param heaveWheelRate Heave spring rate at each wheel in N/m
+ * @param sprungMass Sprung mass on one corner in kg
+ * @param trackWidth Track width in mm
+ * @param antiRollBarRollStiffness Roll stiffness of the anti-roll bar in N·m/deg
+ */
+function computeAxleMetrics(
+  wheelRate: number,
+  heaveWheelRate: number,
+  sprungMass: number,
+  trackWidth: number,
+  antiRollBarRollStiffness: number
+): AxleMetrics {
+  // Each spring acts on half the track width: 2 * k * (t / 2)² per radian of roll
+  const track = trackWidth / 1000;
+  const springRollStiffness = wheelRate * track ** 2 / 2 * Math.PI / 180;
+
+  return {
+    wheelRate: round(wheelRate),
+    heaveWheelRate: round(heaveWheelRate),
+    sprungMass: round(sprungMass),
+    rideFrequency: round(Math.sqrt(ratio(wheelRate + heaveWheelRate, sprungMass)) / (2 * Math.PI)),
+    springRollStiffness: round(springRollStiffness),
+    antiRollBarRollStiffness: round(antiRollBarRollStiffness),
+    rollStiffness: round(springRollStiffness + antiRollBarRollStiffness)
+  };
+}
+
+/**
+ * Get the mass on each corner from the corner weights
+ * @returns Masses in kg, or undefined if any corner weight is missing or zero
+ */
+function getCornerMasses(corners: SetupCorners): Record<keyof SetupCorners, number> | undefined {
+  const masses = {} as Record<keyof SetupCorners, number>;
+
+  for (const [corner, settings] of Object.entries(corners) as Array<[keyof SetupCorners, SetupCorners[keyof SetupCorners]]>) {
+    if (settings.cornerWeight === undefined || settings.cornerWeight <= 0) return undefined;
+    masses[corner] = settings.cornerWeight / GRAVITY;
+  }
+
+  return masses;
+}
+
+/**
+ * Divide, with 0 for incomplete setups (e.g. springs without a value) instead of Infinity or NaN
+ */
+function ratio(numerator: number, denominator: number): number {
+  return denominator > 0 ? numerator / denominator : 0;
+}
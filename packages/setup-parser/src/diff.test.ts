@@ -0,0 +1,126 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { diffSetups, formatChange, formatSetupDiff } from './diff';
+import { mergeSetups } from './merge';
+import { createDefaultParser } from './index';
+import { ParsedSetup } from './types';
+
+const FIXTURE = path.join(__dirname, '..', 'fixtures', 'bmw-m4-gt3.sto');
+
+/**
+ * Parse the BMW fixture with the problems found attached as diagnostics
+ */
+function parseFixture(): ParsedSetup {
+  return createDefaultParser().parseString(fs.readFileSync(FIXTURE, 'utf8'), { diagnostics: true });
+}
+
+describe('diffSetups', () => {
+  it('ignores the diagnostics of the setups', () => {
+    const a = parseFixture();
+    const b = parseFixture();
+    b.diagnostics = [{ code: 'missing-field', severity: 'warning', message: 'TIRE has no COMPOUND', path: 'tireCompound' }];
+
+    expect(diffSetups(a, b)).toEqual([]);
+  });
+
+  it('still reports setup changes next to different diagnostics', () => {
+    const a = parseFixture();
+    const b = parseFixture();
+    b.diagnostics = [];
+    b.brakeBias = a.brakeBias + 1;
+
+    expect(diffSetups(a, b).map(change => change.path)).toEqual(['brakeBias']);
+  });
+});
+
+describe('diffSetups clicks and tolerance', () => {
+  const parser = createDefaultParser();
+
+  it('counts stepped and discrete changes in garage clicks with the parser ranges', () => {
+    const a = parseFixture();
+    const b = parseFixture();
+    a.corners!.rearRight.springRate = 180000;
+    b.tirePressures.frontLeft = a.tirePressures.frontLeft - 3;
+    b.corners!.rearRight.springRate = 220000;
+
+    const changes = parser.diffSetups(a, b);
+
+    expect(changes.find(change => change.path === 'tirePressures.frontLeft')).toMatchObject({
+      section: 'tirePressures',
+      delta: -3,
+      clickDelta: -6
+    });
+    expect(changes.find(change => change.path === 'corners.rearRight.springRate')?.clickDelta).toBe(2);
+  });
+
+  it('counts clicks of axle values with the ranges of their corners', () => {
+    const a = parseFixture();
+    const b = parseFixture();
+    b.dampers.front.bump = a.dampers.front.bump + 3;
+
+    expect(parser.diffSetups(a, b).find(change => change.path === 'dampers.front.bump')?.clickDelta).toBe(3);
+  });
+
+  it('has no clicks without a range lookup', () => {
+    const a = parseFixture();
+    const b = parseFixture();
+    b.tirePressures.frontLeft = a.tirePressures.frontLeft - 3;
+
+    expect(diffSetups(a, b).find(change => change.path === 'tirePressures.frontLeft')?.clickDelta).toBeUndefined();
+  });
+
+  it('ignores differences up to the tolerance and ignored fields', () => {
+    const a = { brakeBias: 54.2, tirePressures: { frontLeft: 165.5 }, name: 'a' };
+    const b = { brakeBias: 54.2 + 1e-12, tirePressures: { frontLeft: 165.6 }, name: 'b' };
+
+    expect(diffSetups(a, b).map(change => change.path)).toEqual(['tirePressures.frontLeft', 'name']);
+    expect(diffSetups(a, b, { tolerance: 0.2 }).map(change => change.path)).toEqual(['name']);
+    expect(diffSetups(a, b, { ignore: ['tirePressures', 'name'] })).toEqual([]);
+  });
+
+  it('reports added and removed fields against nothing', () => {
+    const changes = diffSetups({ heaveSprings: { front: { springRate: 90000 } } }, { wing: 5 });
+
+    expect(changes).toEqual([
+      { path: 'heaveSprings.front.springRate', section: 'heaveSprings', oldValue: 90000, newValue: undefined },
+      { path: 'wing', section: 'general', oldValue: undefined, newValue: 5 }
+    ]);
+  });
+});
+
+describe('formatChange', () => {
+  it('describes changes with their unit, delta and clicks or percentage', () => {
+    expect(formatChange({ path: 'tirePressures.frontLeft', section: 'tirePressures', oldValue: 165, newValue: 162, delta: -3, clickDelta: -6 }))
+      .toBe('165 → 162 kPa (-3, -6 clicks)');
+    expect(formatChange({ path: 'wing', section: 'general', oldValue: 4, newValue: 6, delta: 2, percentChange: 50 }))
+      .toBe('4 → 6 (+2, +50%)');
+    expect(formatChange({ path: 'tireCompound', section: 'general', oldValue: undefined, newValue: 'Dry' }))
+      .toBe('(none) → Dry');
+  });
+
+  it('groups changes under a heading per section', () => {
+    const a = { brakeBias: 54, tirePressures: { frontLeft: 165 } };
+    const b = { brakeBias: 55, tirePressures: { frontLeft: 165.5 } };
+
+    expect(formatSetupDiff(diffSetups(a, b, { getRange: () => ({ min: 152, max: 207, step: 0.5 }) }))).toBe(
+      'General\n  brakeBias: 54 → 55 (+1, +2 clicks)\nTire Pressures\n  frontLeft: 165 → 165.5 kPa (+0.5, +1 click)'
+    );
+  });
+});
+
+describe('mergeSetups', () => {
+  it('keeps our diagnostics instead of merging theirs', () => {
+    const base = parseFixture();
+    const ours = parseFixture();
+    const theirs = parseFixture();
+    ours.diagnostics = [];
+    theirs.diagnostics = [{ code: 'unknown-section', severity: 'warning', message: 'Section X is kept as is', section: 'X' }];
+
+    const result = mergeSetups(base, ours, theirs);
+
+    expect(result.mergedPaths).toEqual([]);
+    expect(result.conflicts).toEqual([]);
+    expect(result.setup.diagnostics).toEqual([]);
+  });
+});
@@ -0,0 +1,186 @@
+import { ParameterRange, SetupChange, SetupDiffOptions } from './types';
+import { getFieldUnit } from './units';
+
+/**
+ * Parts of a structured setup that aren't setup values
+ */
+const NON_SETUP_FIELDS = ['metadata', 'rawSetup', 'carDetection', 'cornerAxles', 'diagnostics'];
+
+/**
+ * Section of top-level values such as brakeBias
+ */
+const GENERAL_SECTION = 'general';
+
+/**
+ * Compare two setups field by field
+ * @param a First (original) setup
+ * @param b Second (modified) setup
+ * @param options Diff options
+ * @returns Changed fields, in the field order of the setups
+ */
+export function diffSetups(a: object, b: object, options: SetupDiffOptions = {}): SetupChange[] {
+  const { tolerance = 1e-9, ignore = [], getRange } = options;
+  const changes: SetupChange[] = [];
+
+  const isIgnored = (path: string) =>
+    ignore.some(ignored => path === ignored || path.startsWith(`${ignored}.`));
+
+  const compare = (oldValue: any, newValue: any, path: string) => {
+    if (path && isIgnored(path)) return;
+
+    // Groups present in only one setup are compared field by field against nothing
+    if (isObject(oldValue) || isObject(newValue)) {
+      const oldFields = isObject(oldValue) ? oldValue : {};
+      const newFields = isObject(newValue) ? newValue : {};
+
+      for (const key of new Set([...Object.keys(oldFields), ...Object.keys(newFields)])) {
+        if (path === '' && NON_SETUP_FIELDS.includes(key)) continue;
+        compare(oldFields[key], newFields[key], path ? `${path}.${key}` : key);
+      }
+      return;
+    }
+
+    if (typeof oldValue === 'number' && typeof newValue === 'number') {
+      if (Math.abs(newValue - oldValue) <= tolerance) return;
+      changes.push(describeNumericChange(path, oldValue, newValue, getRange?.(path)));
+      return;
+    }
+
+    if (oldValue !== newValue) {
+      changes.push({ path, section: getSection(path), oldValue, newValue });
+    }
+  };
+
+  compare(a, b, '');
+
+  return changes;
+}
+
+/**
+ * Format setup changes as human-readable text grouped by section
+ * @param changes Changes returned by diffSetups
+ * @returns One heading per section followed by one line per change, empty if nothing changed
+ */
+export function formatSetupDiff(changes: SetupChange[]): string {
+  const sections = new Map<string, SetupChange[]>();
+
+  for (const change of changes) {
+    sections.set(change.section, [...(sections.get(change.section) || []), change]);
+  }
+
+  const lines: string[] = [];
+  for (const [section, sectionChanges] of sections) {
+    lines.push(toTitle(section));
+
+    for (const change of sectionChanges) {
+      const field = change.section === GENERAL_SECTION ? change.path : change.path.slice(change.section.length + 1);
+      lines.push(`  ${field}: ${formatChange(change)}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a single change ('165 → 162 kPa (-3, -6 clicks)' or '4 → 6 (+2, +50%)')
+ * @param change Change returned by diffSetups
+ * @returns Description of the change
+ */
+export function formatChange(change: SetupChange): string {
+  const unit = getFieldUnit(change.path);
+  const values = `${formatValue(change.oldValue)} → ${formatValue(change.newValue)}${unit ? ` ${unit}` : ''}`;
+
+  if (change.delta === undefined) return values;
+
+  const details = [formatSigned(change.delta)];
+
+  if (change.clickDelta !== undefined) {
+    details.push(`${formatSigned(change.clickDelta)} ${Math.abs(change.clickDelta) === 1 ? 'click' : 'clicks'}`);
+  } else if (change.percentChange !== undefined) {
+    details.push(`${formatSigned(Number(change.percentChange.toFixed(1)))}%`);
+  }
+
+  return `${values} (${details.join(', ')})`;
+}
+
+/**
+ * Build the change of a numeric field with its delta, percent and click delta
+ */
+function describeNumericChange(
+  path: string,
+  oldValue: number,
+  newValue: number,
+  range?: ParameterRange
+): SetupChange {
+  const delta = round(newValue - oldValue);
+  const change: SetupChange = { path, section: getSection(path), oldValue, newValue, delta };
+
+  if (oldValue !== 0) {
+    change.percentChange = round((delta / Math.abs(oldValue)) * 100);
+  }
+
+  const clickDelta = range && getClickDelta(oldValue, newValue, range);
+  if (clickDelta !== undefined) {
+    change.clickDelta = clickDelta;
+  }
+
+  return change;
+}
+
+/**
+ * Count the garage clicks between two values of a range
+ */
+function getClickDelta(oldValue: number, newValue: number, range: ParameterRange): number | undefined {
+  if ('values' in range) {
+    const values = [...range.values].sort((x, y) => x - y);
+    const indexOf = (value: number) => values.reduce((closest, candidate, index) =>
+      Math.abs(candidate - value) < Math.abs(values[closest] - value) ? index : closest, 0);
+
+    return indexOf(newValue) - indexOf(oldValue);
+  }
+
+  return range.step ? round((newValue - oldValue) / range.step) : undefined;
+}
+
+/**
+ * Get the section of a field path
+ */
+function getSection(path: string): string {
+  return path.includes('.') ? path.split('.')[0] : GENERAL_SECTION;
+}
+
+/**
+ * Turn a camelCase section name into a heading ('tirePressures' -> 'Tire Pressures')
+ */
+function toTitle(section: string): string {
+  const words = section.replace(/([a-z0-9])([A-Z])/g, '$1 $2');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Format a value of a change, marking added and removed fields
+ */
+function formatValue(value: any): string {
+  return value === undefined ? '(none)' : String(value);
+}
+
+/**
+ * Format a number with an explicit sign
+ */
+function formatSigned(value: number): string {
+  return value > 0 ? `+${value}` : String(value);
+}
+
+/**
+ * Check whether a value is a nested group of fields
+ */
+function isObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Drop floating-point noise from differences
+ */
+function round(value: number): number {
+  return Number(value.toPrecision(12));
+}
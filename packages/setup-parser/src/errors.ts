@@ -0,0 +1,24 @@
+import { ParseDiagnostic } from './types';
+
+/**
+ * Error thrown by strict parsing when a setup file has problems
+ */
+export class SetupParseError extends Error {
+  /**
+   * Problems found while parsing
+   */
+  public diagnostics: ParseDiagnostic[];
+
+  /**
+   * Create a new SetupParseError
+   * @param diagnostics Problems found while parsing
+   */
+  constructor(diagnostics: ParseDiagnostic[]) {
+    super(
+      `Failed to parse setup: ${diagnostics.length} problem(s) found\n` +
+      diagnostics.map(diagnostic => `- ${diagnostic.message}`).join('\n')
+    );
+    this.name = 'SetupParseError';
+    this.diagnostics = diagnostics;
+  }
+}
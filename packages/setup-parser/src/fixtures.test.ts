@@ -0,0 +1,51 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { createDefaultParser } from './index';
+import { loadCarMappingFile } from './mapping-loader';
+import { analyzeMappingCoverage } from './mapping-coverage';
+
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures');
+const CAR_MAPPINGS_DIR = path.join(__dirname, 'car-mappings');
+
+// Each fixture is named after the mapping file of its car
+const fixtures = fs.readdirSync(FIXTURES_DIR).filter(fileName => fileName.endsWith('.sto')).sort();
+
+describe.each(fixtures)('fixture %s', fileName => {
+  const bytes = fs.readFileSync(path.join(FIXTURES_DIR, fileName));
+  const content = bytes.toString('utf8');
+  const mapping = loadCarMappingFile(path.join(CAR_MAPPINGS_DIR, fileName.replace(/\.sto$/, '.json')));
+  const parser = createDefaultParser();
+
+  it('is parsed with the mapping of its car without problems', () => {
+    const setup = parser.parseBuffer(bytes, { diagnostics: true });
+
+    expect(setup.carId).toBe(mapping.carId);
+    expect(setup.diagnostics).toEqual([]);
+  });
+
+  it('is detected as its car from the content without the CAR entry', () => {
+    const setup = parser.parseString(content.replace(/^CAR=.*\r?\n/m, ''));
+
+    expect(setup.carDetection?.carId).toBe(mapping.carId);
+    expect(setup.carId).toBe(mapping.carId);
+  });
+
+  it('only has keys its mapping reads, and every value survives the round trip', () => {
+    const { rawSetup } = parser.parseString(content);
+    const report = analyzeMappingCoverage(mapping, [{ name: fileName, rawSetup: rawSetup! }]);
+
+    expect(report.coverage).toBe(1);
+    expect(report.roundTripFailures).toEqual([]);
+    for (const section of report.sections) {
+      expect(section.unmapped, `unmapped keys of ${section.section}`).toEqual([]);
+      expect(section.missing, `missing keys of ${section.section}`).toEqual([]);
+    }
+  });
+
+  it('is written back byte for byte', () => {
+    const sto = parser.convertToSto(parser.parseBuffer(bytes));
+
+    expect(Buffer.from(sto, 'utf8')).toEqual(bytes);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { calculateGearing, formatGearing, getGearingSpec, getRpmAtSpeed, getSpeedAtRpm } from './gearing';
+import { createDefaultParser } from './index';
+import { GearingSpec } from './types';
+
+/**
+ * Two gears, whose speeds are easy to check by hand: at 7000 rpm through an
+ * overall ratio of 9, a 300 mm wheel turns 777.8 times a minute, 88 km/h
+ */
+const SPEC: GearingSpec = { ratios: [3, 2], finalDrive: 3, rollingRadius: 300, redline: 7000 };
+
+describe('getSpeedAtRpm and getRpmAtSpeed', () => {
+  it('convert between engine speed and road speed through the overall ratio', () => {
+    expect(getSpeedAtRpm(7000, 9, 300)).toBe(87.965);
+    expect(getRpmAtSpeed(87.965, 9, 300)).toBeCloseTo(7000, 0);
+    expect(getRpmAtSpeed(100, 9, 300)).toBe(7957.747);
+  });
+});
+
+describe('calculateGearing', () => {
+  it('calculates the top speed of each gear at the redline', () => {
+    const analysis = calculateGearing(SPEC);
+
+    expect(analysis.gears).toEqual([
+      { gear: 1, ratio: 3, overallRatio: 9, topSpeed: 87.965 },
+      { gear: 2, ratio: 2, overallRatio: 6, topSpeed: 131.947 }
+    ]);
+    expect(analysis.topSpeed).toBe(131.947);
+  });
+
+  it('drops the engine speed by the ratio of the gears on each upshift', () => {
+    expect(calculateGearing(SPEC).shifts).toEqual([
+      { fromGear: 1, toGear: 2, shiftSpeed: 87.965, rpmAfterShift: 4666.667, rpmDrop: 2333.333 }
+    ]);
+  });
+
+  it('has no top speed without gears', () => {
+    expect(calculateGearing({ ...SPEC, ratios: [] })).toMatchObject({ gears: [], shifts: [], topSpeed: 0 });
+  });
+});
+
+describe('getGearingSpec', () => {
+  it('combines the gearbox with the drivetrain, without a final drive by default', () => {
+    expect(getGearingSpec({ ratios: [3, 2] }, { rollingRadius: 300, redline: 7000 })).toEqual({ ...SPEC, finalDrive: 1 });
+    expect(getGearingSpec({ ratios: [3, 2], finalDrive: 3 }, { rollingRadius: 300, redline: 7000 })).toEqual(SPEC);
+  });
+
+  it('has no gearing without forward gears', () => {
+    expect(getGearingSpec(undefined, { rollingRadius: 300, redline: 7000 })).toBeUndefined();
+    expect(getGearingSpec({ ratios: [] }, { rollingRadius: 300, redline: 7000 })).toBeUndefined();
+  });
+});
+
+describe('formatGearing', () => {
+  it('lists each gear with its top speed and upshift', () => {
+    expect(formatGearing(calculateGearing(SPEC))).toBe(
+      'Gear 1 (3): 88.0 km/h at 7000 rpm, upshift drops to 4667 rpm (-2333)\n' +
+      'Gear 2 (2): 131.9 km/h at 7000 rpm'
+    );
+  });
+});
+
+describe('SetupParser.analyzeGearing', () => {
+  const parser = createDefaultParser();
+
+  it('uses the drivetrain of the car mapping', () => {
+    const analysis = parser.analyzeGearing({ carId: 'bmw_m4_gt3', gearbox: { ratios: [3, 2], finalDrive: 3 } });
+
+    expect(analysis?.spec).toEqual({ ratios: [3, 2], finalDrive: 3, rollingRadius: 347, redline: 7250 });
+  });
+
+  it('has no analysis for cars without drivetrain data or setups without gears', () => {
+    expect(parser.analyzeGearing({ carId: 'unknown_car', gearbox: { ratios: [3, 2] } })).toBeUndefined();
+    expect(parser.analyzeGearing({ carId: 'bmw_m4_gt3' })).toBeUndefined();
+  });
+});
@@ -0,0 +1,102 @@
+import { DrivetrainSpec, Gearbox, GearingAnalysis, GearingSpec, GearShift, GearSpeed } from './types';
+import { round } from './rounding';
+
+/**
+ * Calculate the speed in each gear and the upshift points of a gearbox
+ *
+ * Upshifts are assumed to happen at the redline, so a shift is needed at the
+ * top speed of the gear and the engine drops to the speed of the next gear.
+ * Tire slip and growth are ignored.
+ * @param spec Gear ratios, final drive, tire rolling radius and redline
+ * @returns Speed range of each gear and the upshifts between them
+ */
+export function calculateGearing(spec: GearingSpec): GearingAnalysis {
+  const gears: GearSpeed[] = spec.ratios.map((ratio, index) => {
+    const overallRatio = ratio * spec.finalDrive;
+
+    return {
+      gear: index + 1,
+      ratio,
+      overallRatio,
+      topSpeed: getSpeedAtRpm(spec.redline, overallRatio, spec.rollingRadius)
+    };
+  });
+
+  const shifts: GearShift[] = gears.slice(0, -1).map((gear, index) => {
+    const next = gears[index + 1];
+    const rpmAfterShift = spec.redline * next.overallRatio / gear.overallRatio;
+
+    return {
+      fromGear: gear.gear,
+      toGear: next.gear,
+      shiftSpeed: gear.topSpeed,
+      rpmAfterShift: round(rpmAfterShift),
+      rpmDrop: round(spec.redline - rpmAfterShift)
+    };
+  });
+
+  return {
+    spec,
+    gears,
+    shifts,
+    topSpeed: gears.length > 0 ? gears[gears.length - 1].topSpeed : 0
+  };
+}
+
+/**
+ * Combine the gearbox of a setup with the drivetrain of its car
+ * @param gearbox Gearbox settings of the setup
+ * @param drivetrain Drivetrain data of the car mapping
+ * @returns Gearing, or undefined if the gearbox has no forward gears
+ */
+export function getGearingSpec(gearbox: Gearbox | undefined, drivetrain: DrivetrainSpec): GearingSpec | undefined {
+  if (!gearbox || gearbox.ratios.length === 0) return undefined;
+
+  return {
+    ratios: gearbox.ratios,
+    finalDrive: gearbox.finalDrive ?? 1,
+    rollingRadius: drivetrain.rollingRadius,
+    redline: drivetrain.redline
+  };
+}
+
+/**
+ * Calculate the road speed for an engine speed
+ * @param rpm Engine speed in rpm
+ * @param overallRatio Gear ratio times final drive
+ * @param rollingRadius Rolling radius of the driven tires in mm
+ * @returns Speed in km/h
+ */
+export function getSpeedAtRpm(rpm: number, overallRatio: number, rollingRadius: number): number {
+  // Wheel turns per minute times the circumference in km, per hour
+  const wheelRpm = rpm / overallRatio;
+  return round(wheelRpm * 2 * Math.PI * rollingRadius / 1e6 * 60);
+}
+
+/**
+ * Calculate the engine speed for a road speed
+ * @param speed Speed in km/h
+ * @param overallRatio Gear ratio times final drive
+ * @param rollingRadius Rolling radius of the driven tires in mm
+ * @returns Engine speed in rpm
+ */
+export function getRpmAtSpeed(speed: number, overallRatio: number, rollingRadius: number): number {
+  const wheelRpm = speed * 1e6 / 60 / (2 * Math.PI * rollingRadius);
+  return round(wheelRpm * overallRatio);
+}
+
+/**
+ * Format a gearing analysis as human-readable text
+ * @param analysis Result of calculateGearing
+ * @returns One line per gear with its top speed and the upshift into the next gear
+ */
+export function formatGearing(analysis: GearingAnalysis): string {
+  return analysis.gears.map((gear, index) => {
+    const shift = analysis.shifts[index];
+    const line = `Gear ${gear.gear} (${gear.ratio}): ${gear.topSpeed.toFixed(1)} km/h at ${analysis.spec.redline} rpm`;
+
+    return shift
+      ? `${line}, upshift drops to ${Math.round(shift.rpmAfterShift)} rpm (-${Math.round(shift.rpmDrop)})`
+      : line;
+  }).join('\n');
+}
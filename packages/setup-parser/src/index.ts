@@ -1,27 +1,77 @@
 // Export types
 export * from './types';
 
-// Export parser
+// Export parser and its errors
 export * from './parser';
+export * from './errors';
 
-// Export car mappings
-export * from './car-mappings/ferrari-488-gt3';
-export * from './car-mappings/porsche-911-gt3r';
+// Export per-corner helpers
+export * from './corners';
+
+// Export INI-like and binary .sto readers
+export * from './ini-sto';
+export * from './binary-sto';
+
+// Export HTML setup sheet reader
+export * from './setup-sheet';
+
+// Export units and conversions
+export * from './units';
+
+// Export legal range helpers
+export * from './ranges';
+
+// Export gearing calculator, derived metrics and aero maps
+export * from './gearing';
+export * from './derived-metrics';
+export * from './aero-map';
+
+// Export setup diff and merge
+export * from './diff';
+export * from './merge';
+
+// Export car mapping loading and the bundled car mappings
+export * from './mapping-loader';
+export * from './car-mappings';
+
+// Export mapping coverage report
+export * from './mapping-coverage';
+
+// Export track registry and the bundled tracks
+export * from './track-registry';
+export * from './tracks';
 
 // Re-export specific instances for convenience
 import { SetupParser } from './parser';
-import { ferrari488GT3Mapping } from './car-mappings/ferrari-488-gt3';
-import { porsche911GT3RMapping } from './car-mappings/porsche-911-gt3r';
+import { bundledCarMappings } from './car-mappings';
+import { listCarMappingFiles, loadCarMappingFile } from './mapping-loader';
+
+/**
+ * Options for createDefaultParser
+ */
+export interface DefaultParserOptions {
+  // Directory with user car mapping files (.json, .yaml, .yml), which take
+  // precedence over the bundled mappings for the same car
+  userMappingsDir?: string;
+}
 
 /**
  * Create a default parser with all available car mappings
+ * @param options Parser options
  */
-export function createDefaultParser(): SetupParser {
-  const parser = new SetupParser([
-    ferrari488GT3Mapping,
-    porsche911GT3RMapping,
-    // Add more car mappings here as they are implemented
-  ]);
+export function createDefaultParser(options: DefaultParserOptions = {}): SetupParser {
+  const parser = new SetupParser(bundledCarMappings);
+  
+  if (options.userMappingsDir) {
+    for (const filePath of listCarMappingFiles(options.userMappingsDir)) {
+      // A broken user mapping shouldn't prevent parsing setups of other cars
+      try {
+        parser.registerCarMapping(loadCarMappingFile(filePath));
+      } catch (error) {
+        console.error('Error loading car mapping:', error);
+      }
+    }
+  }
   
   return parser;
 }
@@ -29,21 +79,45 @@ export function createDefaultParser(): SetupParser {
 /**
  * Parse a .sto file from a file path using the default parser
  * @param filePath Path to the .sto file
+ * @param options Parse options
+ * @returns Parsed setup data
+ */
+export function parseSetupFile(filePath: string, options?: import('./types').ParseOptions) {
+  const parser = createDefaultParser();
+  return parser.parseFile(filePath, options);
+}
+
+/**
+ * Parse a .sto file content from its bytes using the default parser
+ * @param content Raw bytes of the .sto file (binary or INI-like)
+ * @param options Parse options
  * @returns Parsed setup data
  */
-export function parseSetupFile(filePath: string) {
+export function parseSetupBuffer(content: Uint8Array, options?: import('./types').ParseOptions) {
   const parser = createDefaultParser();
-  return parser.parseFile(filePath);
+  return parser.parseBuffer(content, options);
 }
 
 /**
  * Parse a .sto file content from a string using the default parser
  * @param content Content of the .sto file
+ * @param options Parse options
+ * @returns Parsed setup data
+ */
+export function parseSetupString(content: string, options?: import('./types').ParseOptions) {
+  const parser = createDefaultParser();
+  return parser.parseString(content, options);
+}
+
+/**
+ * Parse an HTML setup sheet exported from the iRacing garage using the default parser
+ * @param html Content of the setup sheet
+ * @param carId Car identifier, detected from the sheet title when omitted
  * @returns Parsed setup data
  */
-export function parseSetupString(content: string) {
+export function parseHtmlSetupSheet(html: string, carId?: string) {
   const parser = createDefaultParser();
-  return parser.parseString(content);
+  return parser.parseHtmlSetupSheet(html, carId);
 }
 
 /**
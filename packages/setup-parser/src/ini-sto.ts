@@ -0,0 +1,232 @@
+import * as ini from 'ini';
+import { SetupFile, SetupFileLine } from './types';
+
+/**
+ * Content of an INI-like .sto file, before header extraction
+ */
+export interface IniStoContents {
+  // Top-level entries (VERSION, CAR, TRACK, TIMESTAMP, ...)
+  rootValues: Record<string, string | number | boolean>;
+
+  // Sections with their entries, in file order
+  sections: SetupFile['sections'];
+
+  // Original text layout
+  layout: NonNullable<SetupFile['layout']>;
+}
+
+/**
+ * Matches `[SECTION]` lines and `KEY=value` lines, the same way as ini.parse
+ */
+const LINE_PATTERN = /^\[([^\]]*)\]\s*$|^([^=]+)(=(.*))?$/;
+
+/**
+ * Decode the bytes of an INI-like .sto file to text
+ *
+ * Files are UTF-8 (with or without BOM), UTF-16 when saved by some Windows
+ * editors (with BOM, or recognized by the NUL byte of each ASCII character),
+ * or latin1 when saved by older tools.
+ * @param bytes File content
+ * @returns Content of the file, without BOM
+ */
+export function decodeIniSto(bytes: Uint8Array): string {
+  if ((bytes[0] === 0xff && bytes[1] === 0xfe) || (bytes[0] !== 0 && bytes[1] === 0)) {
+    return new TextDecoder('utf-16le').decode(bytes);
+  }
+  if ((bytes[0] === 0xfe && bytes[1] === 0xff) || (bytes[0] === 0 && bytes[1] !== 0)) {
+    return new TextDecoder('utf-16be').decode(bytes);
+  }
+
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    // Not valid UTF-8 as soon as a latin1 file has an accent
+    return new TextDecoder('latin1').decode(bytes);
+  }
+}
+
+/**
+ * Read an INI-like .sto file while keeping the order and layout of its lines
+ * @param content Content of the .sto file
+ * @returns Entries, sections and layout of the file
+ */
+export function readIniSto(content: string): IniStoContents {
+  const lineEnding = content.includes('\r\n') ? '\r\n' : '\n';
+  const rootValues: IniStoContents['rootValues'] = {};
+  const sections: IniStoContents['sections'] = {};
+  const lines: SetupFileLine[] = [];
+
+  let currentSection: string | null = null;
+
+  for (const raw of content.split(/\r?\n/)) {
+    const match = isCommentOrBlank(raw) ? null : raw.match(LINE_PATTERN);
+
+    if (!match) {
+      lines.push({ type: 'other', raw });
+      continue;
+    }
+
+    if (match[1] !== undefined) {
+      currentSection = ini.unsafe(match[1]) as string;
+      sections[currentSection] = sections[currentSection] || {};
+      lines.push({ type: 'section', name: currentSection, raw });
+      continue;
+    }
+
+    const key = ini.unsafe(match[2]) as string;
+    const value = match[3] ? decodeValue(match[4]) : true;
+
+    if (currentSection === null) {
+      rootValues[key] = value;
+    } else {
+      sections[currentSection][key] = value;
+    }
+
+    lines.push({ type: 'entry', section: currentSection, key, raw });
+  }
+
+  return { rootValues, sections, layout: { lines, lineEnding } };
+}
+
+/**
+ * Write a raw setup as an INI-like .sto file
+ *
+ * When the setup keeps the layout of the file it was read from, lines whose
+ * value did not change are written back verbatim, removed entries are dropped,
+ * and new entries are appended to the end of their section.
+ * @param rawSetup Raw setup data
+ * @returns .sto file content as a string
+ */
+export function writeIniSto(rawSetup: SetupFile): string {
+  const rootValues = rawSetup.rootValues || {
+    VERSION: rawSetup.header.version,
+    CAR: rawSetup.header.carIdentifier,
+    TRACK: rawSetup.header.trackIdentifier,
+    ...(rawSetup.header.timestamp ? { TIMESTAMP: rawSetup.header.timestamp } : {})
+  };
+
+  if (!rawSetup.layout) {
+    const output: string[] = [];
+
+    for (const key in rootValues) {
+      output.push(formatEntry(key, rootValues[key]));
+    }
+
+    for (const sectionName in rawSetup.sections) {
+      output.push('', `[${ini.safe(sectionName)}]`);
+      for (const key in rawSetup.sections[sectionName]) {
+        output.push(formatEntry(key, rawSetup.sections[sectionName][key]));
+      }
+    }
+
+    return output.join('\n') + '\n';
+  }
+
+  const { lines, lineEnding } = rawSetup.layout;
+  const output: string[] = [];
+  const written = new Set<string>();
+  const writtenSections = new Set<string>();
+
+  // Entries that are not part of the original layout yet
+  const appendMissing = (sectionName: string | null) => {
+    const values = sectionName === null ? rootValues : rawSetup.sections[sectionName] || {};
+    const missing = Object.keys(values).filter(key => !written.has(entryId(sectionName, key)));
+    if (missing.length === 0) return;
+
+    // Keep blank lines separating sections after the new entries
+    let insertAt = output.length;
+    while (insertAt > 0 && output[insertAt - 1].trim() === '') {
+      insertAt--;
+    }
+
+    const entries = missing.map(key => {
+      written.add(entryId(sectionName, key));
+      return formatEntry(key, values[key]);
+    });
+    output.splice(insertAt, 0, ...entries);
+  };
+
+  let currentSection: string | null = null;
+
+  for (const line of lines) {
+    if (line.type === 'section') {
+      appendMissing(currentSection);
+      currentSection = line.name;
+
+      // Sections removed from the setup are dropped together with their entries
+      if (!rawSetup.sections[line.name]) continue;
+
+      writtenSections.add(line.name);
+      output.push(line.raw);
+      continue;
+    }
+
+    if (line.type === 'other') {
+      if (currentSection === null || rawSetup.sections[currentSection]) {
+        output.push(line.raw);
+      }
+      continue;
+    }
+
+    const values = line.section === null ? rootValues : rawSetup.sections[line.section];
+    if (!values || !(line.key in values) || written.has(entryId(line.section, line.key))) continue;
+
+    written.add(entryId(line.section, line.key));
+
+    const original = LINE_PATTERN.exec(line.raw);
+    const originalValue = original && original[3] ? decodeValue(original[4]) : true;
+    const value = values[line.key];
+
+    if (value === originalValue) {
+      output.push(line.raw);
+    } else {
+      // Keep the original key and spacing around '=' and only replace the value
+      const prefix = line.raw.match(/^[^=]*=\s*/);
+      output.push(prefix ? prefix[0] + ini.safe(String(value)) : formatEntry(line.key, value));
+    }
+  }
+
+  appendMissing(currentSection);
+
+  // Sections that did not exist in the original file
+  for (const sectionName in rawSetup.sections) {
+    if (writtenSections.has(sectionName)) continue;
+
+    output.push(`[${ini.safe(sectionName)}]`);
+    appendMissing(sectionName);
+    output.push('');
+  }
+
+  return output.join(lineEnding);
+}
+
+/**
+ * Decode a raw INI value the same way as ini.parse
+ */
+function decodeValue(rawValue: string | undefined): string | boolean {
+  const value = ini.unsafe(rawValue) as string;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return value;
+}
+
+/**
+ * Format a single `KEY=value` line
+ */
+function formatEntry(key: string, value: string | number | boolean): string {
+  return `${ini.safe(key)}=${ini.safe(String(value))}`;
+}
+
+/**
+ * Check whether a line is a comment or only whitespace
+ */
+function isCommentOrBlank(line: string): boolean {
+  return /^\s*([;#]|$)/.test(line);
+}
+
+/**
+ * Unique identifier of an entry across sections
+ */
+function entryId(sectionName: string | null, key: string): string {
+  return `${sectionName === null ? '' : sectionName}\u0000${key}`;
+}
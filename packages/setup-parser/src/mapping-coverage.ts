@@ -0,0 +1,135 @@
+import {
+  CarMappingConfig,
+  MappingCoverageReport,
+  MappingCoverageSample,
+  RoundTripFailure,
+  SectionCoverage
+} from './types';
+import { STRING_SETUP_FIELDS } from './parser';
+
+/**
+ * Relative difference below which a round-tripped number counts as unchanged
+ */
+const ROUND_TRIP_TOLERANCE = 1e-9;
+
+/**
+ * Keys the parser reads itself rather than through a car mapping (the setup name)
+ */
+const PARSER_KEYS: Record<string, string[]> = { SETUPS: ['ACTIVE'] };
+
+/**
+ * Check which keys of sample .sto files a car mapping reads
+ *
+ * Keys the mapping doesn't read are silently kept as additionalSettings when
+ * parsing, so a new mapping can look complete while it ignores settings of
+ * the car. Every mapped value of the samples is also converted to the
+ * structured setup and back, to find transforms that lose precision or don't
+ * invert each other.
+ * @param mapping Car mapping to check
+ * @param samples Raw setups of the car
+ * @returns Mapped, unmapped and missing keys per section and the values that don't survive a round trip
+ */
+export function analyzeMappingCoverage(mapping: CarMappingConfig, samples: MappingCoverageSample[]): MappingCoverageReport {
+  const sectionNames = new Set(Object.keys(mapping.fieldMappings));
+  for (const sample of samples) {
+    Object.keys(sample.rawSetup.sections).forEach(section => sectionNames.add(section));
+  }
+
+  let mappedKeyCount = 0;
+  let sampleKeyCount = 0;
+
+  const sections = [...sectionNames].sort().map((section): SectionCoverage => {
+    const mappingKeys = new Set(Object.values(mapping.fieldMappings[section] || {}));
+    const sampleKeys = new Set(samples
+      .flatMap(sample => Object.keys(sample.rawSetup.sections[section] || {}))
+      .filter(key => !PARSER_KEYS[section]?.includes(key)));
+    const inEverySample = (key: string) => samples.every(sample => sample.rawSetup.sections[section]?.[key] !== undefined);
+
+    mappedKeyCount += [...sampleKeys].filter(key => mappingKeys.has(key)).length;
+    sampleKeyCount += sampleKeys.size;
+
+    return {
+      section,
+      mapped: [...mappingKeys].filter(inEverySample).sort(),
+      unmapped: [...sampleKeys].filter(key => !mappingKeys.has(key)).sort(),
+      missing: [...mappingKeys].filter(key => !inEverySample(key)).sort()
+    };
+  });
+
+  return {
+    carId: mapping.carId,
+    carName: mapping.carName,
+    files: samples.map(sample => sample.name),
+    sections,
+    roundTripFailures: samples.flatMap(sample => findRoundTripFailures(mapping, sample)),
+    coverage: sampleKeyCount > 0 ? mappedKeyCount / sampleKeyCount : 0
+  };
+}
+
+/**
+ * Convert the mapped values of a sample to the structured setup and back
+ * @param mapping Car mapping to check
+ * @param sample Raw setup of the car
+ * @returns Values that change or can't be converted
+ */
+function findRoundTripFailures(mapping: CarMappingConfig, sample: MappingCoverageSample): RoundTripFailure[] {
+  const failures: RoundTripFailure[] = [];
+
+  for (const [section, sectionMapping] of Object.entries(mapping.fieldMappings)) {
+    for (const [field, key] of Object.entries(sectionMapping)) {
+      const rawValue = sample.rawSetup.sections[section]?.[key];
+      if (rawValue === undefined || STRING_SETUP_FIELDS.includes(field)) continue;
+
+      const failure = { file: sample.name, section, key, field, rawValue };
+      const rawNumber = typeof rawValue === 'number' ? rawValue : parseFloat(String(rawValue));
+      if (isNaN(rawNumber)) {
+        failures.push({ ...failure, reason: 'not a number' });
+        continue;
+      }
+
+      // Same conversions as the parser: the transform if there is one, otherwise the number as is
+      const transformation = mapping.valueTransformations?.[field];
+      let roundTripValue: any;
+      try {
+        roundTripValue = transformation ? transformation.toRaw(transformation.fromRaw(rawValue)) : rawNumber;
+      } catch (error) {
+        failures.push({ ...failure, reason: error instanceof Error ? error.message : String(error) });
+        continue;
+      }
+
+      const roundTripNumber = Number(roundTripValue);
+      const tolerance = ROUND_TRIP_TOLERANCE * Math.max(1, Math.abs(rawNumber));
+      if (isNaN(roundTripNumber) || Math.abs(roundTripNumber - rawNumber) > tolerance) {
+        failures.push({ ...failure, roundTripValue, reason: `changes to ${roundTripValue}` });
+      }
+    }
+  }
+
+  return failures;
+}
+
+/**
+ * Format a mapping coverage report as human-readable text
+ * @param report Mapping coverage report
+ * @returns Sections with their unmapped and missing keys, followed by the round trip failures
+ */
+export function formatMappingCoverage(report: MappingCoverageReport): string {
+  const lines = [
+    `${report.carName} (${report.carId}): ${Math.round(report.coverage * 100)}% of the keys of ${report.files.length} sample(s) mapped`
+  ];
+
+  for (const section of report.sections) {
+    lines.push(`[${section.section}] ${section.mapped.length} mapped, ${section.unmapped.length} unmapped, ${section.missing.length} missing`);
+    if (section.unmapped.length > 0) lines.push(`  unmapped: ${section.unmapped.join(', ')}`);
+    if (section.missing.length > 0) lines.push(`  missing: ${section.missing.join(', ')}`);
+  }
+
+  if (report.roundTripFailures.length > 0) {
+    lines.push(`${report.roundTripFailures.length} value(s) don't survive a round trip:`);
+    for (const failure of report.roundTripFailures) {
+      lines.push(`  ${failure.file}: ${failure.section}.${failure.key} (${failure.field}) ${failure.rawValue} ${failure.reason}`);
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,146 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Ajv from 'ajv';
+import { parse as parseYaml } from 'yaml';
+import { CarMappingConfig, CarMappingDefinition, ValueTransform } from './types';
+import { Unit, convertUnit, getFieldUnit, getUnitQuantity } from './units';
+import { findAeroMapErrors } from './aero-map';
+import carMappingSchema from './car-mappings/car-mapping.schema.json';
+
+/**
+ * File extensions recognized as car mapping files
+ */
+export const CAR_MAPPING_FILE_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+const ajv = new Ajv({ allErrors: true });
+const validateDefinition = ajv.compile<CarMappingDefinition>(carMappingSchema);
+
+/**
+ * Validate a car mapping definition against the car mapping schema
+ * @param definition Parsed content of a mapping file
+ * @param source Description of where the definition comes from, used in error messages
+ * @returns The definition, typed
+ */
+export function validateCarMappingDefinition(definition: unknown, source: string = 'car mapping'): CarMappingDefinition {
+  if (!validateDefinition(definition)) {
+    throw new Error(`Invalid ${source}: ${ajv.errorsText(validateDefinition.errors, { dataVar: 'mapping' })}`);
+  }
+
+  return definition;
+}
+
+/**
+ * Compile a declarative car mapping into the configuration used by SetupParser
+ * @param definition Validated car mapping definition
+ * @returns Car mapping configuration
+ */
+export function compileCarMapping(definition: CarMappingDefinition): CarMappingConfig {
+  const valueTransformations: NonNullable<CarMappingConfig['valueTransformations']> = {};
+  const units = definition.units || {};
+
+  for (const fieldPath of new Set([...Object.keys(definition.transforms || {}), ...Object.keys(units)])) {
+    const unit = units[fieldPath];
+    const fieldUnit = getFieldUnit(fieldPath);
+
+    if (unit && (!fieldUnit || getUnitQuantity(unit) !== getUnitQuantity(fieldUnit))) {
+      throw new Error(`Invalid car mapping ${definition.carId}: ${fieldPath} can't be measured in ${unit}`);
+    }
+
+    valueTransformations[fieldPath] = compileTransform(definition.transforms?.[fieldPath], unit, fieldUnit);
+  }
+
+  const aeroMapErrors = definition.aeroMap ? findAeroMapErrors(definition.aeroMap) : [];
+  if (aeroMapErrors.length > 0) {
+    throw new Error(`Invalid car mapping ${definition.carId}: aero map ${aeroMapErrors.join(', ')}`);
+  }
+
+  return {
+    carId: definition.carId,
+    carName: definition.carName,
+    fieldMappings: definition.fieldMappings,
+    ...(definition.setupSheetMappings ? { setupSheetMappings: definition.setupSheetMappings } : {}),
+    units,
+    ...(definition.ranges ? { ranges: definition.ranges } : {}),
+    ...(definition.optionalFields ? { optionalFields: definition.optionalFields } : {}),
+    ...(definition.drivetrain ? { drivetrain: definition.drivetrain } : {}),
+    ...(definition.carSpec ? { carSpec: definition.carSpec } : {}),
+    ...(definition.aeroMap ? { aeroMap: definition.aeroMap } : {}),
+    valueTransformations
+  };
+}
+
+/**
+ * Read and validate a car mapping definition from a JSON or YAML file, without compiling it
+ * @param filePath Path to the mapping file
+ * @returns Car mapping definition
+ */
+export function readCarMappingFile(filePath: string): CarMappingDefinition {
+  const content = fs.readFileSync(filePath, 'utf8');
+
+  let definition: unknown;
+  try {
+    definition = path.extname(filePath).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new Error(`Failed to read car mapping ${filePath}: ${(error as Error).message}`);
+  }
+
+  return validateCarMappingDefinition(definition, `car mapping ${filePath}`);
+}
+
+/**
+ * Load a car mapping from a JSON or YAML file
+ * @param filePath Path to the mapping file
+ * @returns Car mapping configuration
+ */
+export function loadCarMappingFile(filePath: string): CarMappingConfig {
+  return compileCarMapping(readCarMappingFile(filePath));
+}
+
+/**
+ * List the car mapping files of a directory, in name order
+ * @param directory Directory containing mapping files
+ * @returns Paths of the mapping files, empty if the directory doesn't exist
+ */
+export function listCarMappingFiles(directory: string): string[] {
+  if (!fs.existsSync(directory)) return [];
+
+  return fs.readdirSync(directory)
+    .filter(fileName =>
+      CAR_MAPPING_FILE_EXTENSIONS.includes(path.extname(fileName).toLowerCase()) &&
+      !fileName.endsWith('.schema.json')
+    )
+    .sort()
+    .map(fileName => path.join(directory, fileName));
+}
+
+/**
+ * Load every car mapping file of a directory
+ * @param directory Directory containing mapping files
+ * @returns Car mapping configurations
+ */
+export function loadCarMappingsFromDirectory(directory: string): CarMappingConfig[] {
+  return listCarMappingFiles(directory).map(loadCarMappingFile);
+}
+
+/**
+ * Turn a declarative transform and the raw unit of a field into raw <-> structured conversion functions
+ */
+function compileTransform(transform: ValueTransform = {}, unit?: Unit, fieldUnit?: Unit) {
+  const { negate = false, scale = 1, offset = 0 } = transform;
+  const sign = negate ? -1 : 1;
+
+  const toFieldUnit = (value: number) => unit && fieldUnit ? convertUnit(value, unit, fieldUnit) : value;
+  const toRawUnit = (value: number) => unit && fieldUnit ? convertUnit(value, fieldUnit, unit) : value;
+
+  return {
+    fromRaw: (value: any) => toFieldUnit(round(sign * parseFloat(value) * scale + offset)),
+    toRaw: (value: any) => round(sign * (toRawUnit(value) - offset) / scale)
+  };
+}
+
+/**
+ * Drop floating-point noise introduced by scaling
+ */
+function round(value: number): number {
+  return Number(value.toPrecision(12));
+}
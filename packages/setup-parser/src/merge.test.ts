@@ -0,0 +1,130 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { mergeSetups, resolveMergeConflict } from './merge';
+import { createDefaultParser } from './index';
+import { ParsedSetup } from './types';
+
+const FIXTURE = path.join(__dirname, '..', 'fixtures', 'bmw-m4-gt3.sto');
+
+/**
+ * Parse the BMW fixture, a per-corner setup
+ */
+function parseFixture(): ParsedSetup {
+  return createDefaultParser().parseString(fs.readFileSync(FIXTURE, 'utf8'));
+}
+
+describe('mergeSetups', () => {
+  it('takes changes made on one side only from that side', () => {
+    const base = parseFixture();
+    const ours = parseFixture();
+    const theirs = parseFixture();
+    ours.brakeBias = base.brakeBias + 1;
+    theirs.tirePressures.rearLeft = base.tirePressures.rearLeft + 2;
+
+    const result = mergeSetups(base, ours, theirs);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.mergedPaths).toEqual(['tirePressures.rearLeft']);
+    expect(result.setup.brakeBias).toBe(base.brakeBias + 1);
+    expect(result.setup.tirePressures.rearLeft).toBe(base.tirePressures.rearLeft + 2);
+  });
+
+  it('reports different changes of the same parameter as a conflict, keeping our value', () => {
+    const base = parseFixture();
+    const ours = parseFixture();
+    const theirs = parseFixture();
+    ours.brakeBias = 55;
+    theirs.brakeBias = 53;
+
+    const result = mergeSetups(base, ours, theirs);
+
+    expect(result.conflicts).toEqual([{ path: 'brakeBias', baseValue: base.brakeBias, oursValue: 55, theirsValue: 53 }]);
+    expect(result.setup.brakeBias).toBe(55);
+  });
+
+  it('accepts the same change on both sides, within the tolerance', () => {
+    const base = parseFixture();
+    const ours = parseFixture();
+    const theirs = parseFixture();
+    ours.brakeBias = 55;
+    theirs.brakeBias = 55.01;
+
+    expect(mergeSetups(base, ours, theirs).conflicts).toHaveLength(1);
+    expect(mergeSetups(base, ours, theirs, { tolerance: 0.05 }).conflicts).toEqual([]);
+  });
+
+  it('merges edits of different corners of an axle without conflict', () => {
+    const base = parseFixture();
+    const ours = parseFixture();
+    const theirs = parseFixture();
+    ours.corners!.frontLeft.camber = -4.2;
+    theirs.corners!.frontRight.camber = -3.2;
+
+    const result = mergeSetups(base, ours, theirs);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.setup.corners!.frontLeft.camber).toBe(-4.2);
+    expect(result.setup.corners!.frontRight.camber).toBe(-3.2);
+    expect(result.setup.suspension.front.camber).toBeCloseTo(-3.7, 9);
+  });
+
+  it('merges an axle edit of one side as an edit of both corners', () => {
+    const base = parseFixture();
+    const ours = parseFixture();
+    const theirs = parseFixture();
+    theirs.suspension.rear.rideHeight = base.suspension.rear.rideHeight + 2;
+    ours.corners!.rearLeft.rideHeight = base.corners!.rearLeft.rideHeight + 2;
+
+    const result = mergeSetups(base, ours, theirs);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.mergedPaths).toEqual(['corners.rearRight.rideHeight']);
+    expect(result.setup.corners!.rearRight.rideHeight).toBe(base.corners!.rearRight.rideHeight + 2);
+  });
+});
+
+describe('resolveMergeConflict', () => {
+  /**
+   * Merge with a conflicting brake bias
+   */
+  function mergeWithConflict() {
+    const base = parseFixture();
+    const ours = parseFixture();
+    const theirs = parseFixture();
+    ours.brakeBias = 55;
+    theirs.brakeBias = 53;
+    theirs.corners!.rearLeft.camber = -2.5;
+    ours.corners!.rearLeft.camber = -2.8;
+    return { base, result: mergeSetups(base, ours, theirs) };
+  }
+
+  it('applies the value of the chosen side and removes the conflict', () => {
+    const { base, result } = mergeWithConflict();
+
+    const theirs = resolveMergeConflict(result, 'brakeBias', 'theirs');
+    expect(theirs.setup.brakeBias).toBe(53);
+    expect(theirs.mergedPaths).toContain('brakeBias');
+    expect(theirs.conflicts.map(conflict => conflict.path)).toEqual(['corners.rearLeft.camber']);
+
+    const original = resolveMergeConflict(result, 'brakeBias', 'base');
+    expect(original.setup.brakeBias).toBe(base.brakeBias);
+    expect(original.mergedPaths).not.toContain('brakeBias');
+  });
+
+  it('keeps the result it was given unchanged and derives the axles again', () => {
+    const { result } = mergeWithConflict();
+
+    const resolved = resolveMergeConflict(result, 'corners.rearLeft.camber', 'theirs');
+
+    expect(result.setup.corners!.rearLeft.camber).toBe(-2.8);
+    expect(resolved.setup.corners!.rearLeft.camber).toBe(-2.5);
+    expect(resolved.setup.suspension.rear.camber).toBeCloseTo((-2.5 + resolved.setup.corners!.rearRight.camber) / 2, 9);
+  });
+
+  it('fails for paths without a conflict', () => {
+    const { result } = mergeWithConflict();
+
+    expect(() => resolveMergeConflict(result, 'wing', 'ours')).toThrow('No merge conflict for wing');
+  });
+});
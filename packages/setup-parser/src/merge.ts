@@ -0,0 +1,137 @@
+import { ParsedSetup, SetupMergeConflict, SetupMergeOptions, SetupMergeResult, SetupMergeSide } from './types';
+import { applyAxleEditsToCorners, deriveAxlesFromCorners, getCornerDerivedAxlePaths } from './corners';
+import { diffSetups } from './diff';
+
+/**
+ * Merge the changes two setups made to a common baseline
+ *
+ * Parameters changed on one side only are taken from that side. Parameters
+ * changed to different values on both sides are reported as conflicts and keep
+ * our value until resolved with resolveMergeConflict. Per-corner setups are
+ * merged corner by corner, so edits to the left and right side don't conflict.
+ * @param base Common baseline setup
+ * @param ours Our setup, whose raw .sto data and metadata the merged setup keeps
+ * @param theirs Their setup
+ * @param options Merge options
+ * @returns Merged setup and the conflicts left to resolve
+ */
+export function mergeSetups(
+  base: ParsedSetup,
+  ours: ParsedSetup,
+  theirs: ParsedSetup,
+  options: SetupMergeOptions = {}
+): SetupMergeResult {
+  const { tolerance = 1e-9 } = options;
+  const [baseSetup, oursSetup, theirsSetup] = [base, ours, theirs].map(normalizeSetup);
+
+  // Axle values of per-corner setups are averages, so they'd conflict on edits of different corners
+  const ignore = baseSetup.corners || oursSetup.corners || theirsSetup.corners ? getCornerDerivedAxlePaths() : [];
+
+  const ourChanges = new Map(
+    diffSetups(baseSetup, oursSetup, { tolerance, ignore }).map(change => [change.path, change])
+  );
+
+  const setup = oursSetup;
+  const mergedPaths: string[] = [];
+  const conflicts: SetupMergeConflict[] = [];
+
+  for (const change of diffSetups(baseSetup, theirsSetup, { tolerance, ignore })) {
+    const ourChange = ourChanges.get(change.path);
+
+    if (!ourChange) {
+      setValueAtPath(setup, change.path, change.newValue);
+      mergedPaths.push(change.path);
+    } else if (!isSameValue(ourChange.newValue, change.newValue, tolerance)) {
+      conflicts.push({
+        path: change.path,
+        baseValue: change.oldValue,
+        oursValue: ourChange.newValue,
+        theirsValue: change.newValue
+      });
+    }
+  }
+
+  deriveAxlesFromCorners(setup);
+
+  return { setup, mergedPaths, conflicts };
+}
+
+/**
+ * Resolve a conflict of a merge by picking the value of one side
+ * @param result Result of mergeSetups
+ * @param path Path of the conflicting parameter
+ * @param side Side whose value to keep
+ * @returns Merge result with the value applied and the conflict removed
+ */
+export function resolveMergeConflict(
+  result: SetupMergeResult,
+  path: string,
+  side: SetupMergeSide
+): SetupMergeResult {
+  const conflict = result.conflicts.find(candidate => candidate.path === path);
+  if (!conflict) {
+    throw new Error(`No merge conflict for ${path}`);
+  }
+
+  const values: Record<SetupMergeSide, any> = {
+    base: conflict.baseValue,
+    ours: conflict.oursValue,
+    theirs: conflict.theirsValue
+  };
+
+  const setup: ParsedSetup = JSON.parse(JSON.stringify(result.setup));
+  setValueAtPath(setup, path, values[side]);
+  deriveAxlesFromCorners(setup);
+
+  return {
+    setup,
+    mergedPaths: side === 'theirs' ? [...result.mergedPaths, path] : result.mergedPaths,
+    conflicts: result.conflicts.filter(candidate => candidate !== conflict)
+  };
+}
+
+/**
+ * Copy a setup with its axle edits pushed down to the corners, so both views agree
+ */
+function normalizeSetup(setup: ParsedSetup): ParsedSetup {
+  const normalized: ParsedSetup = JSON.parse(JSON.stringify(setup));
+  applyAxleEditsToCorners(normalized);
+  deriveAxlesFromCorners(normalized);
+  return normalized;
+}
+
+/**
+ * Set a value by field path, creating missing groups and arrays and removing the field for undefined
+ */
+function setValueAtPath(setup: ParsedSetup, path: string, value: any): void {
+  const keys = path.split('.');
+  let target: any = setup;
+
+  keys.slice(0, -1).forEach((key, index) => {
+    if (typeof target[key] !== 'object' || target[key] === null) {
+      target[key] = /^\d+$/.test(keys[index + 1]) ? [] : {};
+    }
+    target = target[key];
+  });
+
+  const field = keys[keys.length - 1];
+  if (value === undefined && Array.isArray(target)) {
+    // Removed array items are always at the end, a shorter array drops them
+    target.length = Math.min(target.length, Number(field));
+  } else if (value === undefined) {
+    delete target[field];
+  } else {
+    target[field] = value;
+  }
+}
+
+/**
+ * Check whether both sides changed a parameter to the same value
+ */
+function isSameValue(a: any, b: any, tolerance: number): boolean {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return Math.abs(a - b) <= tolerance;
+  }
+
+  return a === b;
+}
@@ -0,0 +1,56 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { createDefaultParser } from './index';
+
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures');
+const text = fs.readFileSync(path.join(FIXTURES_DIR, 'bmw-m4-gt3.sto'), 'utf8');
+const parser = createDefaultParser();
+
+describe('parseBuffer', () => {
+  it('reads a binary file to the same setup as its INI-like counterpart', () => {
+    const binary = parser.parseBuffer(new Uint8Array(fs.readFileSync(path.join(FIXTURES_DIR, 'binary', 'bmw-m4-gt3.sto'))));
+    const ini = parser.parseString(text);
+
+    expect(binary.carId).toBe('bmw_m4_gt3');
+    expect(binary.rawSetup?.format).toBe('binary');
+    expect(ini.rawSetup?.format).toBe('ini');
+    expect(parser.diffSetups(ini, binary)).toEqual([]);
+  });
+
+  it('writes setups read from a binary file as INI-like text', () => {
+    const binary = parser.parseBuffer(fs.readFileSync(path.join(FIXTURES_DIR, 'binary', 'bmw-m4-gt3.sto')));
+    const sto = parser.convertToSto(binary);
+
+    expect(sto).toContain('CAR=bmw_m4_gt3');
+    expect(parser.diffSetups(binary, parser.parseString(sto))).toEqual([]);
+  });
+
+  it.each([
+    ['UTF-8 with BOM', Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from(text, 'utf8')])],
+    ['UTF-16LE with BOM', Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(text, 'utf16le')])],
+    ['UTF-16LE without BOM', Buffer.from(text, 'utf16le')],
+    ['UTF-16BE with BOM', Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(text, 'utf16le')]).swap16()]
+  ])('decodes INI-like files saved as %s', (_, bytes) => {
+    const setup = parser.parseBuffer(bytes);
+
+    expect(setup.carId).toBe('bmw_m4_gt3');
+    expect(setup.rawSetup?.header.version).toBe('3');
+    expect(parser.diffSetups(parser.parseString(text), setup)).toEqual([]);
+  });
+
+  it('falls back to latin1 for files that are not valid UTF-8', () => {
+    const setup = parser.parseBuffer(Buffer.from(text.replace('BMW M4 GT3 Spa baseline', 'Café baseline'), 'latin1'));
+
+    expect(setup.rawSetup?.sections.SETUPS.ACTIVE).toBe('Café baseline');
+  });
+});
+
+describe('parseString', () => {
+  it('refuses binary content decoded as text', () => {
+    const binary = fs.readFileSync(path.join(FIXTURES_DIR, 'binary', 'bmw-m4-gt3.sto'));
+
+    expect(() => parser.parseString(binary.toString('utf8'))).toThrow(/parse the raw bytes with parseBuffer/);
+    expect(() => parser.parseString(binary.toString('latin1'))).toThrow(/parse the raw bytes with parseBuffer/);
+  });
+});
@@ -1,6 +1,138 @@
 import * as fs from 'fs';
-import * as ini from 'ini';
-import { SetupFile, ParsedSetup, CarMappingConfig } from './types';
+import { Setup, validateSetupData } from 'setup-schema';
+import {
+  SetupFile,
+  ParsedSetup,
+  CarMappingConfig,
+  SetupCorners,
+  CornerSettings,
+  DamperSettings,
+  ParseOptions,
+  CarDetectionResult,
+  CarDetectionCandidate,
+  ParameterRange,
+  RangeViolation,
+  SetupChange,
+  SetupDiffOptions,
+  ParseDiagnostic,
+  GearingAnalysis,
+  DerivedMetrics,
+  AeroAnalysis
+} from './types';
+import { isBinarySto, readBinarySto } from './binary-sto';
+import { decodeIniSto, readIniSto, writeIniSto } from './ini-sto';
+import { readSetupSheet, parseSheetValue } from './setup-sheet';
+import {
+  AXLE_CORNERS,
+  completeCorners,
+  deriveAxlesFromCorners,
+  createCornersFromAxles,
+  applyAxleEditsToCorners,
+  getOppositeCornerPath
+} from './corners';
+import { findParameterRange, matchesFieldPattern, snapToRange, validateAgainstRanges } from './ranges';
+import { diffSetups } from './diff';
+import { calculateGearing, getGearingSpec } from './gearing';
+import { computeDerivedMetrics } from './derived-metrics';
+import { analyzeAero } from './aero-map';
+import { SetupParseError } from './errors';
+
+/**
+ * Corner suffixes used by the generic mapping (SPRING_RATE_LF, SPRING_RATE_RF, ...)
+ */
+const GENERIC_CORNER_SUFFIXES: Record<keyof SetupCorners, string> = {
+  frontLeft: 'LF',
+  frontRight: 'RF',
+  rearLeft: 'LR',
+  rearRight: 'RR'
+};
+
+/**
+ * Four-way damper fields of the generic mapping, as raw key and damper field
+ * (HS_BUMP_LF or FRONT_HS_BUMP, ...)
+ */
+const GENERIC_FOUR_WAY_DAMPER_FIELDS: Array<{ key: string; field: keyof DamperSettings }> = [
+  { key: 'HS_BUMP', field: 'highSpeedBump' },
+  { key: 'HS_REBOUND', field: 'highSpeedRebound' },
+  { key: 'HS_BUMP_SLOPE', field: 'bumpSlope' },
+  { key: 'HS_REBOUND_SLOPE', field: 'reboundSlope' }
+];
+
+/**
+ * Per-corner fields of the generic mapping, as raw key prefix and corner field
+ */
+const GENERIC_CORNER_FIELDS: Array<{ key: string; field: string }> = [
+  { key: 'SPRING_RATE', field: 'springRate' },
+  { key: 'RIDE_HEIGHT', field: 'rideHeight' },
+  { key: 'CAMBER', field: 'camber' },
+  { key: 'TOE_IN', field: 'toe' },
+  { key: 'BUMP', field: 'damper.bump' },
+  { key: 'REBOUND', field: 'damper.rebound' },
+  ...GENERIC_FOUR_WAY_DAMPER_FIELDS.map(({ key, field }) => ({ key, field: `damper.${field}` })),
+  { key: 'CORNER_WEIGHT', field: 'cornerWeight' },
+  { key: 'PACKERS', field: 'packers' },
+  { key: 'TORSION_BAR_OD', field: 'torsionBarDiameter' }
+];
+
+/**
+ * Optional fields of the generic mapping, as section, keys the value may be
+ * stored under and structured field. They're only read when the file has them.
+ */
+const GENERIC_OPTIONAL_FIELDS: Array<{ section: string; keys: string[]; path: string }> = [
+  { section: 'TIRE', keys: ['COMPOUND', 'TIRE_COMPOUND'], path: 'tireCompound' },
+  { section: 'BRAKE', keys: ['FRONT_BRAKE_DUCTS', 'BRAKE_DUCT_FRONT'], path: 'cooling.frontBrakeDucts' },
+  { section: 'BRAKE', keys: ['REAR_BRAKE_DUCTS', 'BRAKE_DUCT_REAR'], path: 'cooling.rearBrakeDucts' },
+  { section: 'COOLING', keys: ['RADIATOR', 'RADIATOR_OPENING'], path: 'cooling.radiator' },
+  { section: 'FUEL', keys: ['LEVEL', 'FUEL_LEVEL'], path: 'fuel.level' },
+  { section: 'CHASSIS', keys: ['BALLAST_WEIGHT'], path: 'ballast.weight' },
+  { section: 'CHASSIS', keys: ['BALLAST_POSITION', 'BALLAST'], path: 'ballast.position' },
+  { section: 'CHASSIS', keys: ['CROSS_WEIGHT'], path: 'crossWeight' },
+  { section: 'ELECTRONICS', keys: ['TC', 'TRACTION_CONTROL'], path: 'electronics.tractionControl' },
+  { section: 'ELECTRONICS', keys: ['ABS', 'ABS_MAP'], path: 'electronics.abs' },
+  ...(['front', 'rear'] as const).flatMap(axle => {
+    const prefix = axle.toUpperCase();
+    return [
+      { section: 'SUSPENSION', keys: [`${prefix}_HEAVE_SPRING`, `${prefix}_THIRD_SPRING`], path: `heaveSprings.${axle}.springRate` },
+      { section: 'SUSPENSION', keys: [`${prefix}_HEAVE_PERCH_OFFSET`, `${prefix}_THIRD_PERCH_OFFSET`], path: `heaveSprings.${axle}.perchOffset` },
+      { section: 'SUSPENSION', keys: [`${prefix}_HEAVE_PACKERS`, `${prefix}_THIRD_PACKERS`], path: `heaveSprings.${axle}.packers` }
+    ];
+  })
+];
+
+/**
+ * Structured fields holding text rather than numbers
+ */
+export const STRING_SETUP_FIELDS = ['tireCompound'];
+
+/**
+ * Keys of the final drive ratio in the GEARS section of the generic mapping
+ */
+const GENERIC_FINAL_DRIVE_KEYS = ['FINAL_DRIVE', 'FINAL_DRIVE_RATIO'];
+
+/**
+ * Structured fields every setup should get a value for, reported when a car mapping has no key for them
+ */
+const EXPECTED_SETUP_FIELDS = [
+  'tirePressures.frontLeft',
+  'tirePressures.frontRight',
+  'tirePressures.rearLeft',
+  'tirePressures.rearRight',
+  ...(['front', 'rear'] as const).flatMap(axle => [
+    ...['springRate', 'rideHeight', 'camber', 'toe', 'antiRollBar'].map(field => `suspension.${axle}.${field}`),
+    ...['bump', 'rebound'].map(field => `dampers.${axle}.${field}`)
+  ]),
+  'brakeBias'
+];
+
+/**
+ * Sections of a setup file that hold no setup values
+ */
+const NON_SETUP_SECTIONS = ['SETUPS'];
+
+/**
+ * Minimum confidence for a detected car mapping to be used instead of the generic mapping
+ */
+const CAR_DETECTION_THRESHOLD = 0.6;
 
 /**
  * Parse an iRacing setup file (.sto) into a structured format
@@ -27,27 +159,214 @@ export class SetupParser {
     this.carMappings.set(mapping.carId, mapping);
   }
   
+  /**
+   * Get the registered mapping of a car
+   * @param carId Car identifier
+   * @returns Car mapping, or undefined if none is registered for the car
+   */
+  public getCarMapping(carId: string): CarMappingConfig | undefined {
+    return this.carMappings.get(carId);
+  }
+  
   /**
    * Parse a .sto file from a file path
    * @param filePath Path to the .sto file
+   * @param options Parse options
    * @returns Parsed setup data
    */
-  public parseFile(filePath: string): ParsedSetup {
-    const content = fs.readFileSync(filePath, 'utf8');
-    return this.parseString(content);
+  public parseFile(filePath: string, options: ParseOptions = {}): ParsedSetup {
+    const content = fs.readFileSync(filePath);
+    return this.parseBuffer(content, options);
+  }
+  
+  /**
+   * Parse a .sto file content from its bytes, detecting binary and INI-like files
+   * @param bytes Raw bytes of the .sto file (a Buffer, or a Uint8Array as received over IPC)
+   * @param options Parse options
+   * @returns Parsed setup data
+   */
+  public parseBuffer(bytes: Uint8Array, options: ParseOptions = {}): ParsedSetup {
+    if (isBinarySto(bytes)) {
+      const diagnostics: ParseDiagnostic[] = [];
+      const setup = this.convertToStructured(this.parseBinary(bytes), options.carId, diagnostics);
+      return this.applyDiagnostics(setup, diagnostics, options);
+    }
+    
+    return this.parseText(decodeIniSto(bytes), options);
   }
   
   /**
    * Parse a .sto file content from a string
    * @param content Content of the .sto file
+   * @param options Parse options
    * @returns Parsed setup data
+   * @throws Error if the content is a binary file decoded as text, use parseBuffer with the raw bytes instead
    */
-  public parseString(content: string): ParsedSetup {
+  public parseString(content: string, options: ParseOptions = {}): ParsedSetup {
+    // The bytes of a binary file decoded as text can't be recovered reliably,
+    // guessing the encoding silently corrupts the values
+    if (content.includes('\u0000') || content.includes('\uFFFD')) {
+      throw new Error('Failed to parse .sto file: binary content in a string, parse the raw bytes with parseBuffer');
+    }
+    
+    return this.parseText(content, options);
+  }
+  
+  /**
+   * Parse the content of an INI-like .sto file
+   * @param content Content of the .sto file
+   * @param options Parse options
+   * @returns Parsed setup data
+   */
+  private parseText(content: string, options: ParseOptions): ParsedSetup {
     // Parse the .sto file as INI format
     const rawSetup = this.parseIniString(content);
     
     // Convert the raw setup to a structured format
-    return this.convertToStructured(rawSetup);
+    const diagnostics: ParseDiagnostic[] = [];
+    const setup = this.convertToStructured(rawSetup, options.carId, diagnostics);
+    
+    return this.applyDiagnostics(setup, diagnostics, options);
+  }
+  
+  /**
+   * Handle the problems found while parsing as requested by the parse options
+   * @param setup Structured setup data
+   * @param diagnostics Problems found while parsing
+   * @param options Parse options
+   * @returns The setup, with its diagnostics when requested
+   * @throws SetupParseError in strict mode when there is any problem
+   */
+  private applyDiagnostics(setup: ParsedSetup, diagnostics: ParseDiagnostic[], options: ParseOptions): ParsedSetup {
+    if (options.strict && diagnostics.length > 0) {
+      throw new SetupParseError(diagnostics);
+    }
+    
+    if (options.diagnostics) {
+      setup.diagnostics = diagnostics;
+    }
+    
+    return setup;
+  }
+  
+  /**
+   * Identify the car of a setup file from its content
+   *
+   * Each registered mapping is scored by the share of the file's setup keys
+   * (section and key pairs) it recognizes. A CAR entry that names a registered
+   * car in a different spelling (case, spaces, punctuation) is a certain match.
+   * @param rawSetup Raw setup data
+   * @returns Best matching car and the score of every registered car
+   */
+  public detectCar(rawSetup: SetupFile): CarDetectionResult {
+    // The SETUPS section only holds the setup name, every car has it
+    const fileKeys = new Set<string>();
+    for (const sectionName in rawSetup.sections) {
+      if (sectionName === 'SETUPS') continue;
+      for (const key in rawSetup.sections[sectionName]) {
+        fileKeys.add(`${sectionName}.${key}`);
+      }
+    }
+    
+    const carIdentifier = this.normalizeCarName(rawSetup.header.carIdentifier);
+    
+    const candidates: CarDetectionCandidate[] = [];
+    for (const mapping of this.carMappings.values()) {
+      const mappingKeys = Object.entries(mapping.fieldMappings).flatMap(([sectionName, sectionMapping]) =>
+        Object.values(sectionMapping).map(key => `${sectionName}.${key}`)
+      );
+      const matchedKeys = mappingKeys.filter(key => fileKeys.has(key)).length;
+      
+      const namedInFile = carIdentifier !== '' && (
+        carIdentifier === this.normalizeCarName(mapping.carId) ||
+        carIdentifier === this.normalizeCarName(mapping.carName)
+      );
+      
+      candidates.push({
+        carId: mapping.carId,
+        carName: mapping.carName,
+        confidence: namedInFile ? 1 : fileKeys.size > 0 ? matchedKeys / fileKeys.size : 0,
+        matchedKeys,
+        mappedKeys: mappingKeys.length
+      });
+    }
+    
+    // Best match first, mappings that cover more of their keys win ties
+    candidates.sort((a, b) =>
+      b.confidence - a.confidence ||
+      b.matchedKeys / (b.mappedKeys || 1) - a.matchedKeys / (a.mappedKeys || 1)
+    );
+    
+    const best = candidates[0];
+    return {
+      carId: best && best.confidence >= CAR_DETECTION_THRESHOLD ? best.carId : null,
+      confidence: best ? best.confidence : 0,
+      candidates
+    };
+  }
+  
+  /**
+   * Parse an HTML setup sheet exported from the iRacing garage
+   * @param html Content of the setup sheet
+   * @param carId Car identifier, detected from the sheet title when omitted
+   * @returns Parsed setup data
+   */
+  public parseHtmlSetupSheet(html: string, carId?: string): ParsedSetup {
+    const sheet = readSetupSheet(html);
+    
+    // Find the car mapping, either by id or by the car name in the sheet title
+    let carMapping: CarMappingConfig | undefined;
+    if (carId) {
+      carMapping = this.carMappings.get(carId);
+    } else {
+      const title = sheet.title.join(' ').toLowerCase();
+      for (const mapping of this.carMappings.values()) {
+        if (mapping.setupSheetMappings && title.includes(mapping.carName.toLowerCase())) {
+          carMapping = mapping;
+          break;
+        }
+      }
+    }
+    
+    if (!carMapping?.setupSheetMappings) {
+      throw new Error(`No setup sheet mapping available for car: ${carId || sheet.title[0] || 'unknown'}`);
+    }
+    
+    // The first heading reads "<car name>: <setup name>", the second one is the track
+    const [carTitle = '', trackTitle = ''] = sheet.title;
+    const setupName = carTitle.includes(':') ? carTitle.slice(carTitle.indexOf(':') + 1).trim() : '';
+    
+    const setup = this.createEmptySetup({
+      header: {
+        version: '1.0',
+        carIdentifier: carMapping.carId,
+        trackIdentifier: trackTitle,
+        name: setupName || 'Unnamed Setup'
+      },
+      sections: {}
+    });
+    
+    // Sheet values are display values with units, so car value transformations don't apply
+    for (const sectionName in carMapping.setupSheetMappings) {
+      const sectionMapping = carMapping.setupSheetMappings[sectionName];
+      const sheetSection = sheet.sections[sectionName.toUpperCase()];
+      
+      if (!sheetSection) continue;
+      
+      for (const targetField in sectionMapping) {
+        const displayValue = sheetSection[sectionMapping[targetField]];
+        
+        if (displayValue === undefined) continue;
+        
+        this.setNestedProperty(setup, targetField, parseSheetValue(displayValue));
+      }
+    }
+    
+    // Derive the axle view from per-corner values
+    completeCorners(setup);
+    deriveAxlesFromCorners(setup);
+    
+    return setup;
   }
   
   /**
@@ -57,49 +376,201 @@ export class SetupParser {
    */
   private parseIniString(content: string): SetupFile {
     try {
-      // Parse the content as INI
-      const parsed = ini.parse(content);
+      // Parse the content as INI, keeping the layout for lossless writing
+      const parsed = readIniSto(content);
       
-      // Extract header information
-      const header = {
-        version: parsed.VERSION || '1.0',
-        carIdentifier: parsed.CAR || '',
-        trackIdentifier: parsed.TRACK || '',
-        name: parsed.SETUPS?.ACTIVE || 'Unnamed Setup',
-        timestamp: parsed.TIMESTAMP || new Date().toISOString(),
+      return {
+        ...this.createSetupFile(parsed.rootValues, parsed.sections),
+        format: 'ini',
+        layout: parsed.layout
       };
-      
-      // Remove known header sections
-      delete parsed.VERSION;
-      delete parsed.CAR;
-      delete parsed.TRACK;
-      delete parsed.TIMESTAMP;
-      
-      // The rest are sections
-      const sections: SetupFile['sections'] = {};
-      
-      // Process each section
-      for (const key in parsed) {
-        if (typeof parsed[key] === 'object') {
-          sections[key] = parsed[key];
-        }
-      }
-      
-      return { header, sections };
     } catch (error) {
       console.error('Error parsing .sto file:', error);
       throw new Error('Failed to parse .sto file: ' + (error as Error).message);
     }
   }
   
+  /**
+   * Parse a binary .sto file
+   * @param content Raw bytes of the .sto file
+   * @returns Raw setup data with the same structure as INI files
+   */
+  private parseBinary(content: Uint8Array): SetupFile {
+    try {
+      const decoded = readBinarySto(content);
+      return { ...this.createSetupFile(decoded.rootValues, decoded.sections), format: 'binary' };
+    } catch (error) {
+      console.error('Error parsing binary .sto file:', error);
+      throw new Error('Failed to parse binary .sto file: ' + (error as Error).message);
+    }
+  }
+  
+  /**
+   * Build a raw setup from top-level values and sections
+   * @param rootValues Top-level entries of the file (VERSION, CAR, TRACK, ...)
+   * @param sections Sections of the file
+   * @returns Raw setup data
+   */
+  private createSetupFile(rootValues: Record<string, any>, sections: SetupFile['sections']): SetupFile {
+    // Extract header information
+    const header = {
+      version: String(rootValues.VERSION || '1.0'),
+      carIdentifier: String(rootValues.CAR || ''),
+      trackIdentifier: String(rootValues.TRACK || ''),
+      name: String(sections.SETUPS?.ACTIVE || rootValues.NAME || 'Unnamed Setup'),
+      timestamp: String(rootValues.TIMESTAMP || new Date().toISOString()),
+    };
+    
+    return { header, sections, rootValues };
+  }
+  
+  /**
+   * Get the legal range of a setup parameter for a car
+   *
+   * Axle values of cars with per-corner mappings (e.g. 'suspension.front.camber')
+   * share the range of their corners.
+   * @param carId Car identifier
+   * @param fieldPath Path of the field in the structured setup
+   * @returns Legal range, or undefined if the car's mapping doesn't restrict the field
+   */
+  public getParameterRange(carId: string, fieldPath: string): ParameterRange | undefined {
+    const ranges = this.carMappings.get(carId)?.ranges;
+    const range = findParameterRange(ranges, fieldPath);
+    if (range) return range;
+    
+    const axleField = fieldPath.match(/^(suspension|dampers)\.(front|rear)\.(\w+)$/);
+    if (!axleField) return undefined;
+    
+    const [, group, axle, field] = axleField;
+    const corner = AXLE_CORNERS[axle as 'front' | 'rear'][0];
+    return findParameterRange(ranges, group === 'dampers' ? `corners.${corner}.damper.${field}` : `corners.${corner}.${field}`);
+  }
+  
+  /**
+   * Check the values of a setup against the legal ranges of its car
+   * @param setup Structured setup data
+   * @returns Values the car's garage doesn't accept, empty if all are legal or the car has no ranges
+   */
+  public validateSetup(setup: ParsedSetup): RangeViolation[] {
+    return validateAgainstRanges(setup, this.carMappings.get(setup.carId)?.ranges);
+  }
+  
+  /**
+   * Round a value to the closest value the car's garage accepts
+   * @param carId Car identifier
+   * @param fieldPath Path of the field in the structured setup
+   * @param value Value to round
+   * @returns Closest legal value, or the value itself if the field has no range
+   */
+  public snapToLegal(carId: string, fieldPath: string, value: number): number {
+    const range = this.getParameterRange(carId, fieldPath);
+    return range ? snapToRange(value, range) : value;
+  }
+  
+  /**
+   * Compare two setups, counting changes in garage clicks where the car has legal ranges
+   * @param a First (original) setup
+   * @param b Second (modified) setup
+   * @param options Diff options
+   * @returns Changed fields
+   */
+  public diffSetups(a: ParsedSetup, b: ParsedSetup, options: SetupDiffOptions = {}): SetupChange[] {
+    return diffSetups(a, b, {
+      getRange: fieldPath => this.getParameterRange(b.carId, fieldPath),
+      ...options
+    });
+  }
+  
+  /**
+   * Calculate the speed in each gear and the upshift points of a setup
+   * @param setup Structured setup data
+   * @returns Gearing analysis, or undefined if the setup has no gear ratios or
+   * its car mapping has no drivetrain data
+   */
+  public analyzeGearing(setup: Pick<ParsedSetup, 'carId' | 'gearbox'>): GearingAnalysis | undefined {
+    const drivetrain = this.carMappings.get(setup.carId)?.drivetrain;
+    const spec = drivetrain && getGearingSpec(setup.gearbox, drivetrain);
+    return spec ? calculateGearing(spec) : undefined;
+  }
+  
+  /**
+   * Calculate wheel rates, ride frequencies, roll stiffness, rake and mechanical balance of a setup
+   * @param setup Structured setup data
+   * @returns Derived metrics, or undefined if the car mapping has no car spec
+   */
+  public computeDerivedMetrics(setup: Setup): DerivedMetrics | undefined {
+    const carSpec = this.carMappings.get(setup.carId)?.carSpec;
+    return carSpec ? computeDerivedMetrics(setup, carSpec) : undefined;
+  }
+  
+  /**
+   * Look up the downforce, drag and aero balance of a setup in its car's aero map
+   * @param setup Structured setup data
+   * @returns Aero analysis, or undefined if the car mapping has no aero map or
+   * the setup has no rear wing setting
+   */
+  public analyzeAero(setup: Setup): AeroAnalysis | undefined {
+    const aeroMap = this.carMappings.get(setup.carId)?.aeroMap;
+    return aeroMap ? analyzeAero(setup, aeroMap) : undefined;
+  }
+  
+  /**
+   * Normalize a car identifier or name for comparison ('Ferrari 488 GT3' -> 'ferrari488gt3')
+   * @param name Car identifier or name
+   * @returns Lowercase name without spaces and punctuation
+   */
+  private normalizeCarName(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+  }
+  
   /**
    * Convert a raw setup to a structured format
    * @param rawSetup Raw setup data
+   * @param carId Car mapping to use instead of the CAR entry of the file and car detection
+   * @param diagnostics List to add the problems found while converting to
    * @returns Structured setup data
    */
-  private convertToStructured(rawSetup: SetupFile): ParsedSetup {
+  private convertToStructured(rawSetup: SetupFile, carId?: string, diagnostics: ParseDiagnostic[] = []): ParsedSetup {
     // Initialize the structured setup with default values
-    const setup: ParsedSetup = {
+    const setup = this.createEmptySetup(rawSetup);
+    
+    // Get car mapping if available
+    let carMapping = this.carMappings.get(carId || rawSetup.header.carIdentifier);
+    
+    // Identify the car from the content when CAR is missing or not a registered car id
+    if (!carMapping && !carId) {
+      const detection = this.detectCar(rawSetup);
+      if (detection.carId) {
+        carMapping = this.carMappings.get(detection.carId);
+      }
+      if (detection.candidates.length > 0) {
+        setup.carDetection = detection;
+      }
+    }
+    
+    if (carMapping) {
+      setup.carId = carMapping.carId;
+      
+      // Apply mappings based on the car configuration
+      this.applyCarMapping(setup, rawSetup, carMapping, diagnostics);
+    } else {
+      // Apply generic mappings if no specific car mapping is available
+      this.applyGenericMapping(setup, rawSetup, diagnostics);
+    }
+    
+    // Keep the raw setup so edits can be merged back into the original file
+    setup.rawSetup = rawSetup;
+    
+    return setup;
+  }
+  
+  /**
+   * Create a structured setup with default values for a raw setup header
+   * @param rawSetup Raw setup data
+   * @returns Structured setup with default values
+   */
+  private createEmptySetup(rawSetup: SetupFile): ParsedSetup {
+    return {
       carId: rawSetup.header.carIdentifier,
       trackId: rawSetup.header.trackIdentifier,
       name: rawSetup.header.name,
@@ -143,19 +614,6 @@ export class SetupParser {
         version: rawSetup.header.version
       }
     };
-    
-    // Get car mapping if available
-    const carMapping = this.carMappings.get(rawSetup.header.carIdentifier);
-    
-    if (carMapping) {
-      // Apply mappings based on the car configuration
-      this.applyCarMapping(setup, rawSetup, carMapping);
-    } else {
-      // Apply generic mappings if no specific car mapping is available
-      this.applyGenericMapping(setup, rawSetup);
-    }
-    
-    return setup;
   }
   
   /**
@@ -163,25 +621,52 @@ export class SetupParser {
    * @param setup Structured setup to populate
    * @param rawSetup Raw setup data
    * @param mapping Car mapping configuration
+   * @param diagnostics List to add the problems found to
    */
   private applyCarMapping(
     setup: ParsedSetup,
     rawSetup: SetupFile,
-    mapping: CarMappingConfig
+    mapping: CarMappingConfig,
+    diagnostics: ParseDiagnostic[]
   ): void {
+    const readFields = new Set<string>();
+    const missingFields: ParseDiagnostic[] = [];
+    
     // Process each section in the mapping
     for (const sectionName in mapping.fieldMappings) {
       const sectionMapping = mapping.fieldMappings[sectionName];
-      const rawSection = rawSetup.sections[sectionName];
-      
-      if (!rawSection) continue;
+      const rawSection = rawSetup.sections[sectionName] || {};
       
       // Process each field in the section mapping
       for (const targetField in sectionMapping) {
         const sourceField = sectionMapping[targetField];
         const rawValue = rawSection[sourceField];
         
-        if (rawValue === undefined) continue;
+        if (rawValue === undefined) {
+          if (!matchesFieldPattern(mapping.optionalFields, targetField)) {
+            missingFields.push({
+              code: 'missing-field',
+              severity: 'warning',
+              message: `${sectionName} has no ${sourceField} (${targetField})`,
+              section: sectionName,
+              key: sourceField,
+              path: targetField
+            });
+          }
+          continue;
+        }
+        readFields.add(targetField);
+        
+        if (STRING_SETUP_FIELDS.includes(targetField)) {
+          this.setNestedProperty(setup, targetField, String(rawValue));
+          continue;
+        }
+        
+        // Mapped fields are numbers, a value that isn't keeps the default
+        if (!this.isNumeric(rawValue)) {
+          diagnostics.push(this.createInvalidNumberDiagnostic(sectionName, sourceField, targetField, rawValue));
+          continue;
+        }
         
         // Apply value transformation if available
         let value = rawValue;
@@ -199,71 +684,177 @@ export class SetupParser {
         this.setNestedProperty(setup, targetField, value);
       }
     }
+    
+    // Corners only stored for one side are filled from the other corner of the axle
+    diagnostics.push(...missingFields.filter(diagnostic => {
+      const oppositePath = getOppositeCornerPath(diagnostic.path!);
+      return !oppositePath || !readFields.has(oppositePath);
+    }));
+    
+    // Derive the axle view from per-corner values
+    completeCorners(setup);
+    deriveAxlesFromCorners(setup);
+    
+    // Fields the mapping has no key for keep the defaults of createEmptySetup
+    const mappedFields = Object.values(mapping.fieldMappings).flatMap(sectionMapping => Object.keys(sectionMapping));
+    for (const path of EXPECTED_SETUP_FIELDS) {
+      if (!this.isFieldMapped(path, mappedFields)) {
+        diagnostics.push({
+          code: 'default-value',
+          severity: 'warning',
+          message: `The ${mapping.carName} mapping has no key for ${path}, defaulting to ${this.getNestedProperty(setup, path)}`,
+          path
+        });
+      }
+    }
+    
+    diagnostics.push(...this.findUnknownSections(rawSetup, Object.keys(mapping.fieldMappings), mapping.carName));
+    
+    // Store every section and key the mapping doesn't cover as additionalSettings
+    setup.additionalSettings = this.collectAdditionalSettings(rawSetup, (sectionName, key) =>
+      Object.values(mapping.fieldMappings[sectionName] || {}).includes(key)
+    );
+  }
+  
+  /**
+   * Check whether a car mapping provides a structured field, directly or through the corners of its axle
+   * @param path Field path in structured data
+   * @param mappedFields Field paths the mapping has keys for
+   * @returns True if the field gets a value from the file
+   */
+  private isFieldMapped(path: string, mappedFields: string[]): boolean {
+    if (mappedFields.includes(path)) return true;
+    
+    const axleField = path.match(/^(suspension|dampers)\.(front|rear)\.(\w+)$/);
+    if (!axleField) return false;
+    
+    const [, group, axle, field] = axleField;
+    return AXLE_CORNERS[axle as 'front' | 'rear'].some(corner =>
+      mappedFields.includes(group === 'dampers' ? `corners.${corner}.damper.${field}` : `corners.${corner}.${field}`)
+    );
+  }
+  
+  /**
+   * Report the sections of a file that a mapping doesn't use
+   * @param rawSetup Raw setup data
+   * @param knownSections Sections the mapping reads
+   * @param mappingName Name of the mapping, used in messages
+   * @returns unknown-section diagnostics
+   */
+  private findUnknownSections(rawSetup: SetupFile, knownSections: string[], mappingName: string): ParseDiagnostic[] {
+    return Object.keys(rawSetup.sections)
+      .filter(sectionName => !knownSections.includes(sectionName) && !NON_SETUP_SECTIONS.includes(sectionName))
+      .map(sectionName => ({
+        code: 'unknown-section' as const,
+        severity: 'warning' as const,
+        message: `Section ${sectionName} is not used by the ${mappingName} mapping and is kept as is`,
+        section: sectionName
+      }));
   }
   
   /**
    * Apply generic mapping for cars without specific mappings
    * @param setup Structured setup to populate
    * @param rawSetup Raw setup data
+   * @param diagnostics List to add the problems found to
    */
-  private applyGenericMapping(setup: ParsedSetup, rawSetup: SetupFile): void {
+  private applyGenericMapping(setup: ParsedSetup, rawSetup: SetupFile, diagnostics: ParseDiagnostic[]): void {
     // Generic mapping for common sections and fields
+    const read = (sectionName: string, keys: string[], path: string, defaultValue: number = 0) =>
+      this.readGenericNumber(rawSetup, sectionName, keys, path, defaultValue, diagnostics);
     
     // Tire pressures
-    const tirePressureSection = rawSetup.sections['TIRE'] || {};
-    setup.tirePressures.frontLeft = this.parseNumber(tirePressureSection['LEFT_FRONT'] || tirePressureSection['PRESSURE_LF']);
-    setup.tirePressures.frontRight = this.parseNumber(tirePressureSection['RIGHT_FRONT'] || tirePressureSection['PRESSURE_RF']);
-    setup.tirePressures.rearLeft = this.parseNumber(tirePressureSection['LEFT_REAR'] || tirePressureSection['PRESSURE_LR']);
-    setup.tirePressures.rearRight = this.parseNumber(tirePressureSection['RIGHT_REAR'] || tirePressureSection['PRESSURE_RR']);
+    setup.tirePressures.frontLeft = read('TIRE', ['LEFT_FRONT', 'PRESSURE_LF'], 'tirePressures.frontLeft');
+    setup.tirePressures.frontRight = read('TIRE', ['RIGHT_FRONT', 'PRESSURE_RF'], 'tirePressures.frontRight');
+    setup.tirePressures.rearLeft = read('TIRE', ['LEFT_REAR', 'PRESSURE_LR'], 'tirePressures.rearLeft');
+    setup.tirePressures.rearRight = read('TIRE', ['RIGHT_REAR', 'PRESSURE_RR'], 'tirePressures.rearRight');
     
     // Suspension
     const suspensionSection = rawSetup.sections['SUSPENSION'] || {};
     
     // Front suspension
-    setup.suspension.front.springRate = this.parseNumber(suspensionSection['SPRING_RATE_LF'] || suspensionSection['FRONT_SPRING_RATE']);
-    setup.suspension.front.rideHeight = this.parseNumber(suspensionSection['RIDE_HEIGHT_LF'] || suspensionSection['FRONT_RIDE_HEIGHT']);
-    setup.suspension.front.camber = this.parseNumber(suspensionSection['CAMBER_LF'] || suspensionSection['FRONT_CAMBER']);
-    setup.suspension.front.toe = this.parseNumber(suspensionSection['TOE_IN_LF'] || suspensionSection['FRONT_TOE']);
-    setup.suspension.front.antiRollBar = this.parseNumber(suspensionSection['FRONT_ANTI_ROLL_BAR'] || suspensionSection['ARB_FRONT']);
+    setup.suspension.front.springRate = read('SUSPENSION', ['SPRING_RATE_LF', 'FRONT_SPRING_RATE'], 'suspension.front.springRate');
+    setup.suspension.front.rideHeight = read('SUSPENSION', ['RIDE_HEIGHT_LF', 'FRONT_RIDE_HEIGHT'], 'suspension.front.rideHeight');
+    setup.suspension.front.camber = read('SUSPENSION', ['CAMBER_LF', 'FRONT_CAMBER'], 'suspension.front.camber');
+    setup.suspension.front.toe = read('SUSPENSION', ['TOE_IN_LF', 'FRONT_TOE'], 'suspension.front.toe');
+    setup.suspension.front.antiRollBar = read('SUSPENSION', ['FRONT_ANTI_ROLL_BAR', 'ARB_FRONT'], 'suspension.front.antiRollBar');
     
     // Rear suspension
-    setup.suspension.rear.springRate = this.parseNumber(suspensionSection['SPRING_RATE_LR'] || suspensionSection['REAR_SPRING_RATE']);
-    setup.suspension.rear.rideHeight = this.parseNumber(suspensionSection['RIDE_HEIGHT_LR'] || suspensionSection['REAR_RIDE_HEIGHT']);
-    setup.suspension.rear.camber = this.parseNumber(suspensionSection['CAMBER_LR'] || suspensionSection['REAR_CAMBER']);
-    setup.suspension.rear.toe = this.parseNumber(suspensionSection['TOE_IN_LR'] || suspensionSection['REAR_TOE']);
-    setup.suspension.rear.antiRollBar = this.parseNumber(suspensionSection['REAR_ANTI_ROLL_BAR'] || suspensionSection['ARB_REAR']);
+    setup.suspension.rear.springRate = read('SUSPENSION', ['SPRING_RATE_LR', 'REAR_SPRING_RATE'], 'suspension.rear.springRate');
+    setup.suspension.rear.rideHeight = read('SUSPENSION', ['RIDE_HEIGHT_LR', 'REAR_RIDE_HEIGHT'], 'suspension.rear.rideHeight');
+    setup.suspension.rear.camber = read('SUSPENSION', ['CAMBER_LR', 'REAR_CAMBER'], 'suspension.rear.camber');
+    setup.suspension.rear.toe = read('SUSPENSION', ['TOE_IN_LR', 'REAR_TOE'], 'suspension.rear.toe');
+    setup.suspension.rear.antiRollBar = read('SUSPENSION', ['REAR_ANTI_ROLL_BAR', 'ARB_REAR'], 'suspension.rear.antiRollBar');
     
     // Dampers
-    const damperSection = rawSetup.sections['DAMPER'] || suspensionSection;
+    const damperSectionName = rawSetup.sections['DAMPER'] ? 'DAMPER' : 'SUSPENSION';
+    const damperSection = rawSetup.sections[damperSectionName] || {};
     
     // Front dampers
-    setup.dampers.front.bump = this.parseNumber(damperSection['BUMP_LF'] || damperSection['FRONT_BUMP']);
-    setup.dampers.front.rebound = this.parseNumber(damperSection['REBOUND_LF'] || damperSection['FRONT_REBOUND']);
+    setup.dampers.front.bump = read(damperSectionName, ['BUMP_LF', 'FRONT_BUMP'], 'dampers.front.bump');
+    setup.dampers.front.rebound = read(damperSectionName, ['REBOUND_LF', 'FRONT_REBOUND'], 'dampers.front.rebound');
     
     // Rear dampers
-    setup.dampers.rear.bump = this.parseNumber(damperSection['BUMP_LR'] || damperSection['REAR_BUMP']);
-    setup.dampers.rear.rebound = this.parseNumber(damperSection['REBOUND_LR'] || damperSection['REAR_REBOUND']);
+    setup.dampers.rear.bump = read(damperSectionName, ['BUMP_LR', 'REAR_BUMP'], 'dampers.rear.bump');
+    setup.dampers.rear.rebound = read(damperSectionName, ['REBOUND_LR', 'REAR_REBOUND'], 'dampers.rear.rebound');
+    
+    // High-speed adjusters, only for four-way dampers
+    for (const { key, field } of GENERIC_FOUR_WAY_DAMPER_FIELDS) {
+      for (const axle of ['front', 'rear'] as const) {
+        const [cornerKey, axleKey] = axle === 'front' ? [`${key}_LF`, `FRONT_${key}`] : [`${key}_LR`, `REAR_${key}`];
+        
+        if (damperSection[cornerKey] !== undefined || damperSection[axleKey] !== undefined) {
+          setup.dampers[axle][field] = read(damperSectionName, [cornerKey, axleKey], `dampers.${axle}.${field}`);
+        }
+      }
+    }
+    
+    // Per-corner values, only for files that also have the right-hand corners
+    const hasRightCorners = GENERIC_CORNER_FIELDS.some(({ key }) =>
+      suspensionSection[`${key}_RF`] !== undefined || suspensionSection[`${key}_RR`] !== undefined
+    );
+    
+    if (hasRightCorners) {
+      setup.corners = {} as SetupCorners;
+      
+      for (const [corner, suffix] of Object.entries(GENERIC_CORNER_SUFFIXES)) {
+        const settings: Record<string, any> = { damper: {} };
+        
+        for (const { key, field } of GENERIC_CORNER_FIELDS) {
+          const sectionName = field.startsWith('damper.') ? damperSectionName : 'SUSPENSION';
+          const rawKey = `${key}_${suffix}`;
+          
+          if (rawSetup.sections[sectionName]?.[rawKey] !== undefined) {
+            this.setNestedProperty(settings, field, read(sectionName, [rawKey], `corners.${corner}.${field}`));
+          }
+        }
+        
+        setup.corners[corner as keyof SetupCorners] = settings as CornerSettings;
+      }
+      
+      // Missing corner values fall back to the left-hand values read above
+      completeCorners(setup);
+      deriveAxlesFromCorners(setup);
+    }
     
     // Aero
-    const aeroSection = rawSetup.sections['AERO'] || {};
-    setup.aero.frontWing = this.parseNumber(aeroSection['FRONT_WING'] || aeroSection['WING_FRONT']);
-    setup.aero.rearWing = this.parseNumber(aeroSection['REAR_WING'] || aeroSection['WING_REAR']);
+    setup.aero.frontWing = read('AERO', ['FRONT_WING', 'WING_FRONT'], 'aero.frontWing');
+    setup.aero.rearWing = read('AERO', ['REAR_WING', 'WING_REAR'], 'aero.rearWing');
     
     // Brake bias
-    const brakeSection = rawSetup.sections['BRAKE'] || {};
-    setup.brakeBias = this.parseNumber(brakeSection['BIAS'] || brakeSection['BRAKE_BIAS'] || 50);
+    setup.brakeBias = read('BRAKE', ['BIAS', 'BRAKE_BIAS'], 'brakeBias', 50);
     
     // Differential
     const diffSection = rawSetup.sections['DIFFERENTIAL'] || {};
     if (Object.keys(diffSection).length > 0) {
       setup.differential = {
-        preload: this.parseNumber(diffSection['PRELOAD'] || diffSection['DIFF_PRELOAD'] || 0),
-        powerRamp: this.parseNumber(diffSection['POWER_RAMP'] || diffSection['DIFF_POWER'] || 0),
-        coastRamp: this.parseNumber(diffSection['COAST_RAMP'] || diffSection['DIFF_COAST'] || 0)
+        preload: read('DIFFERENTIAL', ['PRELOAD', 'DIFF_PRELOAD'], 'differential.preload'),
+        powerRamp: read('DIFFERENTIAL', ['POWER_RAMP', 'DIFF_POWER'], 'differential.powerRamp'),
+        coastRamp: read('DIFFERENTIAL', ['COAST_RAMP', 'DIFF_COAST'], 'differential.coastRamp')
       };
     }
     
-    // Gear ratios
+    // Gearbox
     const gearSection = rawSetup.sections['GEARS'] || {};
     const gearRatios: number[] = [];
     
@@ -271,27 +862,147 @@ export class SetupParser {
     for (let i = 1; i <= 8; i++) {
       const gearKey = `GEAR_${i}`;
       if (gearSection[gearKey] !== undefined) {
-        gearRatios.push(this.parseNumber(gearSection[gearKey]));
+        gearRatios.push(read('GEARS', [gearKey], `gearbox.ratios.${i - 1}`));
       }
     }
     
     // If we found any gear ratios, add them to the setup
     if (gearRatios.length > 0) {
-      setup.gearRatios = gearRatios;
+      setup.gearbox = { ratios: gearRatios };
+      
+      if (GENERIC_FINAL_DRIVE_KEYS.some(key => gearSection[key] !== undefined)) {
+        setup.gearbox.finalDrive = read('GEARS', GENERIC_FINAL_DRIVE_KEYS, 'gearbox.finalDrive');
+      }
+    }
+    
+    // Fuel, ballast, cooling, tire compound, driver aids and heave springs
+    for (const { section, keys, path } of GENERIC_OPTIONAL_FIELDS) {
+      const key = keys.find(candidate => rawSetup.sections[section]?.[candidate] !== undefined);
+      if (key === undefined) continue;
+      
+      this.setNestedProperty(setup, path, STRING_SETUP_FIELDS.includes(path)
+        ? String(rawSetup.sections[section][key])
+        : read(section, [key], path));
     }
     
     // Store any additional sections as additionalSettings
-    setup.additionalSettings = {};
+    const processedSections = ['TIRE', 'SUSPENSION', 'DAMPER', 'AERO', 'BRAKE', 'DIFFERENTIAL', 'GEARS'];
+    const optionalSections = GENERIC_OPTIONAL_FIELDS.map(({ section }) => section);
+    diagnostics.push(...this.findUnknownSections(rawSetup, [...processedSections, ...optionalSections], 'generic'));
+    setup.additionalSettings = this.collectAdditionalSettings(rawSetup, (sectionName, key) =>
+      processedSections.includes(sectionName) ||
+      GENERIC_OPTIONAL_FIELDS.some(({ section, keys }) => section === sectionName && keys.includes(key))
+    );
+  }
+  
+  /**
+   * Read a number for the generic mapping from the first of the keys a file may use for it
+   * @param rawSetup Raw setup data
+   * @param sectionName Section of the keys
+   * @param keys Keys the value may be stored under, in order of preference
+   * @param path Field path in structured data, used in diagnostics
+   * @param defaultValue Value used when the file has no valid value
+   * @param diagnostics List to add missing and unparseable values to
+   * @returns Parsed number, or the default value
+   */
+  private readGenericNumber(
+    rawSetup: SetupFile,
+    sectionName: string,
+    keys: string[],
+    path: string,
+    defaultValue: number,
+    diagnostics: ParseDiagnostic[]
+  ): number {
+    const section = rawSetup.sections[sectionName] || {};
+    const key = keys.find(candidate => section[candidate] !== undefined);
+    
+    if (key === undefined) {
+      diagnostics.push({
+        code: 'missing-field',
+        severity: 'warning',
+        message: `${sectionName} has no ${keys.join(' or ')}, ${path} defaults to ${defaultValue}`,
+        section: sectionName,
+        key: keys[0],
+        path
+      });
+      return defaultValue;
+    }
+    
+    const rawValue = section[key];
+    if (!this.isNumeric(rawValue)) {
+      diagnostics.push(this.createInvalidNumberDiagnostic(sectionName, key, path, rawValue, defaultValue));
+      return defaultValue;
+    }
+    
+    return typeof rawValue === 'number' ? rawValue : parseFloat(rawValue);
+  }
+  
+  /**
+   * Check whether a raw value can be read as a number
+   * @param value Raw value
+   * @returns True for numbers and strings starting with a number
+   */
+  private isNumeric(value: any): value is number | string {
+    if (typeof value === 'number') return !isNaN(value);
+    return typeof value === 'string' && !isNaN(parseFloat(value));
+  }
+  
+  /**
+   * Describe a raw value that should be a number but can't be parsed
+   * @param section Section of the value
+   * @param key Key of the value
+   * @param path Field path in structured data
+   * @param rawValue Raw value
+   * @param defaultValue Value used instead, if any
+   * @returns invalid-number diagnostic
+   */
+  private createInvalidNumberDiagnostic(
+    section: string,
+    key: string,
+    path: string,
+    rawValue: any,
+    defaultValue?: number
+  ): ParseDiagnostic {
+    const fallback = defaultValue === undefined ? '' : `, ${path} defaults to ${defaultValue}`;
+    
+    return {
+      code: 'invalid-number',
+      severity: 'error',
+      message: `${section} ${key} is not a number: ${JSON.stringify(rawValue)}${fallback}`,
+      section,
+      key,
+      path,
+      rawValue
+    };
+  }
+  
+  /**
+   * Collect the raw values that are not covered by a mapping
+   * @param rawSetup Raw setup data
+   * @param isMapped Whether a section/key pair is already part of the structured setup
+   * @returns Unmapped values grouped by section
+   */
+  private collectAdditionalSettings(
+    rawSetup: SetupFile,
+    isMapped: (sectionName: string, key: string) => boolean
+  ): Record<string, any> {
+    const additionalSettings: Record<string, any> = {};
     
     for (const sectionName in rawSetup.sections) {
-      // Skip sections we've already processed
-      if (['TIRE', 'SUSPENSION', 'DAMPER', 'AERO', 'BRAKE', 'DIFFERENTIAL', 'GEARS'].includes(sectionName)) {
-        continue;
+      for (const key in rawSetup.sections[sectionName]) {
+        // The setup name is stored in the name field
+        if (isMapped(sectionName, key) || (sectionName === 'SETUPS' && key === 'ACTIVE')) {
+          continue;
+        }
+        
+        if (!additionalSettings[sectionName]) {
+          additionalSettings[sectionName] = {};
+        }
+        additionalSettings[sectionName][key] = rawSetup.sections[sectionName][key];
       }
-      
-      // Add the section to additionalSettings
-      setup.additionalSettings[sectionName] = rawSetup.sections[sectionName];
     }
+    
+    return additionalSettings;
   }
   
   /**
@@ -307,7 +1018,8 @@ export class SetupParser {
     for (let i = 0; i < parts.length - 1; i++) {
       const part = parts[i];
       if (current[part] === undefined) {
-        current[part] = {};
+        // Numeric parts index arrays (e.g. 'gearbox.ratios.0')
+        current[part] = /^\d+$/.test(parts[i + 1]) ? [] : {};
       }
       current = current[part];
     }
@@ -316,59 +1028,149 @@ export class SetupParser {
   }
   
   /**
-   * Parse a value as a number, returning 0 if it's not a valid number
-   * @param value Value to parse
-   * @returns Parsed number or 0
+   * Convert a structured setup back to a .sto file format
+   * @param setup Structured setup data
+   * @returns INI-like .sto file content as a string, also for setups read from binary files
+   * @throws SetupValidationError if the setup doesn't match the setup schema
    */
-  private parseNumber(value: any): number {
-    if (value === undefined || value === null) return 0;
+  public convertToSto(setup: ParsedSetup): string {
+    // Setups edited in the UI or produced by the agents may not be complete
+    validateSetupData(setup);
     
-    if (typeof value === 'number') return value;
+    const rawSetup = this.convertToRaw(setup);
     
-    if (typeof value === 'string') {
-      const parsed = parseFloat(value);
-      return isNaN(parsed) ? 0 : parsed;
+    if (!setup.rawSetup) {
+      return writeIniSto(rawSetup);
     }
     
-    return 0;
+    // Only write back what changed since parsing, so everything else in the
+    // original file (unmapped keys, key order, formatting) is kept as is
+    const baseline = this.convertToRaw(this.convertToStructured(setup.rawSetup, setup.carId));
+    return writeIniSto(this.mergeRawSetup(setup.rawSetup, baseline, rawSetup));
   }
   
   /**
-   * Convert a structured setup back to a .sto file format
+   * Convert a structured setup to raw setup data
    * @param setup Structured setup data
-   * @returns .sto file content as a string
+   * @returns Raw setup data
    */
-  public convertToSto(setup: ParsedSetup): string {
+  private convertToRaw(setup: ParsedSetup): SetupFile {
+    // Get car mapping if available
+    const carMapping = this.carMappings.get(setup.carId);
+    
+    // Push axle edits down to the corners, or build symmetric corners for
+    // mappings that write per-corner keys
+    setup = JSON.parse(JSON.stringify(setup));
+    if (setup.corners) {
+      applyAxleEditsToCorners(setup);
+      deriveAxlesFromCorners(setup);
+    } else if (carMapping && this.mapsCorners(carMapping)) {
+      setup.corners = createCornersFromAxles(setup);
+    }
+    
     // Initialize the raw setup
-    const rawSetup: Record<string, any> = {
-      VERSION: setup.metadata?.version || '1.0',
-      CAR: setup.carId,
-      TRACK: setup.trackId,
-      TIMESTAMP: setup.metadata?.modified || new Date().toISOString(),
-      SETUPS: {
-        ACTIVE: setup.name
+    const rawSetup: SetupFile = {
+      header: {
+        version: setup.metadata?.version || '1.0',
+        carIdentifier: setup.carId,
+        trackIdentifier: setup.trackId,
+        name: setup.name,
+        timestamp: setup.metadata?.modified || new Date().toISOString()
+      },
+      rootValues: {},
+      sections: {
+        SETUPS: {
+          ACTIVE: setup.name
+        }
       }
     };
     
-    // Get car mapping if available
-    const carMapping = this.carMappings.get(setup.carId);
+    rawSetup.rootValues = {
+      VERSION: rawSetup.header.version,
+      CAR: rawSetup.header.carIdentifier,
+      TRACK: rawSetup.header.trackIdentifier,
+      TIMESTAMP: rawSetup.header.timestamp as string
+    };
     
     if (carMapping) {
       // Apply car-specific mapping
-      this.applyCarMappingReverse(setup, rawSetup, carMapping);
+      this.applyCarMappingReverse(setup, rawSetup.sections, carMapping);
     } else {
       // Apply generic mapping
-      this.applyGenericMappingReverse(setup, rawSetup);
+      this.applyGenericMappingReverse(setup, rawSetup.sections);
+    }
+    
+    return rawSetup;
+  }
+  
+  /**
+   * Check whether a car mapping writes per-corner fields
+   * @param mapping Car mapping configuration
+   */
+  private mapsCorners(mapping: CarMappingConfig): boolean {
+    return Object.values(mapping.fieldMappings).some(sectionMapping =>
+      Object.keys(sectionMapping).some(targetField => targetField.startsWith('corners.'))
+    );
+  }
+  
+  /**
+   * Merge the edits of a setup into the raw setup it was parsed from
+   * @param original Raw setup the structured setup was parsed from
+   * @param baseline Raw values of the unedited structured setup
+   * @param edited Raw values of the edited structured setup
+   * @returns Original raw setup with the edited values applied
+   */
+  private mergeRawSetup(original: SetupFile, baseline: SetupFile, edited: SetupFile): SetupFile {
+    const merged: SetupFile = JSON.parse(JSON.stringify(original));
+    merged.header = { ...merged.header, ...edited.header };
+    merged.rootValues = merged.rootValues || {};
+    
+    this.mergeRawValues(merged.rootValues, baseline.rootValues || {}, edited.rootValues || {});
+    
+    const sectionNames = new Set([...Object.keys(baseline.sections), ...Object.keys(edited.sections)]);
+    for (const sectionName of sectionNames) {
+      const mergedSection = merged.sections[sectionName] || {};
+      this.mergeRawValues(mergedSection, baseline.sections[sectionName] || {}, edited.sections[sectionName] || {});
+      
+      if (original.sections[sectionName] || Object.keys(mergedSection).length > 0) {
+        merged.sections[sectionName] = mergedSection;
+      } else {
+        delete merged.sections[sectionName];
+      }
     }
     
-    // Convert to INI format
-    return ini.stringify(rawSetup);
+    return merged;
+  }
+  
+  /**
+   * Apply the values that differ between baseline and edited to a target section
+   * @param target Values to update
+   * @param baseline Values before editing
+   * @param edited Values after editing
+   */
+  private mergeRawValues(
+    target: Record<string, string | number | boolean>,
+    baseline: Record<string, string | number | boolean>,
+    edited: Record<string, string | number | boolean>
+  ): void {
+    for (const key in edited) {
+      if (edited[key] !== baseline[key]) {
+        target[key] = edited[key];
+      }
+    }
+    
+    // Values removed from the structured setup are removed from the file
+    for (const key in baseline) {
+      if (!(key in edited)) {
+        delete target[key];
+      }
+    }
   }
   
   /**
    * Apply car-specific mapping to convert structured setup to raw format
    * @param setup Structured setup data
-   * @param rawSetup Raw setup data to populate
+   * @param rawSetup Raw setup sections to populate
    * @param mapping Car mapping configuration
    */
   private applyCarMappingReverse(
@@ -405,88 +1207,142 @@ export class SetupParser {
         rawSetup[sectionName][sourceField] = rawValue;
       }
     }
+    
+    // Add any additional settings
+    this.applyAdditionalSettingsReverse(setup, rawSetup);
   }
   
   /**
    * Apply generic mapping to convert structured setup to raw format
    * @param setup Structured setup data
-   * @param rawSetup Raw setup data to populate
+   * @param rawSetup Raw setup sections to populate
    */
   private applyGenericMappingReverse(setup: ParsedSetup, rawSetup: Record<string, any>): void {
-    // Initialize sections
-    rawSetup.TIRE = {};
-    rawSetup.SUSPENSION = {};
-    rawSetup.AERO = {};
-    rawSetup.BRAKE = {};
+    // Write each value under the key the original file used, falling back to the first name
+    const set = (sectionName: string, keys: string[], value: any) => {
+      const originalSection = setup.rawSetup?.sections[sectionName] || {};
+      const key = keys.find(candidate => originalSection[candidate] !== undefined) || keys[0];
+      
+      if (!rawSetup[sectionName]) {
+        rawSetup[sectionName] = {};
+      }
+      rawSetup[sectionName][key] = value;
+    };
     
     // Tire pressures
-    rawSetup.TIRE.LEFT_FRONT = setup.tirePressures.frontLeft;
-    rawSetup.TIRE.RIGHT_FRONT = setup.tirePressures.frontRight;
-    rawSetup.TIRE.LEFT_REAR = setup.tirePressures.rearLeft;
-    rawSetup.TIRE.RIGHT_REAR = setup.tirePressures.rearRight;
+    set('TIRE', ['LEFT_FRONT', 'PRESSURE_LF'], setup.tirePressures.frontLeft);
+    set('TIRE', ['RIGHT_FRONT', 'PRESSURE_RF'], setup.tirePressures.frontRight);
+    set('TIRE', ['LEFT_REAR', 'PRESSURE_LR'], setup.tirePressures.rearLeft);
+    set('TIRE', ['RIGHT_REAR', 'PRESSURE_RR'], setup.tirePressures.rearRight);
     
     // Suspension
     // Front suspension
-    rawSetup.SUSPENSION.SPRING_RATE_LF = setup.suspension.front.springRate;
-    rawSetup.SUSPENSION.RIDE_HEIGHT_LF = setup.suspension.front.rideHeight;
-    rawSetup.SUSPENSION.CAMBER_LF = setup.suspension.front.camber;
-    rawSetup.SUSPENSION.TOE_IN_LF = setup.suspension.front.toe;
-    rawSetup.SUSPENSION.FRONT_ANTI_ROLL_BAR = setup.suspension.front.antiRollBar;
+    set('SUSPENSION', ['SPRING_RATE_LF', 'FRONT_SPRING_RATE'], setup.suspension.front.springRate);
+    set('SUSPENSION', ['RIDE_HEIGHT_LF', 'FRONT_RIDE_HEIGHT'], setup.suspension.front.rideHeight);
+    set('SUSPENSION', ['CAMBER_LF', 'FRONT_CAMBER'], setup.suspension.front.camber);
+    set('SUSPENSION', ['TOE_IN_LF', 'FRONT_TOE'], setup.suspension.front.toe);
+    set('SUSPENSION', ['FRONT_ANTI_ROLL_BAR', 'ARB_FRONT'], setup.suspension.front.antiRollBar);
     
     // Rear suspension
-    rawSetup.SUSPENSION.SPRING_RATE_LR = setup.suspension.rear.springRate;
-    rawSetup.SUSPENSION.RIDE_HEIGHT_LR = setup.suspension.rear.rideHeight;
-    rawSetup.SUSPENSION.CAMBER_LR = setup.suspension.rear.camber;
-    rawSetup.SUSPENSION.TOE_IN_LR = setup.suspension.rear.toe;
-    rawSetup.SUSPENSION.REAR_ANTI_ROLL_BAR = setup.suspension.rear.antiRollBar;
+    set('SUSPENSION', ['SPRING_RATE_LR', 'REAR_SPRING_RATE'], setup.suspension.rear.springRate);
+    set('SUSPENSION', ['RIDE_HEIGHT_LR', 'REAR_RIDE_HEIGHT'], setup.suspension.rear.rideHeight);
+    set('SUSPENSION', ['CAMBER_LR', 'REAR_CAMBER'], setup.suspension.rear.camber);
+    set('SUSPENSION', ['TOE_IN_LR', 'REAR_TOE'], setup.suspension.rear.toe);
+    set('SUSPENSION', ['REAR_ANTI_ROLL_BAR', 'ARB_REAR'], setup.suspension.rear.antiRollBar);
     
-    // Dampers
-    rawSetup.SUSPENSION.BUMP_LF = setup.dampers.front.bump;
-    rawSetup.SUSPENSION.REBOUND_LF = setup.dampers.front.rebound;
-    rawSetup.SUSPENSION.BUMP_LR = setup.dampers.rear.bump;
-    rawSetup.SUSPENSION.REBOUND_LR = setup.dampers.rear.rebound;
+    // Dampers, in their own section if the original file had one
+    const damperSection = setup.rawSetup?.sections['DAMPER'] ? 'DAMPER' : 'SUSPENSION';
+    set(damperSection, ['BUMP_LF', 'FRONT_BUMP'], setup.dampers.front.bump);
+    set(damperSection, ['REBOUND_LF', 'FRONT_REBOUND'], setup.dampers.front.rebound);
+    set(damperSection, ['BUMP_LR', 'REAR_BUMP'], setup.dampers.rear.bump);
+    set(damperSection, ['REBOUND_LR', 'REAR_REBOUND'], setup.dampers.rear.rebound);
+    
+    for (const { key, field } of GENERIC_FOUR_WAY_DAMPER_FIELDS) {
+      if (setup.dampers.front[field] !== undefined) {
+        set(damperSection, [`${key}_LF`, `FRONT_${key}`], setup.dampers.front[field]);
+      }
+      if (setup.dampers.rear[field] !== undefined) {
+        set(damperSection, [`${key}_LR`, `REAR_${key}`], setup.dampers.rear[field]);
+      }
+    }
+    
+    // Per-corner values overwrite the left-hand keys written from the axle view
+    if (setup.corners) {
+      for (const [corner, suffix] of Object.entries(GENERIC_CORNER_SUFFIXES)) {
+        const settings = setup.corners[corner as keyof SetupCorners];
+        
+        for (const { key, field } of GENERIC_CORNER_FIELDS) {
+          const value = this.getNestedProperty(settings, field);
+          if (value === undefined) continue;
+          
+          set(field.startsWith('damper.') ? damperSection : 'SUSPENSION', [`${key}_${suffix}`], value);
+        }
+      }
+    }
     
     // Aero
     if (setup.aero.frontWing !== undefined) {
-      rawSetup.AERO.FRONT_WING = setup.aero.frontWing;
+      set('AERO', ['FRONT_WING', 'WING_FRONT'], setup.aero.frontWing);
     }
     if (setup.aero.rearWing !== undefined) {
-      rawSetup.AERO.REAR_WING = setup.aero.rearWing;
+      set('AERO', ['REAR_WING', 'WING_REAR'], setup.aero.rearWing);
     }
     
     // Brake bias
-    rawSetup.BRAKE.BIAS = setup.brakeBias;
+    set('BRAKE', ['BIAS', 'BRAKE_BIAS'], setup.brakeBias);
     
     // Differential
     if (setup.differential) {
-      rawSetup.DIFFERENTIAL = {
-        PRELOAD: setup.differential.preload
-      };
+      set('DIFFERENTIAL', ['PRELOAD', 'DIFF_PRELOAD'], setup.differential.preload);
       
       if (setup.differential.powerRamp !== undefined) {
-        rawSetup.DIFFERENTIAL.POWER_RAMP = setup.differential.powerRamp;
+        set('DIFFERENTIAL', ['POWER_RAMP', 'DIFF_POWER'], setup.differential.powerRamp);
       }
       
       if (setup.differential.coastRamp !== undefined) {
-        rawSetup.DIFFERENTIAL.COAST_RAMP = setup.differential.coastRamp;
+        set('DIFFERENTIAL', ['COAST_RAMP', 'DIFF_COAST'], setup.differential.coastRamp);
       }
     }
     
-    // Gear ratios
-    if (setup.gearRatios && setup.gearRatios.length > 0) {
+    // Gearbox
+    if (setup.gearbox && setup.gearbox.ratios.length > 0) {
       rawSetup.GEARS = {};
       
-      for (let i = 0; i < setup.gearRatios.length; i++) {
-        rawSetup.GEARS[`GEAR_${i + 1}`] = setup.gearRatios[i];
+      for (let i = 0; i < setup.gearbox.ratios.length; i++) {
+        rawSetup.GEARS[`GEAR_${i + 1}`] = setup.gearbox.ratios[i];
+      }
+      
+      if (setup.gearbox.finalDrive !== undefined) {
+        set('GEARS', GENERIC_FINAL_DRIVE_KEYS, setup.gearbox.finalDrive);
       }
     }
     
-    // Add any additional settings
-    if (setup.additionalSettings) {
-      for (const sectionName in setup.additionalSettings) {
-        rawSetup[sectionName] = setup.additionalSettings[sectionName];
+    // Fuel, ballast, cooling, tire compound, driver aids and heave springs
+    for (const { section, keys, path } of GENERIC_OPTIONAL_FIELDS) {
+      const value = this.getNestedProperty(setup, path);
+      if (value !== undefined) {
+        set(section, keys, value);
       }
     }
+    
+    // Add any additional settings
+    this.applyAdditionalSettingsReverse(setup, rawSetup);
+  }
+  
+  /**
+   * Write additional settings back into their raw sections
+   * @param setup Structured setup data
+   * @param rawSetup Raw setup sections to populate
+   */
+  private applyAdditionalSettingsReverse(setup: ParsedSetup, rawSetup: Record<string, any>): void {
+    if (!setup.additionalSettings) return;
+    
+    for (const sectionName in setup.additionalSettings) {
+      rawSetup[sectionName] = {
+        ...rawSetup[sectionName],
+        ...setup.additionalSettings[sectionName]
+      };
+    }
   }
   
   /**
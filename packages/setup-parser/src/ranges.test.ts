@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { findParameterRange, isWithinRange, matchesFieldPattern, snapToRange, validateAgainstRanges } from './ranges';
+import { ParameterRange } from './types';
+
+const PRESSURE: ParameterRange = { min: 152, max: 207, step: 0.5 };
+const SPRINGS: ParameterRange = { values: [120000, 140000, 180000] };
+
+describe('snapToRange', () => {
+  it('rounds to the closest step counted from min', () => {
+    expect(snapToRange(165.3, PRESSURE)).toBe(165.5);
+    expect(snapToRange(165.2, PRESSURE)).toBe(165);
+    expect(snapToRange(-0.075, { min: -0.4, max: 0.4, step: 0.02 })).toBe(-0.08);
+    expect(snapToRange(0.3, { min: 0.1, max: 1, step: 0.25 })).toBe(0.35);
+  });
+
+  it('clamps to the bounds, and never past max when the last step overshoots it', () => {
+    expect(snapToRange(100, PRESSURE)).toBe(152);
+    expect(snapToRange(250, PRESSURE)).toBe(207);
+    expect(snapToRange(9.9, { min: 0, max: 10, step: 3 })).toBe(9);
+  });
+
+  it('only clamps ranges without a step', () => {
+    expect(snapToRange(54.23, { min: 45, max: 60 })).toBe(54.23);
+    expect(snapToRange(61, { min: 45, max: 60 })).toBe(60);
+  });
+
+  it('picks the closest of a list of values', () => {
+    expect(snapToRange(158000, SPRINGS)).toBe(140000);
+    expect(snapToRange(175000, SPRINGS)).toBe(180000);
+    expect(snapToRange(500000, SPRINGS)).toBe(180000);
+  });
+});
+
+describe('isWithinRange', () => {
+  it('accepts values on a step, without floating-point noise', () => {
+    expect(isWithinRange(165.5, PRESSURE)).toBe(true);
+    expect(isWithinRange(0.1 + 0.2, { min: 0, max: 1, step: 0.1 })).toBe(true);
+    expect(isWithinRange(207, PRESSURE)).toBe(true);
+  });
+
+  it('rejects values between steps or outside the bounds', () => {
+    expect(isWithinRange(165.3, PRESSURE)).toBe(false);
+    expect(isWithinRange(151.5, PRESSURE)).toBe(false);
+    expect(isWithinRange(207.5, PRESSURE)).toBe(false);
+  });
+
+  it('accepts only the listed values', () => {
+    expect(isWithinRange(140000, SPRINGS)).toBe(true);
+    expect(isWithinRange(160000, SPRINGS)).toBe(false);
+  });
+});
+
+describe('findParameterRange', () => {
+  const ranges = {
+    'tirePressures.*': PRESSURE,
+    'corners.front*.camber': { min: -4.5, max: -2, step: 0.1 },
+    'corners.frontLeft.camber': { min: -5, max: -2, step: 0.1 }
+  };
+
+  it('prefers an exact path over a wildcard pattern', () => {
+    expect(findParameterRange(ranges, 'corners.frontLeft.camber')).toBe(ranges['corners.frontLeft.camber']);
+    expect(findParameterRange(ranges, 'corners.frontRight.camber')).toBe(ranges['corners.front*.camber']);
+  });
+
+  it('matches wildcards within a single path segment', () => {
+    expect(findParameterRange(ranges, 'tirePressures.rearLeft')).toBe(PRESSURE);
+    expect(findParameterRange(ranges, 'corners.frontLeft.damper.camber')).toBeUndefined();
+    expect(findParameterRange(undefined, 'tirePressures.rearLeft')).toBeUndefined();
+  });
+});
+
+describe('matchesFieldPattern', () => {
+  it('matches exact paths and wildcard patterns', () => {
+    expect(matchesFieldPattern(['heaveSprings.*.packers'], 'heaveSprings.front.packers')).toBe(true);
+    expect(matchesFieldPattern(['brakes.bias'], 'brakes.bias')).toBe(true);
+    expect(matchesFieldPattern(['brakes.bias'], 'brakes.biasMigration')).toBe(false);
+    expect(matchesFieldPattern(undefined, 'brakes.bias')).toBe(false);
+  });
+});
+
+describe('validateAgainstRanges', () => {
+  it('reports illegal garage values with the closest legal value', () => {
+    const setup = {
+      tirePressures: { frontLeft: 165.5, frontRight: 165.3, rearLeft: 210 },
+      corners: { frontLeft: { springRate: 160000 } },
+      metadata: { modified: 12 }
+    };
+
+    const violations = validateAgainstRanges(setup, { 'tirePressures.*': PRESSURE, 'corners.*.springRate': SPRINGS });
+
+    expect(violations.map(({ path, suggestedValue, message }) => ({ path, suggestedValue, message }))).toEqual([
+      { path: 'tirePressures.frontRight', suggestedValue: 165.5, message: 'tirePressures.frontRight is 165.3, not a step of 0.5 from 152' },
+      { path: 'tirePressures.rearLeft', suggestedValue: 207, message: 'tirePressures.rearLeft is 210, outside the range 152 to 207' },
+      {
+        path: 'corners.frontLeft.springRate',
+        suggestedValue: 140000,
+        message: 'corners.frontLeft.springRate is 160000, allowed values are 120000, 140000, 180000'
+      }
+    ]);
+  });
+});
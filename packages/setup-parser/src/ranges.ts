@@ -0,0 +1,133 @@
+import { CarMappingConfig, ParameterRange, RangeViolation } from './types';
+
+/**
+ * Parts of a structured setup that don't hold garage values
+ */
+const NON_GARAGE_FIELDS = ['metadata', 'additionalSettings', 'rawSetup', 'carDetection'];
+
+/**
+ * Find the legal range of a field, by exact path first, then by wildcard pattern
+ * @param ranges Ranges of a car mapping
+ * @param fieldPath Path of the field in the structured setup
+ * @returns Legal range, or undefined if the mapping doesn't restrict the field
+ */
+export function findParameterRange(
+  ranges: CarMappingConfig['ranges'],
+  fieldPath: string
+): ParameterRange | undefined {
+  if (!ranges) return undefined;
+  if (ranges[fieldPath]) return ranges[fieldPath];
+
+  const pattern = Object.keys(ranges).find(key => key.includes('*') && globToRegExp(key).test(fieldPath));
+  return pattern ? ranges[pattern] : undefined;
+}
+
+/**
+ * Check whether a field matches one of a list of field paths or wildcard patterns
+ * @param patterns Field paths, '*' matches any part of a path segment
+ * @param fieldPath Path of the field in the structured setup
+ * @returns True if a path or pattern matches the field
+ */
+export function matchesFieldPattern(patterns: string[] | undefined, fieldPath: string): boolean {
+  return (patterns ?? []).some(pattern => pattern === fieldPath || (pattern.includes('*') && globToRegExp(pattern).test(fieldPath)));
+}
+
+/**
+ * Check whether a value is legal for a range (within bounds and on a step)
+ * @param value Value to check
+ * @param range Legal range
+ * @returns True if the garage accepts the value
+ */
+export function isWithinRange(value: number, range: ParameterRange): boolean {
+  return Math.abs(snapToRange(value, range) - value) < 1e-6;
+}
+
+/**
+ * Round a value to the closest value the range allows
+ * @param value Value to round
+ * @param range Legal range
+ * @returns Closest legal value
+ */
+export function snapToRange(value: number, range: ParameterRange): number {
+  if ('values' in range) {
+    return range.values.reduce((closest, candidate) =>
+      Math.abs(candidate - value) < Math.abs(closest - value) ? candidate : closest
+    );
+  }
+
+  const clamped = Math.min(range.max, Math.max(range.min, value));
+  if (!range.step) return clamped;
+
+  // Steps count from min, and the last step may not reach past max
+  const steps = Math.round((clamped - range.min) / range.step);
+  const snapped = Math.min(range.max, range.min + steps * range.step);
+  return Number(snapped.toPrecision(12));
+}
+
+/**
+ * Check every garage value of a setup against the ranges of a car mapping
+ * @param setup Structured setup data
+ * @param ranges Ranges of the car mapping
+ * @returns Values the car's garage doesn't accept
+ */
+export function validateAgainstRanges(setup: object, ranges: CarMappingConfig['ranges']): RangeViolation[] {
+  const violations: RangeViolation[] = [];
+
+  for (const [path, value] of collectNumericFields(setup)) {
+    const range = findParameterRange(ranges, path);
+    if (!range || isWithinRange(value, range)) continue;
+
+    violations.push({
+      path,
+      value,
+      range,
+      suggestedValue: snapToRange(value, range),
+      message: describeViolation(path, value, range)
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Describe why a value is not legal
+ */
+function describeViolation(path: string, value: number, range: ParameterRange): string {
+  if ('values' in range) {
+    return `${path} is ${value}, allowed values are ${range.values.join(', ')}`;
+  }
+
+  if (value < range.min || value > range.max) {
+    return `${path} is ${value}, outside the range ${range.min} to ${range.max}`;
+  }
+
+  return `${path} is ${value}, not a step of ${range.step} from ${range.min}`;
+}
+
+/**
+ * List the numeric values of a setup with their paths
+ */
+function collectNumericFields(value: any, path: string = ''): Array<[string, number]> {
+  if (typeof value === 'number') return [[path, value]];
+  if (typeof value !== 'object' || value === null) return [];
+
+  const fields: Array<[string, number]> = [];
+  for (const key of Object.keys(value)) {
+    if (path === '' && NON_GARAGE_FIELDS.includes(key)) continue;
+    fields.push(...collectNumericFields(value[key], path ? `${path}.${key}` : key));
+  }
+
+  return fields;
+}
+
+/**
+ * Turn a range pattern such as 'corners.front*.camber' into a regular expression
+ */
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[^.]*');
+
+  return new RegExp(`^${source}$`);
+}
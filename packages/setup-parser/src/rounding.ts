@@ -0,0 +1,9 @@
+/**
+ * Round a calculated value to thousandths, dropping floating-point noise while
+ * keeping more precision than any display needs
+ * @param value Calculated value
+ * @returns Value rounded to three decimals
+ */
+export function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
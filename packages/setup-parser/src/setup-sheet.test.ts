@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { parseSheetValue, readSetupSheet } from './setup-sheet';
+import { createDefaultParser } from './index';
+
+/**
+ * Setup sheet export in the layout of the iRacing garage
+ */
+const SHEET = `<html>
+<head><style>h2 { color: red; }</style><script>var x = '<h2>NOT A HEADING</h2>';</script></head>
+<body>
+<h2>BMW M4 GT3: Spa &amp; Eau Rouge</h2>
+<h3>Circuit de Spa-Francorchamps - Grand Prix Pits</h3>
+<h2>LEFT FRONT:</h2>
+Starting pressure: <u>24.0 psi</u><br>
+Camber: <u>-3.8 &deg;</u><br>
+Spring rate: <u>180 N/mm</u><br>
+Ride height: <u>2.30 in</u><br>
+<h2>AERO</h2>
+<table><tr><td>Rear wing angle:</td><td><u>5 clicks</u></td></tr></table>
+<h2>Brakes</h2>
+Brake pressure bias: <u>54.2%</u><br>
+Pad compound: <u>Medium</u><br>
+</body>
+</html>`;
+
+describe('readSetupSheet', () => {
+  it('groups the values by heading, with the headings before the first value as title', () => {
+    const sheet = readSetupSheet(SHEET);
+
+    expect(sheet.title).toEqual(['BMW M4 GT3: Spa & Eau Rouge', 'Circuit de Spa-Francorchamps - Grand Prix Pits']);
+    expect(Object.keys(sheet.sections)).toEqual(['LEFT FRONT', 'AERO', 'BRAKES']);
+    expect(sheet.sections['LEFT FRONT']).toEqual({
+      'Starting pressure': '24.0 psi',
+      'Camber': '-3.8 °',
+      'Spring rate': '180 N/mm',
+      'Ride height': '2.30 in'
+    });
+  });
+
+  it('reads rows of tables and ignores scripts and styles', () => {
+    const sheet = readSetupSheet(SHEET);
+
+    expect(sheet.sections.AERO).toEqual({ 'Rear wing angle': '5 clicks' });
+    expect(sheet.sections['NOT A HEADING']).toBeUndefined();
+  });
+});
+
+describe('parseSheetValue', () => {
+  it('converts values with a unit to the base units of the structured setup', () => {
+    expect(parseSheetValue('24.0 psi')).toBeCloseTo(165.474, 3);
+    expect(parseSheetValue('180 N/mm')).toBe(180000);
+    expect(parseSheetValue('2.30 in')).toBe(58.42);
+  });
+
+  it('keeps angles, percentages and clicks as they are', () => {
+    expect(parseSheetValue('-3.8 °')).toBe(-3.8);
+    expect(parseSheetValue('-3.8 deg')).toBe(-3.8);
+    expect(parseSheetValue('54.2%')).toBe(54.2);
+    expect(parseSheetValue('5 clicks')).toBe(5);
+    expect(parseSheetValue('+2')).toBe(2);
+  });
+
+  it('returns text values trimmed', () => {
+    expect(parseSheetValue(' Medium ')).toBe('Medium');
+  });
+});
+
+describe('parseHtmlSetupSheet', () => {
+  const parser = createDefaultParser();
+
+  it('recognizes the car from the title and maps the values', () => {
+    const setup = parser.parseHtmlSetupSheet(SHEET);
+
+    expect(setup.carId).toBe('bmw_m4_gt3');
+    expect(setup.name).toBe('Spa & Eau Rouge');
+    expect(setup.tirePressures.frontLeft).toBeCloseTo(165.474, 3);
+    expect(setup.corners?.frontLeft.rideHeight).toBe(58.42);
+  });
+
+  it('fails for cars without a setup sheet mapping', () => {
+    expect(() => parser.parseHtmlSetupSheet(SHEET.replace('BMW M4 GT3', 'Unknown Car'))).toThrow(
+      'No setup sheet mapping available for car: Unknown Car: Spa & Eau Rouge'
+    );
+  });
+});
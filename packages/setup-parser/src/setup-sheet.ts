@@ -0,0 +1,119 @@
+/**
+ * Reader for the HTML "setup sheet" iRacing exports from the garage
+ *
+ * The export is a flat list of headings (car and setup name, track, then one
+ * heading per garage section such as "LEFT FRONT" or "AERO") followed by
+ * `Label: <u>value unit</u><br>` rows.
+ */
+
+import { parseUnit, convertUnit, getUnitQuantity, BASE_UNITS } from './units';
+
+/**
+ * Setup sheet content grouped by section heading
+ */
+export interface SetupSheet {
+  // Headings found before the first garage value (car/setup name, track)
+  title: string[];
+
+  // Section heading -> label -> raw display value (e.g. '152.0 kPa')
+  sections: {
+    [sectionName: string]: {
+      [label: string]: string;
+    };
+  };
+}
+
+/**
+ * Display units of unitless values (angles, percentages, adjuster clicks)
+ */
+const UNITLESS_SHEET_UNITS = ['deg', '°', '%', 'clicks'];
+
+/**
+ * Read the sections and values of an HTML setup sheet
+ * @param html Content of the setup sheet export
+ * @returns Setup sheet values grouped by section
+ */
+export function readSetupSheet(html: string): SetupSheet {
+  const sheet: SetupSheet = { title: [], sections: {} };
+
+  // Turn headings into markers and the rest of the markup into plain lines
+  const text = html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<h[1-6][^>]*>([\s\S]*?)<\/h[1-6]>/gi, (_, heading) => `\n[[${stripTags(heading)}]]\n`)
+    .replace(/<br\s*\/?>|<\/(p|div|tr|li)>/gi, '\n')
+    .replace(/<\/t[dh]>/gi, ' ');
+
+  let currentSection: string | null = null;
+  const headings: string[] = [];
+
+  for (const rawLine of stripTags(text, false).split('\n')) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const heading = line.match(/^\[\[(.*)\]\]$/);
+    if (heading) {
+      const name = heading[1].trim().replace(/:$/, '').trim();
+      if (name) {
+        headings.push(name);
+        currentSection = name.toUpperCase();
+      }
+      continue;
+    }
+
+    const entry = line.match(/^([^:]+):\s*(.+)$/);
+    if (!entry || currentSection === null) continue;
+
+    // Headings before the first value describe the setup rather than a section
+    if (Object.keys(sheet.sections).length === 0) {
+      sheet.title = headings.slice(0, -1);
+    }
+
+    if (!sheet.sections[currentSection]) {
+      sheet.sections[currentSection] = {};
+    }
+
+    sheet.sections[currentSection][entry[1].trim()] = entry[2].trim();
+  }
+
+  return sheet;
+}
+
+/**
+ * Parse a setup sheet display value into the units used by ParsedSetup
+ * @param displayValue Value as shown in the sheet (e.g. '22.5 psi', '-3.2 deg', '55.0%')
+ * @returns Converted number, or the original text if it is not numeric
+ */
+export function parseSheetValue(displayValue: string): number | string {
+  const match = displayValue.trim().match(/^([+-]?\d+(?:\.\d+)?)\s*(.*)$/);
+  if (!match) return displayValue.trim();
+
+  const value = parseFloat(match[1]);
+  const unitText = match[2].trim();
+  if (!unitText || UNITLESS_SHEET_UNITS.includes(unitText.toLowerCase())) return value;
+
+  const unit = parseUnit(unitText);
+  if (!unit) return value;
+
+  // Keep the conversion free of floating-point noise
+  const converted = convertUnit(value, unit, BASE_UNITS[getUnitQuantity(unit)]);
+  return Number(converted.toPrecision(10));
+}
+
+/**
+ * Remove markup and decode the common HTML entities
+ * @param html HTML fragment
+ * @param collapse Whether to collapse whitespace (including newlines)
+ */
+function stripTags(html: string, collapse: boolean = true): string {
+  const text = html
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&deg;/gi, '°')
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;/gi, "'")
+    .replace(/&amp;/gi, '&');
+
+  return collapse ? text.replace(/\s+/g, ' ').trim() : text;
+}
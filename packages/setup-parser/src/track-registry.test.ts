@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import { TrackRegistry, createDefaultTrackRegistry, createTrackInfo, findTrackSegment, formatTrackInfo, getTrackSegments } from './track-registry';
+import { TrackDefinition } from './types';
+
+/**
+ * One kilometre loop with three corners, whose segment boundaries are easy to check by hand
+ */
+const TEST_TRACK: TrackDefinition = {
+  trackId: 'test_ring',
+  name: 'Test Ring',
+  aliases: ['tr'],
+  country: 'Nowhere',
+  elevationChange: 5,
+  bumpiness: 'smooth',
+  configs: [
+    {
+      configId: 'full',
+      name: 'Full Circuit',
+      length: 1000,
+      downforce: 'high',
+      corners: [
+        { number: 1, name: 'Hairpin', distance: 100, speed: 'slow' },
+        { number: 2, distance: 400, speed: 'medium' },
+        { number: 3, distance: 800, speed: 'fast' }
+      ]
+    },
+    {
+      configId: 'short',
+      name: 'Short Circuit',
+      aliases: ['club'],
+      length: 600,
+      downforce: 'medium',
+      corners: []
+    }
+  ]
+};
+
+describe('TrackRegistry.resolveTrack', () => {
+  const registry = createDefaultTrackRegistry();
+
+  it('resolves the TRACK entries of .sto files to a layout', () => {
+    expect(registry.resolveTrack('spa up')).toEqual({ trackId: 'spa', configId: 'grand_prix' });
+    expect(registry.resolveTrack('watkinsglen 2021 fullcourse')).toEqual({ trackId: 'watkins_glen', configId: 'boot' });
+    expect(registry.resolveTrack('daytonaint road course')).toEqual({ trackId: 'daytona', configId: 'road' });
+  });
+
+  it('ignores case, accents, punctuation and layout years', () => {
+    expect(registry.resolveTrack('Nürburgring - GP')).toEqual({ trackId: 'nurburgring', configId: 'grand_prix' });
+    expect(registry.resolveTrack('SILVERSTONE 2019 gp')).toEqual({ trackId: 'silverstone', configId: 'grand_prix' });
+    expect(registry.resolveTrack('Circuit de Spa-Francorchamps')).toEqual({ trackId: 'spa', configId: 'grand_prix' });
+  });
+
+  it('prefers the longest track match, taking the first layout without configuration', () => {
+    expect(registry.resolveTrack('road atlanta')).toEqual({ trackId: 'road_atlanta', configId: 'full' });
+    expect(registry.resolveTrack('road_atlanta fullcourse')).toEqual({ trackId: 'road_atlanta', configId: 'full' });
+  });
+
+  it('has no layout for unknown tracks and configurations', () => {
+    expect(registry.resolveTrack('limerock full')).toBeUndefined();
+    expect(registry.resolveTrack('spa oval')).toBeUndefined();
+    expect(registry.resolveTrack('')).toBeUndefined();
+  });
+
+  it('matches the layouts of registered tracks by identifier, name and aliases', () => {
+    const testRegistry = new TrackRegistry();
+    testRegistry.registerTrack(TEST_TRACK);
+
+    expect(testRegistry.resolveTrack('test_ring')).toEqual({ trackId: 'test_ring', configId: 'full' });
+    expect(testRegistry.resolveTrack('Test Ring - Short Circuit')).toEqual({ trackId: 'test_ring', configId: 'short' });
+    expect(testRegistry.resolveTrack('tr club')).toEqual({ trackId: 'test_ring', configId: 'short' });
+  });
+});
+
+describe('TrackRegistry.normalizeTrackId', () => {
+  it('uses the canonical identifier of known tracks and a readable identifier otherwise', () => {
+    const registry = createDefaultTrackRegistry();
+
+    expect(registry.normalizeTrackId('spa 2024 up')).toBe('spa');
+    expect(registry.normalizeTrackId('Lime Rock Park')).toBe('lime_rock_park');
+    expect(registry.normalizeTrackId('lime-rock 2008 full')).toBe('lime_rock_full');
+  });
+});
+
+describe('TrackRegistry.getTrackInfo', () => {
+  it('combines the layout with the metadata of its track', () => {
+    expect(new TrackRegistry([TEST_TRACK]).getTrackInfo('test ring')).toEqual({
+      trackId: 'test_ring',
+      configId: 'full',
+      name: 'Test Ring - Full Circuit',
+      country: 'Nowhere',
+      length: 1000,
+      corners: TEST_TRACK.configs[0].corners,
+      elevationChange: 5,
+      bumpiness: 'smooth',
+      downforce: 'high'
+    });
+  });
+
+  it('has metadata for every bundled layout', () => {
+    const registry = createDefaultTrackRegistry();
+
+    for (const track of registry.listTracks()) {
+      for (const config of track.configs) {
+        const info = registry.getTrackInfo(`${track.trackId} ${config.configId}`);
+
+        expect(info).toMatchObject({ trackId: track.trackId, configId: config.configId });
+        expect(info!.corners.map(corner => corner.distance)).toEqual(
+          info!.corners.map(corner => corner.distance).sort((a, b) => a - b));
+        expect(info!.corners.every(corner => corner.distance < info!.length)).toBe(true);
+      }
+    }
+  });
+});
+
+describe('getTrackSegments', () => {
+  const track = createTrackInfo(TEST_TRACK, TEST_TRACK.configs[0]);
+
+  it('splits the lap halfway between the apexes, wrapping the first segment around the start/finish line', () => {
+    expect(getTrackSegments(track).map(({ corner, start, end }) => [corner.number, start, end])).toEqual([
+      [1, 950, 250],
+      [2, 250, 600],
+      [3, 600, 950]
+    ]);
+  });
+
+  it('has no segments for layouts without corners', () => {
+    expect(getTrackSegments(createTrackInfo(TEST_TRACK, TEST_TRACK.configs[1]))).toEqual([]);
+  });
+});
+
+describe('findTrackSegment', () => {
+  const track = createTrackInfo(TEST_TRACK, TEST_TRACK.configs[0]);
+
+  it('finds the segment of a point, including the boundaries where segments start', () => {
+    expect(findTrackSegment(track, 250)?.corner.number).toBe(2);
+    expect(findTrackSegment(track, 249)?.corner.number).toBe(1);
+    expect(findTrackSegment(track, 949)?.corner.number).toBe(3);
+    expect(findTrackSegment(track, 950)?.corner.number).toBe(1);
+  });
+
+  it('wraps distances beyond the lap and before the start/finish line', () => {
+    expect(findTrackSegment(track, 0)?.corner.number).toBe(1);
+    expect(findTrackSegment(track, 1500)?.corner.number).toBe(2);
+    expect(findTrackSegment(track, -100)?.corner.number).toBe(3);
+  });
+
+  it('puts the whole lap in the segment of a single corner', () => {
+    const singleCorner = { length: 1000, corners: [TEST_TRACK.configs[0].corners[0]] };
+
+    expect(getTrackSegments(singleCorner)).toEqual([{ corner: singleCorner.corners[0], start: 600, end: 600 }]);
+    expect(findTrackSegment(singleCorner, 600)?.corner.number).toBe(1);
+    expect(findTrackSegment(singleCorner, 599)?.corner.number).toBe(1);
+  });
+
+  it('has no segment on layouts without corners', () => {
+    expect(findTrackSegment(createTrackInfo(TEST_TRACK, TEST_TRACK.configs[1]), 100)).toBeUndefined();
+  });
+});
+
+describe('formatTrackInfo', () => {
+  it('summarizes the layout followed by its corners', () => {
+    expect(formatTrackInfo(createTrackInfo(TEST_TRACK, TEST_TRACK.configs[0]))).toBe([
+      'Test Ring - Full Circuit (test_ring/full), Nowhere',
+      '1.000 km, 3 corners, 5 m elevation change, smooth surface, high downforce',
+      '  T1 Hairpin at 100 m (slow)',
+      '  T2 at 400 m (medium)',
+      '  T3 at 800 m (fast)'
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,213 @@
+import { TrackConfig, TrackDefinition, TrackInfo, TrackReference, TrackSegment } from './types';
+import { bundledTracks } from './tracks';
+
+/**
+ * Layout years iRacing adds to track identifiers ('silverstone 2019 gp')
+ */
+const YEAR_PATTERN = /^(19|20)\d{2}$/;
+
+/**
+ * Registry of tracks that resolves iRacing track identifiers to track layouts
+ *
+ * The TRACK entry of a .sto file is the iRacing track directory followed by
+ * the configuration, e.g. 'spa up' or 'watkinsglen 2021 fullcourse'. The
+ * registry matches it against the identifier, name and aliases of each track
+ * and layout, ignoring case, punctuation, spaces and layout years.
+ */
+export class TrackRegistry {
+  private tracks: Map<string, TrackDefinition> = new Map();
+
+  /**
+   * Create a new TrackRegistry
+   * @param tracks Tracks to register
+   */
+  constructor(tracks: TrackDefinition[] = []) {
+    for (const track of tracks) {
+      this.tracks.set(track.trackId, track);
+    }
+  }
+
+  /**
+   * Register a track, replacing a track with the same identifier
+   * @param track Track definition
+   */
+  public registerTrack(track: TrackDefinition): void {
+    this.tracks.set(track.trackId, track);
+  }
+
+  /**
+   * Get the registered tracks
+   * @returns Track definitions in registration order
+   */
+  public listTracks(): TrackDefinition[] {
+    return [...this.tracks.values()];
+  }
+
+  /**
+   * Resolve a track identifier to the canonical identifiers of a layout
+   * @param identifier iRacing track identifier, canonical identifier or track name
+   * @returns Track and configuration, the first layout of the track when the
+   *   identifier has no configuration, or undefined if the track or configuration is unknown
+   */
+  public resolveTrack(identifier: string): TrackReference | undefined {
+    const tokens = tokenize(identifier);
+
+    // Longest match first, so 'road atlanta' isn't read as a 'road' layout of another track
+    for (let count = tokens.length; count > 0; count--) {
+      const track = this.findTrack(tokens.slice(0, count).join(''));
+      if (!track) continue;
+
+      const configKey = tokens.slice(count).join('');
+      const config = configKey
+        ? track.configs.find(candidate => matches(configKey, candidate.configId, candidate.name, candidate.aliases))
+        : track.configs[0];
+
+      return config ? { trackId: track.trackId, configId: config.configId } : undefined;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Normalize a track identifier
+   * @param identifier iRacing track identifier, canonical identifier or track name
+   * @returns Canonical track identifier of a known track, otherwise the
+   *   identifier in lowercase with words joined by underscores ('Lime Rock Park' -> 'lime_rock_park')
+   */
+  public normalizeTrackId(identifier: string): string {
+    return this.resolveTrack(identifier)?.trackId ?? tokenize(identifier).join('_');
+  }
+
+  /**
+   * Get the metadata of a track layout
+   * @param identifier iRacing track identifier, canonical identifier or track name
+   * @returns Layout with the metadata of its track, or undefined if the track or configuration is unknown
+   */
+  public getTrackInfo(identifier: string): TrackInfo | undefined {
+    const reference = this.resolveTrack(identifier);
+    if (!reference) return undefined;
+
+    const track = this.tracks.get(reference.trackId)!;
+    const config = track.configs.find(candidate => candidate.configId === reference.configId)!;
+
+    return createTrackInfo(track, config);
+  }
+
+  /**
+   * Find the track an identifier without configuration refers to
+   * @param key Identifier words joined without separators
+   */
+  private findTrack(key: string): TrackDefinition | undefined {
+    for (const track of this.tracks.values()) {
+      if (matches(key, track.trackId, track.name, track.aliases)) return track;
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Create a track registry with the bundled tracks
+ * @returns Track registry
+ */
+export function createDefaultTrackRegistry(): TrackRegistry {
+  return new TrackRegistry(bundledTracks);
+}
+
+/**
+ * Combine a layout with the metadata of its track
+ * @param track Track definition
+ * @param config Layout of the track
+ * @returns Track information of the layout
+ */
+export function createTrackInfo(track: TrackDefinition, config: TrackConfig): TrackInfo {
+  return {
+    trackId: track.trackId,
+    configId: config.configId,
+    name: `${track.name} - ${config.name}`,
+    country: track.country,
+    length: config.length,
+    corners: config.corners,
+    elevationChange: track.elevationChange,
+    bumpiness: track.bumpiness,
+    downforce: config.downforce
+  };
+}
+
+/**
+ * Split a lap into one segment per corner
+ *
+ * Segments meet halfway between the apexes of consecutive corners, so every
+ * point of the lap belongs to the segment of the nearest corner ahead or
+ * behind. The segment around the start/finish line wraps around the end of the lap.
+ * @param track Track layout
+ * @returns Segments in corner order, empty if the layout has no corners
+ */
+export function getTrackSegments(track: Pick<TrackInfo, 'length' | 'corners'>): TrackSegment[] {
+  const { corners, length } = track;
+
+  return corners.map((corner, index) => {
+    const previousDistance = index > 0 ? corners[index - 1].distance : corners[corners.length - 1].distance - length;
+    const nextDistance = index < corners.length - 1 ? corners[index + 1].distance : corners[0].distance + length;
+
+    return {
+      corner,
+      start: wrapDistance((previousDistance + corner.distance) / 2, length),
+      end: wrapDistance((corner.distance + nextDistance) / 2, length)
+    };
+  });
+}
+
+/**
+ * Find the corner segment a point of the lap belongs to
+ * @param track Track layout
+ * @param distance Distance from the start/finish line in m, wrapped to the lap length
+ * @returns Segment containing the point, or undefined if the layout has no corners
+ */
+export function findTrackSegment(track: Pick<TrackInfo, 'length' | 'corners'>, distance: number): TrackSegment | undefined {
+  const lapDistance = wrapDistance(distance, track.length);
+
+  return getTrackSegments(track).find(segment => segment.start < segment.end
+    ? lapDistance >= segment.start && lapDistance < segment.end
+    : lapDistance >= segment.start || lapDistance < segment.end);
+}
+
+/**
+ * Format the metadata of a track layout as human-readable text
+ * @param info Track information
+ * @returns Summary line followed by one line per corner
+ */
+export function formatTrackInfo(info: TrackInfo): string {
+  return [
+    `${info.name} (${info.trackId}/${info.configId}), ${info.country}`,
+    `${(info.length / 1000).toFixed(3)} km, ${info.corners.length} corners, ${info.elevationChange} m elevation change, ` +
+      `${info.bumpiness} surface, ${info.downforce} downforce`,
+    ...info.corners.map(corner =>
+      `  T${corner.number}${corner.name ? ` ${corner.name}` : ''} at ${corner.distance} m (${corner.speed})`)
+  ].join('\n');
+}
+
+/**
+ * Split an identifier into lowercase words without accents and layout years
+ */
+function tokenize(identifier: string): string[] {
+  return identifier
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 0 && !YEAR_PATTERN.test(token));
+}
+
+/**
+ * Check whether an identifier key matches an identifier, name or alias
+ */
+function matches(key: string, id: string, name: string, aliases: string[] = []): boolean {
+  return [id, name, ...aliases].some(candidate => tokenize(candidate).join('') === key);
+}
+
+/**
+ * Wrap a distance to the range of a lap
+ */
+function wrapDistance(distance: number, length: number): number {
+  return ((distance % length) + length) % length;
+}
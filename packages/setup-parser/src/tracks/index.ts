@@ -0,0 +1,301 @@
+import { TrackDefinition } from '../types';
+
+/**
+ * Circuit de Spa-Francorchamps
+ */
+export const spaTrack: TrackDefinition = {
+  trackId: 'spa',
+  name: 'Circuit de Spa-Francorchamps',
+  aliases: ['spafrancorchamps'],
+  country: 'Belgium',
+  elevationChange: 102,
+  bumpiness: 'moderate',
+  configs: [
+    {
+      configId: 'grand_prix',
+      name: 'Grand Prix',
+      aliases: ['up', 'gp', 'grandprixpits', 'classicpits', 'endurance'],
+      length: 7004,
+      downforce: 'medium',
+      corners: [
+        { number: 1, name: 'La Source', distance: 240, speed: 'slow' },
+        { number: 2, name: 'Eau Rouge', distance: 880, speed: 'fast' },
+        { number: 4, name: 'Raidillon', distance: 990, speed: 'fast' },
+        { number: 5, name: 'Les Combes', distance: 2050, speed: 'medium' },
+        { number: 6, distance: 2130, speed: 'medium' },
+        { number: 7, name: 'Malmedy', distance: 2330, speed: 'medium' },
+        { number: 8, name: 'Bruxelles', distance: 2620, speed: 'slow' },
+        { number: 9, distance: 2880, speed: 'medium' },
+        { number: 10, name: 'Pouhon', distance: 3380, speed: 'fast' },
+        { number: 12, name: 'Fagnes', distance: 3880, speed: 'medium' },
+        { number: 13, distance: 4050, speed: 'medium' },
+        { number: 14, name: 'Stavelot', distance: 4330, speed: 'medium' },
+        { number: 15, name: 'Paul Frère', distance: 4560, speed: 'fast' },
+        { number: 17, name: 'Blanchimont', distance: 5550, speed: 'fast' },
+        { number: 18, name: 'Bus Stop', distance: 6650, speed: 'slow' },
+        { number: 19, distance: 6720, speed: 'slow' }
+      ]
+    }
+  ]
+};
+
+/**
+ * Autodromo Nazionale Monza
+ */
+export const monzaTrack: TrackDefinition = {
+  trackId: 'monza',
+  name: 'Autodromo Nazionale Monza',
+  country: 'Italy',
+  elevationChange: 13,
+  bumpiness: 'moderate',
+  configs: [
+    {
+      configId: 'grand_prix',
+      name: 'Grand Prix',
+      aliases: ['full', 'gp'],
+      length: 5793,
+      downforce: 'low',
+      corners: [
+        { number: 1, name: 'Variante del Rettifilo', distance: 700, speed: 'slow' },
+        { number: 2, distance: 760, speed: 'slow' },
+        { number: 3, name: 'Curva Biassono', distance: 1450, speed: 'fast' },
+        { number: 4, name: 'Variante della Roggia', distance: 2150, speed: 'slow' },
+        { number: 5, distance: 2210, speed: 'slow' },
+        { number: 6, name: 'Lesmo 1', distance: 2640, speed: 'medium' },
+        { number: 7, name: 'Lesmo 2', distance: 2920, speed: 'medium' },
+        { number: 8, name: 'Variante Ascari', distance: 3880, speed: 'medium' },
+        { number: 9, distance: 3960, speed: 'medium' },
+        { number: 10, distance: 4080, speed: 'fast' },
+        { number: 11, name: 'Parabolica', distance: 5050, speed: 'medium' }
+      ]
+    }
+  ]
+};
+
+/**
+ * Nürburgring Grand Prix circuit
+ */
+export const nurburgringTrack: TrackDefinition = {
+  trackId: 'nurburgring',
+  name: 'Nürburgring',
+  aliases: ['nuerburgring'],
+  country: 'Germany',
+  elevationChange: 56,
+  bumpiness: 'moderate',
+  configs: [
+    {
+      configId: 'grand_prix',
+      name: 'Grand Prix',
+      aliases: ['gp', 'gpbesson'],
+      length: 5148,
+      downforce: 'high',
+      corners: [
+        { number: 1, name: 'Castrol-S', distance: 350, speed: 'slow' },
+        { number: 2, distance: 450, speed: 'medium' },
+        { number: 3, name: 'Mercedes-Arena', distance: 850, speed: 'slow' },
+        { number: 4, distance: 1000, speed: 'medium' },
+        { number: 5, name: 'Valvoline-Kurve', distance: 1550, speed: 'medium' },
+        { number: 6, name: 'Ford-Kurve', distance: 1850, speed: 'medium' },
+        { number: 7, name: 'Dunlop-Kehre', distance: 2350, speed: 'slow' },
+        { number: 8, name: 'Schumacher-S', distance: 2900, speed: 'fast' },
+        { number: 9, distance: 3050, speed: 'fast' },
+        { number: 10, name: 'Kumho-Kurve', distance: 3300, speed: 'medium' },
+        { number: 11, name: 'Bit-Kurve', distance: 3650, speed: 'medium' },
+        { number: 12, distance: 3900, speed: 'fast' },
+        { number: 13, name: 'Advan-Bogen', distance: 4200, speed: 'fast' },
+        { number: 14, name: 'NGK-Schikane', distance: 4650, speed: 'slow' },
+        { number: 15, distance: 4720, speed: 'slow' },
+        { number: 16, name: 'Coca-Cola-Kurve', distance: 4950, speed: 'slow' }
+      ]
+    }
+  ]
+};
+
+/**
+ * Silverstone Circuit
+ */
+export const silverstoneTrack: TrackDefinition = {
+  trackId: 'silverstone',
+  name: 'Silverstone Circuit',
+  country: 'United Kingdom',
+  elevationChange: 17,
+  bumpiness: 'bumpy',
+  configs: [
+    {
+      configId: 'grand_prix',
+      name: 'Grand Prix',
+      aliases: ['gp'],
+      length: 5891,
+      downforce: 'high',
+      corners: [
+        { number: 1, name: 'Abbey', distance: 330, speed: 'fast' },
+        { number: 2, name: 'Farm', distance: 480, speed: 'fast' },
+        { number: 3, name: 'Village', distance: 700, speed: 'slow' },
+        { number: 4, name: 'The Loop', distance: 830, speed: 'slow' },
+        { number: 5, name: 'Aintree', distance: 950, speed: 'medium' },
+        { number: 6, name: 'Brooklands', distance: 1750, speed: 'slow' },
+        { number: 7, name: 'Luffield', distance: 1950, speed: 'slow' },
+        { number: 8, name: 'Woodcote', distance: 2200, speed: 'fast' },
+        { number: 9, name: 'Copse', distance: 2650, speed: 'fast' },
+        { number: 10, name: 'Maggotts', distance: 3350, speed: 'fast' },
+        { number: 12, name: 'Becketts', distance: 3600, speed: 'medium' },
+        { number: 13, name: 'Chapel', distance: 3750, speed: 'fast' },
+        { number: 15, name: 'Stowe', distance: 4700, speed: 'fast' },
+        { number: 16, name: 'Vale', distance: 5250, speed: 'slow' },
+        { number: 17, distance: 5350, speed: 'slow' },
+        { number: 18, name: 'Club', distance: 5600, speed: 'medium' }
+      ]
+    }
+  ]
+};
+
+/**
+ * Michelin Raceway Road Atlanta
+ */
+export const roadAtlantaTrack: TrackDefinition = {
+  trackId: 'road_atlanta',
+  name: 'Michelin Raceway Road Atlanta',
+  aliases: ['michelinracewayroadatlanta'],
+  country: 'United States',
+  elevationChange: 36,
+  bumpiness: 'bumpy',
+  configs: [
+    {
+      configId: 'full',
+      name: 'Full Course',
+      aliases: ['fullcourse'],
+      length: 4088,
+      downforce: 'medium',
+      corners: [
+        { number: 1, distance: 270, speed: 'fast' },
+        { number: 2, distance: 500, speed: 'medium' },
+        { number: 3, distance: 600, speed: 'fast' },
+        { number: 4, distance: 800, speed: 'fast' },
+        { number: 5, distance: 1000, speed: 'medium' },
+        { number: 6, distance: 1350, speed: 'medium' },
+        { number: 7, distance: 1650, speed: 'slow' },
+        { number: 10, name: 'Chicane', distance: 3350, speed: 'slow' },
+        { number: 11, distance: 3650, speed: 'fast' },
+        { number: 12, distance: 3850, speed: 'medium' }
+      ]
+    }
+  ]
+};
+
+/**
+ * Watkins Glen International
+ */
+export const watkinsGlenTrack: TrackDefinition = {
+  trackId: 'watkins_glen',
+  name: 'Watkins Glen International',
+  country: 'United States',
+  elevationChange: 30,
+  bumpiness: 'moderate',
+  configs: [
+    {
+      configId: 'boot',
+      name: 'Boot',
+      aliases: ['fullcourse', 'full'],
+      length: 5430,
+      downforce: 'medium',
+      corners: [
+        { number: 1, name: 'The 90', distance: 220, speed: 'slow' },
+        { number: 2, name: 'Esses', distance: 520, speed: 'fast' },
+        { number: 3, distance: 600, speed: 'fast' },
+        { number: 4, distance: 700, speed: 'fast' },
+        { number: 5, name: 'Inner Loop', distance: 1800, speed: 'slow' },
+        { number: 6, name: 'Outer Loop', distance: 2100, speed: 'medium' },
+        { number: 7, name: 'Toe', distance: 2900, speed: 'slow' },
+        { number: 8, name: 'Heel', distance: 3300, speed: 'medium' },
+        { number: 9, distance: 3600, speed: 'medium' },
+        { number: 10, distance: 4400, speed: 'fast' },
+        { number: 11, distance: 5100, speed: 'medium' }
+      ]
+    }
+  ]
+};
+
+/**
+ * Daytona International Speedway
+ */
+export const daytonaTrack: TrackDefinition = {
+  trackId: 'daytona',
+  name: 'Daytona International Speedway',
+  aliases: ['daytonaint'],
+  country: 'United States',
+  elevationChange: 9,
+  bumpiness: 'smooth',
+  configs: [
+    {
+      configId: 'road',
+      name: 'Road Course',
+      aliases: ['roadcourse'],
+      length: 5729,
+      downforce: 'low',
+      corners: [
+        { number: 1, name: 'International Horseshoe', distance: 400, speed: 'slow' },
+        { number: 3, name: 'Kink', distance: 950, speed: 'medium' },
+        { number: 5, name: 'West Horseshoe', distance: 1400, speed: 'slow' },
+        { number: 6, distance: 1600, speed: 'medium' },
+        { number: 7, name: 'NASCAR 1-2', distance: 2100, speed: 'fast' },
+        { number: 8, name: 'Bus Stop', distance: 3450, speed: 'slow' },
+        { number: 9, distance: 3550, speed: 'slow' },
+        { number: 11, name: 'NASCAR 3-4', distance: 4400, speed: 'fast' },
+        { number: 12, name: 'Tri-Oval', distance: 5400, speed: 'fast' }
+      ]
+    }
+  ]
+};
+
+/**
+ * Suzuka International Racing Course
+ */
+export const suzukaTrack: TrackDefinition = {
+  trackId: 'suzuka',
+  name: 'Suzuka International Racing Course',
+  country: 'Japan',
+  elevationChange: 40,
+  bumpiness: 'moderate',
+  configs: [
+    {
+      configId: 'grand_prix',
+      name: 'Grand Prix',
+      aliases: ['gp', 'full'],
+      length: 5807,
+      downforce: 'high',
+      corners: [
+        { number: 1, distance: 550, speed: 'fast' },
+        { number: 2, distance: 700, speed: 'medium' },
+        { number: 3, name: 'S Curves', distance: 950, speed: 'fast' },
+        { number: 6, distance: 1350, speed: 'fast' },
+        { number: 7, name: 'Dunlop', distance: 1600, speed: 'fast' },
+        { number: 8, name: 'Degner 1', distance: 2000, speed: 'fast' },
+        { number: 9, name: 'Degner 2', distance: 2150, speed: 'medium' },
+        { number: 11, name: 'Hairpin', distance: 2550, speed: 'slow' },
+        { number: 12, name: '200R', distance: 3100, speed: 'fast' },
+        { number: 13, name: 'Spoon', distance: 3650, speed: 'medium' },
+        { number: 14, distance: 3800, speed: 'medium' },
+        { number: 15, name: '130R', distance: 4900, speed: 'fast' },
+        { number: 16, name: 'Casio Triangle', distance: 5300, speed: 'slow' },
+        { number: 17, distance: 5360, speed: 'slow' }
+      ]
+    }
+  ]
+};
+
+/**
+ * Tracks bundled with the package
+ *
+ * Corner distances are approximate apex positions, good enough to tell which
+ * corner a telemetry sample belongs to but not to place braking points.
+ */
+export const bundledTracks: TrackDefinition[] = [
+  spaTrack,
+  monzaTrack,
+  nurburgringTrack,
+  silverstoneTrack,
+  roadAtlantaTrack,
+  watkinsGlenTrack,
+  daytonaTrack,
+  suzukaTrack
+];
@@ -1,3 +1,9 @@
+import { Setup, SetupCorners } from 'setup-schema';
+import { Unit } from './units';
+
+// Setup parts shared with the other packages
+export type { SetupCorners, CornerSettings, DamperSettings, Gearbox, HeaveSpring } from 'setup-schema';
+
 /**
  * Interface representing the structure of an iRacing setup file (.sto)
  */
@@ -24,144 +30,144 @@ export interface SetupFile {
       [key: string]: string | number | boolean;
     };
   };
+  
+  // Top-level entries of the file (VERSION, CAR, TRACK, ...) in file order
+  rootValues?: {
+    [key: string]: string | number | boolean;
+  };
+  
+  // Format of the file the setup was read from; setups are always written as
+  // INI-like text, iRacing reads both
+  format?: 'ini' | 'binary';
+  
+  // Original text layout of INI-like files, used to write unedited lines back verbatim
+  layout?: {
+    // Lines of the file in order
+    lines: SetupFileLine[];
+    
+    // Line ending used by the file
+    lineEnding: string;
+  };
 }
 
+/**
+ * A single line of an INI-like .sto file
+ */
+export type SetupFileLine =
+  | { type: 'section'; name: string; raw: string }
+  | { type: 'entry'; section: string | null; key: string; raw: string }
+  | { type: 'other'; raw: string };
+
 /**
  * Interface representing a parsed setup in a more structured format
- * This matches the SetupData interface from the ai-agents package
+ *
+ * The setup fields are defined once by the shared setup schema (setup-schema),
+ * this adds what the parser needs on top of them.
  */
-export interface ParsedSetup {
-  // Car model identifier
-  carId: string;
+export interface ParsedSetup extends Setup {
+  // How the car mapping was chosen when the CAR entry of the file didn't name a
+  // registered car, so the UI can ask the user to confirm the car
+  carDetection?: CarDetectionResult;
   
-  // Track identifier
-  trackId: string;
+  // Problems found while parsing, only when requested with ParseOptions.diagnostics
+  diagnostics?: ParseDiagnostic[];
   
-  // Setup name
-  name: string;
+  // Raw setup file this setup was parsed from, so unmapped sections, keys and
+  // header fields survive when edits are written back with convertToSto
+  rawSetup?: SetupFile;
   
-  // Setup description or notes
-  description?: string;
-  
-  // Suspension settings
-  suspension: {
-    // Front suspension settings
-    front: {
-      // Spring rate in N/m
-      springRate: number;
-      
-      // Ride height in mm
-      rideHeight: number;
-      
-      // Camber angle in degrees (negative is tilted inward at top)
-      camber: number;
-      
-      // Toe angle in degrees (positive is toe-in)
-      toe: number;
-      
-      // Anti-roll bar stiffness (0-100 scale or specific units)
-      antiRollBar: number;
-    },
-    
-    // Rear suspension settings
-    rear: {
-      // Spring rate in N/m
-      springRate: number;
-      
-      // Ride height in mm
-      rideHeight: number;
-      
-      // Camber angle in degrees (negative is tilted inward at top)
-      camber: number;
-      
-      // Toe angle in degrees (positive is toe-in)
-      toe: number;
-      
-      // Anti-roll bar stiffness (0-100 scale or specific units)
-      antiRollBar: number;
-    }
-  };
+  // Axle values as last derived from the corners, so an edit of the axle view
+  // can be told apart from an edit of a single corner
+  cornerAxles?: CornerAxleValues;
+}
+
+/**
+ * Axle values of a per-corner setup at the time they were derived from its corners
+ */
+export type CornerAxleValues = Pick<Setup, 'suspension' | 'dampers'>;
+
+/**
+ * Options for parsing a setup file
+ */
+export interface ParseOptions {
+  // Car mapping to use, instead of the CAR entry of the file and car detection
+  carId?: string;
   
-  // Damper/shock absorber settings
-  dampers: {
-    // Front damper settings
-    front: {
-      // Bump/compression damping (0-100 scale or specific units)
-      bump: number;
-      
-      // Rebound damping (0-100 scale or specific units)
-      rebound: number;
-    },
-    
-    // Rear damper settings
-    rear: {
-      // Bump/compression damping (0-100 scale or specific units)
-      bump: number;
-      
-      // Rebound damping (0-100 scale or specific units)
-      rebound: number;
-    }
-  };
+  // Attach the problems found while parsing to the setup as diagnostics
+  diagnostics?: boolean;
   
-  // Tire pressure settings in kPa
-  tirePressures: {
-    // Front left tire pressure
-    frontLeft: number;
-    
-    // Front right tire pressure
-    frontRight: number;
-    
-    // Rear left tire pressure
-    rearLeft: number;
-    
-    // Rear right tire pressure
-    rearRight: number;
-  };
+  // Throw a SetupParseError when any problem is found instead of falling back to defaults
+  strict?: boolean;
+}
+
+/**
+ * Kind of problem found while parsing a setup file
+ * - missing-field: a key the car mapping expects is not in the file
+ * - invalid-number: a value that should be a number can't be parsed
+ * - unknown-section: a section the car mapping doesn't know, kept in additionalSettings
+ * - default-value: a structured field that got no value from the file and kept its default
+ */
+export type ParseDiagnosticCode = 'missing-field' | 'invalid-number' | 'unknown-section' | 'default-value';
+
+/**
+ * Problem found while parsing a setup file
+ */
+export interface ParseDiagnostic {
+  // Kind of problem
+  code: ParseDiagnosticCode;
   
-  // Aerodynamic settings
-  aero: {
-    // Front wing/splitter setting (0-100 scale or specific units)
-    frontWing?: number;
-    
-    // Rear wing setting (0-100 scale or specific units)
-    rearWing?: number;
-  };
+  // Errors make the setup unreliable, warnings are worth a look
+  severity: 'error' | 'warning';
   
-  // Differential settings
-  differential?: {
-    // Preload setting (0-100 scale or specific units)
-    preload: number;
-    
-    // Power/acceleration ramp setting (0-100 scale or percentage)
-    powerRamp?: number;
-    
-    // Coast/deceleration ramp setting (0-100 scale or percentage)
-    coastRamp?: number;
-  };
+  // Human-readable description of the problem
+  message: string;
   
-  // Brake bias as percentage to the front (e.g., 55 means 55% front, 45% rear)
-  brakeBias: number;
+  // Section of the .sto file
+  section?: string;
   
-  // Gear ratios array, from first gear onwards
-  gearRatios?: number[];
+  // Key in the section
+  key?: string;
   
-  // Additional car-specific settings that don't fit in the standard categories
-  additionalSettings?: Record<string, any>;
+  // Field path in structured data
+  path?: string;
   
-  // Metadata about the setup
-  metadata?: {
-    // Creation date
-    created: string;
-    
-    // Last modified date
-    modified: string;
-    
-    // Creator name or identifier
-    author?: string;
-    
-    // Version of the setup
-    version?: string;
-  };
+  // Raw value as found in the file
+  rawValue?: any;
+}
+
+/**
+ * Result of identifying the car of a setup file from its content
+ */
+export interface CarDetectionResult {
+  // Best matching car, or null if no mapping matches well enough
+  carId: string | null;
+  
+  // Confidence of the best match (0-1)
+  confidence: number;
+  
+  // Every registered car, best match first
+  candidates: CarDetectionCandidate[];
+}
+
+/**
+ * Score of a single car mapping against a setup file
+ */
+export interface CarDetectionCandidate {
+  // Car identifier of the mapping
+  carId: string;
+  
+  // Human-readable car name
+  carName: string;
+  
+  // Share of the file's setup keys the mapping recognizes (0-1),
+  // 1 if the CAR entry names the car in a different spelling
+  confidence: number;
+  
+  // Number of the mapping's keys found in the file
+  matchedKeys: number;
+  
+  // Number of keys in the mapping
+  mappedKeys: number;
 }
 
 /**
@@ -184,6 +190,42 @@ export interface CarMappingConfig {
     };
   };
   
+  // Mapping from structured fields to values in the HTML setup sheet export
+  setupSheetMappings?: {
+    // Section heading in the setup sheet -> field mappings
+    [sectionName: string]: {
+      // Target field in structured data -> value label in the setup sheet
+      [targetField: string]: string;
+    };
+  };
+  
+  // Units of the raw values of fields with a physical unit; the structured
+  // setup always uses the base units (kPa, N/m, mm, °C)
+  units?: {
+    // Field path in structured data -> unit in the .sto file
+    [fieldPath: string]: Unit;
+  };
+  
+  // Legal values the car's garage accepts, in the units of the structured setup
+  ranges?: {
+    // Field path in structured data, '*' matches any part of a path segment
+    // (e.g. 'corners.front*.camber') -> legal range
+    [fieldPath: string]: ParameterRange;
+  };
+  
+  // Fields files of the car may leave out without a missing-field warning, '*'
+  // matches any part of a path segment; all other mapped fields are required
+  optionalFields?: string[];
+  
+  // Drivetrain data of the car that is not part of the setup, used to calculate gearing
+  drivetrain?: DrivetrainSpec;
+  
+  // Chassis data of the car that is not part of the setup, used to calculate derived metrics
+  carSpec?: CarSpec;
+  
+  // Aero coefficients by ride height and rear wing, used to calculate aero balance
+  aeroMap?: AeroMap;
+  
   // Transformations to apply to values (e.g., unit conversions)
   valueTransformations?: {
     // Field path in structured data -> transformation function
@@ -195,3 +237,647 @@ export interface CarMappingConfig {
     };
   };
 }
+
+/**
+ * Declarative car mapping as stored in JSON/YAML mapping files
+ * (validated against car-mappings/car-mapping.schema.json)
+ */
+export interface CarMappingDefinition {
+  // Car identifier this mapping applies to
+  carId: string;
+  
+  // Human-readable car name
+  carName: string;
+  
+  // Mapping from structured fields to raw .sto file fields
+  fieldMappings: CarMappingConfig['fieldMappings'];
+  
+  // Mapping from structured fields to values in the HTML setup sheet export
+  setupSheetMappings?: CarMappingConfig['setupSheetMappings'];
+  
+  // Units of the raw values, converted after the transforms
+  units?: CarMappingConfig['units'];
+  
+  // Legal values the car's garage accepts, in the units of the structured setup
+  ranges?: CarMappingConfig['ranges'];
+  
+  // Fields files of the car may leave out without a missing-field warning
+  optionalFields?: CarMappingConfig['optionalFields'];
+  
+  // Drivetrain data of the car that is not part of the setup
+  drivetrain?: DrivetrainSpec;
+  
+  // Chassis data of the car that is not part of the setup
+  carSpec?: CarSpec;
+  
+  // Aero coefficients by ride height and rear wing
+  aeroMap?: AeroMap;
+  
+  // Value transforms, compiled into CarMappingConfig.valueTransformations
+  transforms?: {
+    // Field path in structured data -> transform from the raw value
+    [fieldPath: string]: ValueTransform;
+  };
+}
+
+/**
+ * Drivetrain data of a car that the setup doesn't change
+ */
+export interface DrivetrainSpec {
+  // Rolling radius of the driven tires in mm
+  rollingRadius: number;
+  
+  // Highest engine speed in rpm, where the driver shifts up
+  redline: number;
+}
+
+/**
+ * Chassis data of a car that the setup doesn't change
+ */
+export interface CarSpec {
+  // Mass of the car with driver in kg
+  mass: number;
+  
+  // Share of the mass on the front axle in percent, used when the setup has no corner weights
+  frontWeightDistribution: number;
+  
+  // Distance between the axles in mm
+  wheelbase: number;
+  
+  // Distance between the tire centers of each axle in mm
+  trackWidth: {
+    front: number;
+    rear: number;
+  };
+  
+  // Spring travel per unit of wheel travel of each axle
+  motionRatio: {
+    front: number;
+    rear: number;
+  };
+  
+  // Unsprung mass of one corner of each axle in kg (wheel, tire, upright, brakes)
+  unsprungMass?: {
+    front: number;
+    rear: number;
+  };
+  
+  // Roll stiffness each anti-roll bar adds per setting in N·m/deg, assuming a linear bar
+  antiRollBarRate?: {
+    front: number;
+    rear: number;
+  };
+  
+  // Heave spring travel per unit of wheel travel in heave, for cars with heave springs (default 1)
+  heaveMotionRatio?: {
+    front: number;
+    rear: number;
+  };
+}
+
+/**
+ * Aero map of a car: aero coefficients by front ride height, rear ride height
+ * and rear wing setting, measured at the static ride heights of the garage
+ */
+export interface AeroMap {
+  // Front ride heights of the table rows in mm, ascending
+  frontRideHeights: number[];
+  
+  // Rear ride heights of the table columns in mm, ascending
+  rearRideHeights: number[];
+  
+  // Table of each rear wing setting, ascending by wing
+  wings: AeroMapTable[];
+}
+
+/**
+ * Aero coefficients of one rear wing setting, indexed [front ride height][rear ride height]
+ */
+export interface AeroMapTable {
+  // Rear wing setting, in the units of aero.rearWing
+  wing: number;
+  
+  // Lift coefficient times frontal area (CL·A) in m², positive is downforce
+  downforce: number[][];
+  
+  // Drag coefficient times frontal area (CD·A) in m²
+  drag: number[][];
+  
+  // Share of the downforce on the front axle in percent
+  balance: number[][];
+}
+
+/**
+ * Declarative value transform, applied as (negate ? -raw : raw) * scale + offset
+ * when reading and inverted when writing
+ */
+export interface ValueTransform {
+  // Flip the sign of the raw value
+  negate?: boolean;
+  
+  // Factor applied to the raw value (physical units are converted through units)
+  scale?: number;
+  
+  // Value added after scaling
+  offset?: number;
+}
+
+/**
+ * Legal values of a setup parameter, either a stepped range or a list of values
+ */
+export type ParameterRange = SteppedRange | DiscreteRange;
+
+/**
+ * Range of values from min to max in steps (clicks) starting at min
+ */
+export interface SteppedRange {
+  // Smallest legal value
+  min: number;
+  
+  // Largest legal value
+  max: number;
+  
+  // Step between legal values, any value between min and max is legal when omitted
+  step?: number;
+}
+
+/**
+ * Discrete list of legal values (e.g. ARB blade settings or spring options)
+ */
+export interface DiscreteRange {
+  values: number[];
+}
+
+/**
+ * Setup value that the car's garage doesn't accept
+ */
+export interface RangeViolation {
+  // Field path in structured data
+  path: string;
+  
+  // Value in the setup
+  value: number;
+  
+  // Legal range of the field
+  range: ParameterRange;
+  
+  // Closest legal value
+  suggestedValue: number;
+  
+  // Human-readable description of the problem
+  message: string;
+}
+
+/**
+ * Options for diffing two setups
+ */
+export interface SetupDiffOptions {
+  // Largest difference between two numbers that is still considered equal (default 1e-9)
+  tolerance?: number;
+  
+  // Field paths (or their parents) to leave out of the diff
+  ignore?: string[];
+  
+  // Legal range of a field, used to express numeric changes in garage clicks
+  getRange?: (fieldPath: string) => ParameterRange | undefined;
+}
+
+/**
+ * Difference of one field between two setups
+ */
+export interface SetupChange {
+  // Field path in structured data
+  path: string;
+  
+  // Top-level section of the field (e.g. 'suspension'), 'general' for top-level values
+  section: string;
+  
+  // Value in the first setup, undefined if the field was added
+  oldValue: any;
+  
+  // Value in the second setup, undefined if the field was removed
+  newValue: any;
+  
+  // newValue - oldValue, for numeric fields
+  delta?: number;
+  
+  // Relative change in percent, for numeric fields with a non-zero old value
+  percentChange?: number;
+  
+  // Change in garage clicks, for numeric fields with a stepped or discrete range
+  clickDelta?: number;
+}
+
+/**
+ * Options for merging setups
+ */
+export interface SetupMergeOptions {
+  // Largest difference between two numbers that is still considered equal (default 1e-9)
+  tolerance?: number;
+}
+
+/**
+ * Side of a three-way merge whose value resolves a conflict
+ */
+export type SetupMergeSide = 'base' | 'ours' | 'theirs';
+
+/**
+ * Parameter changed differently on both sides of a merge
+ */
+export interface SetupMergeConflict {
+  // Field path in structured data
+  path: string;
+  
+  // Value in the common baseline, undefined if neither had the field
+  baseValue: any;
+  
+  // Value in our setup
+  oursValue: any;
+  
+  // Value in their setup
+  theirsValue: any;
+}
+
+/**
+ * Result of a three-way setup merge
+ */
+export interface SetupMergeResult {
+  // Merged setup, holding our value for every conflicting parameter until it is resolved
+  setup: ParsedSetup;
+  
+  // Paths of the changes taken from their setup
+  mergedPaths: string[];
+  
+  // Parameters left to resolve
+  conflicts: SetupMergeConflict[];
+}
+
+/**
+ * Gearing of a car, everything needed to calculate its speed in each gear
+ */
+export interface GearingSpec {
+  // Ratio of each forward gear, from first gear onwards
+  ratios: number[];
+  
+  // Final drive ratio (1 when the gear ratios already include it)
+  finalDrive: number;
+  
+  // Rolling radius of the driven tires in mm
+  rollingRadius: number;
+  
+  // Highest engine speed in rpm, where the driver shifts up
+  redline: number;
+}
+
+/**
+ * Speed range of one gear
+ */
+export interface GearSpeed {
+  // Gear number, starting at 1
+  gear: number;
+  
+  // Ratio of the gear
+  ratio: number;
+  
+  // Gear ratio times final drive
+  overallRatio: number;
+  
+  // Speed in km/h at the redline in this gear
+  topSpeed: number;
+}
+
+/**
+ * Upshift from one gear to the next at the redline
+ */
+export interface GearShift {
+  // Gear shifted from
+  fromGear: number;
+  
+  // Gear shifted to
+  toGear: number;
+  
+  // Speed in km/h where the shift is needed (redline in fromGear)
+  shiftSpeed: number;
+  
+  // Engine speed in rpm right after the shift
+  rpmAfterShift: number;
+  
+  // Drop of the engine speed in rpm caused by the shift
+  rpmDrop: number;
+}
+
+/**
+ * Speed per gear and shift points of a gearbox
+ */
+export interface GearingAnalysis {
+  // Gearing the analysis was calculated for
+  spec: GearingSpec;
+  
+  // Speed range of each gear
+  gears: GearSpeed[];
+  
+  // Upshifts, one per pair of consecutive gears
+  shifts: GearShift[];
+  
+  // Speed in km/h at the redline in top gear
+  topSpeed: number;
+}
+
+/**
+ * Derived metrics of one axle
+ */
+export interface AxleMetrics {
+  // Spring rate at the wheel in N/m, spring rate times motion ratio squared
+  wheelRate: number;
+  
+  // Heave spring rate at each wheel in N/m, 0 without a heave spring
+  heaveWheelRate: number;
+  
+  // Sprung mass on one corner in kg
+  sprungMass: number;
+  
+  // Natural frequency of the sprung mass on the wheel rate and heave wheel rate in Hz
+  rideFrequency: number;
+  
+  // Roll stiffness of the springs in N·m/deg
+  springRollStiffness: number;
+  
+  // Roll stiffness of the anti-roll bar in N·m/deg, 0 if the car spec has no bar rates
+  antiRollBarRollStiffness: number;
+  
+  // Total roll stiffness in N·m/deg
+  rollStiffness: number;
+}
+
+/**
+ * Engineering numbers derived from the garage values of a setup
+ */
+export interface DerivedMetrics {
+  // Wheel rate of each corner in N/m
+  wheelRates: Record<keyof SetupCorners, number>;
+  
+  // Metrics of each axle, from the average of its corners
+  front: AxleMetrics;
+  rear: AxleMetrics;
+  
+  // Share of the mass on the front axle in percent
+  frontWeightDistribution: number;
+  
+  // Share of the roll stiffness on the front axle in percent
+  frontRollStiffnessDistribution: number;
+  
+  // Ratio of front to rear ride frequency
+  rideFrequencyRatio: number;
+  
+  // Rear minus front ride height in mm
+  rake: number;
+  
+  // Pitch of the car from the rake in degrees, positive is nose down
+  rakeAngle: number;
+  
+  // Front roll stiffness distribution minus front weight distribution in percentage
+  // points; the axle taking a larger share of the roll stiffness than of the
+  // weight loses grip first
+  mechanicalBalance: number;
+  
+  // Handling tendency of the mechanical balance
+  balanceTendency: 'understeer' | 'neutral' | 'oversteer';
+}
+
+/**
+ * Aero coefficients of a setup, interpolated from the car's aero map
+ */
+export interface AeroAnalysis {
+  // Front ride height in mm
+  frontRideHeight: number;
+  
+  // Rear ride height in mm
+  rearRideHeight: number;
+  
+  // Rear wing setting
+  wing: number;
+  
+  // Lift coefficient times frontal area (CL·A) in m², positive is downforce
+  downforce: number;
+  
+  // Drag coefficient times frontal area (CD·A) in m²
+  drag: number;
+  
+  // Share of the downforce on the front axle in percent
+  balance: number;
+  
+  // Downforce over drag (L/D)
+  efficiency: number;
+  
+  // Whether a ride height or the wing is outside the map, so the nearest edge was used
+  extrapolated: boolean;
+}
+
+/**
+ * Aero forces at a given speed
+ */
+export interface AeroForces {
+  // Speed in km/h
+  speed: number;
+  
+  // Total downforce in N
+  downforce: number;
+  
+  // Downforce on the front axle in N
+  frontDownforce: number;
+  
+  // Downforce on the rear axle in N
+  rearDownforce: number;
+  
+  // Drag in N
+  drag: number;
+}
+
+/**
+ * Sample setup file checked against a car mapping
+ */
+export interface MappingCoverageSample {
+  // File name or path, used in the report
+  name: string;
+  
+  // Raw setup read from the file
+  rawSetup: SetupFile;
+}
+
+/**
+ * Keys of a .sto section as seen by a car mapping across the sample files
+ */
+export interface SectionCoverage {
+  // Section name in the .sto file
+  section: string;
+  
+  // Keys the mapping reads that are present in every sample
+  mapped: string[];
+  
+  // Keys of the samples the mapping doesn't read, kept as additionalSettings
+  unmapped: string[];
+  
+  // Keys the mapping reads that are absent from at least one sample
+  missing: string[];
+}
+
+/**
+ * Mapped value that changes when converted to the structured setup and back
+ */
+export interface RoundTripFailure {
+  // Sample file the value comes from
+  file: string;
+  
+  section: string;
+  key: string;
+  
+  // Target field in structured data
+  field: string;
+  
+  // Value in the .sto file
+  rawValue: string | number | boolean;
+  
+  // Value after fromRaw and toRaw, undefined if it couldn't be converted
+  roundTripValue?: string | number | boolean;
+  
+  // Why the value doesn't survive
+  reason: string;
+}
+
+/**
+ * Coverage of the keys of sample .sto files by a car mapping
+ */
+export interface MappingCoverageReport {
+  carId: string;
+  carName: string;
+  
+  // Names of the sample files
+  files: string[];
+  
+  // Sections of the mapping and of the samples, sorted by name
+  sections: SectionCoverage[];
+  
+  // Mapped values that don't survive a fromRaw -> toRaw round trip
+  roundTripFailures: RoundTripFailure[];
+  
+  // Share of the distinct sample keys the mapping reads, from 0 to 1
+  coverage: number;
+}
+
+/**
+ * How much the surface of a track unsettles the car
+ */
+export type TrackBumpiness = 'smooth' | 'moderate' | 'bumpy';
+
+/**
+ * Wing level cars usually run at a track
+ */
+export type DownforceLevel = 'low' | 'medium' | 'high';
+
+/**
+ * Speed class of a corner
+ */
+export type CornerSpeed = 'slow' | 'medium' | 'fast';
+
+/**
+ * Corner of a track layout
+ */
+export interface TrackCorner {
+  // Turn number of the layout, following the official numbering
+  number: number;
+  
+  // Common name (La Source, Eau Rouge, ...)
+  name?: string;
+  
+  // Approximate distance of the apex from the start/finish line in m
+  distance: number;
+  
+  speed: CornerSpeed;
+}
+
+/**
+ * Layout of a track, called a configuration by iRacing
+ */
+export interface TrackConfig {
+  // Canonical configuration identifier
+  configId: string;
+  
+  name: string;
+  
+  // Configuration identifiers used by iRacing and common spellings
+  aliases?: string[];
+  
+  // Lap length in m
+  length: number;
+  
+  // Corners sorted by distance from the start/finish line
+  corners: TrackCorner[];
+  
+  downforce: DownforceLevel;
+}
+
+/**
+ * Track with its layouts
+ */
+export interface TrackDefinition {
+  // Canonical track identifier
+  trackId: string;
+  
+  name: string;
+  
+  // Track identifiers used by iRacing and common spellings
+  aliases?: string[];
+  
+  country: string;
+  
+  // Difference between the highest and the lowest point of the track in m
+  elevationChange: number;
+  
+  bumpiness: TrackBumpiness;
+  
+  // Layouts of the track, the first one is used when no configuration is given
+  configs: TrackConfig[];
+}
+
+/**
+ * Canonical identifiers of a track layout
+ */
+export interface TrackReference {
+  trackId: string;
+  configId: string;
+}
+
+/**
+ * Track layout with the metadata of its track
+ */
+export interface TrackInfo extends TrackReference {
+  // Track and layout name, e.g. 'Suzuka International Racing Course - Grand Prix'
+  name: string;
+  
+  country: string;
+  
+  // Lap length in m
+  length: number;
+  
+  corners: TrackCorner[];
+  
+  // Difference between the highest and the lowest point of the track in m
+  elevationChange: number;
+  
+  bumpiness: TrackBumpiness;
+  downforce: DownforceLevel;
+}
+
+/**
+ * Part of a lap around one corner, used to split telemetry by corner
+ */
+export interface TrackSegment {
+  corner: TrackCorner;
+  
+  // Distance from the start/finish line where the segment starts, in m
+  start: number;
+  
+  // Distance from the start/finish line where the segment ends, in m; smaller
+  // than start when the segment crosses the start/finish line
+  end: number;
+}
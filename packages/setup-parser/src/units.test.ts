@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import {
+  convertUnit,
+  fromPreferredUnit,
+  fromPreferredUnitInRange,
+  getFieldUnit,
+  getPreferredUnit,
+  parseUnit,
+  toPreferredUnit
+} from './units';
+import { createDefaultParser } from './index';
+
+describe('convertUnit', () => {
+  it('converts between units of the same quantity', () => {
+    expect(convertUnit(24, 'psi', 'kPa')).toBeCloseTo(165.474, 3);
+    expect(convertUnit(180, 'N/mm', 'N/m')).toBe(180000);
+    expect(convertUnit(2.3, 'in', 'mm')).toBe(58.42);
+    expect(convertUnit(1.5, 'bar', 'kPa')).toBe(150);
+  });
+
+  it('applies the offset of temperatures', () => {
+    expect(convertUnit(212, '°F', '°C')).toBe(100);
+    expect(convertUnit(-40, '°C', '°F')).toBe(-40);
+  });
+
+  it('refuses to convert between quantities', () => {
+    expect(() => convertUnit(1, 'psi', 'mm')).toThrow('Cannot convert pressure in psi to length in mm');
+  });
+});
+
+describe('parseUnit', () => {
+  it('accepts the spellings of setup sheets and users', () => {
+    expect(parseUnit(' KPA ')).toBe('kPa');
+    expect(parseUnit('lb/in')).toBe('lbs/in');
+    expect(parseUnit('"')).toBe('in');
+    expect(parseUnit('F')).toBe('°F');
+    expect(parseUnit('clicks')).toBeUndefined();
+  });
+});
+
+describe('preferred units', () => {
+  it('finds the unit of setup fields, and none for unitless fields', () => {
+    expect(getFieldUnit('tirePressures.frontLeft')).toBe('kPa');
+    expect(getFieldUnit('corners.rearRight.springRate')).toBe('N/m');
+    expect(getFieldUnit('heaveSprings.front.packers')).toBe('mm');
+    expect(getFieldUnit('suspension.front.camber')).toBeUndefined();
+    expect(getPreferredUnit('suspension.rear.rideHeight', 'imperial')).toBe('in');
+    expect(getPreferredUnit('suspension.rear.rideHeight', { pressure: 'bar', springRate: 'N/mm', length: 'cm', temperature: '°C' })).toBe('cm');
+  });
+
+  it('converts to the preferred unit and back', () => {
+    expect(toPreferredUnit(58.42, 'corners.frontLeft.rideHeight', 'imperial')).toEqual({ value: 2.3, unit: 'in' });
+    expect(fromPreferredUnit(2.3, 'corners.frontLeft.rideHeight', 'imperial')).toBe(58.42);
+    expect(toPreferredUnit(-3.8, 'corners.frontLeft.camber', 'imperial')).toBeUndefined();
+    expect(fromPreferredUnit(-3.8, 'corners.frontLeft.camber', 'imperial')).toBe(-3.8);
+  });
+});
+
+describe('fromPreferredUnitInRange', () => {
+  const parser = createDefaultParser();
+  const range = (fieldPath: string) => parser.getParameterRange('bmw_m4_gt3', fieldPath);
+
+  /**
+   * Round a setup value for display in imperial units, the way the setup editor shows it
+   */
+  const display = (value: number, fieldPath: string) =>
+    Number(toPreferredUnit(value, fieldPath, 'imperial')!.value.toPrecision(4));
+
+  it.each([
+    ['corners.frontLeft.springRate', 180000],
+    ['tirePressures.frontLeft', 165.5],
+    ['tirePressures.rearRight', 152],
+    ['corners.rearLeft.rideHeight', 72.5]
+  ])('round-trips the imperial display of %s = %d to the legal value', (fieldPath, value) => {
+    expect(fromPreferredUnit(display(value, fieldPath), fieldPath, 'imperial')).not.toBe(value);
+    expect(fromPreferredUnitInRange(display(value, fieldPath), fieldPath, 'imperial', range(fieldPath))).toBe(value);
+  });
+
+  it('snaps values between steps, as moved by the slider, to the closest step', () => {
+    // 23.5 psi is 162.0295 kPa
+    expect(fromPreferredUnitInRange(23.5, 'tirePressures.frontLeft', 'imperial', range('tirePressures.frontLeft'))).toBe(162);
+    expect(fromPreferredUnitInRange(1100, 'corners.frontLeft.springRate', 'imperial', range('corners.frontLeft.springRate'))).toBe(200000);
+  });
+
+  it('leaves values outside the range for validation to report', () => {
+    expect(fromPreferredUnitInRange(40, 'tirePressures.frontLeft', 'imperial', range('tirePressures.frontLeft'))).toBeCloseTo(275.79, 2);
+    expect(fromPreferredUnitInRange(2000, 'corners.frontLeft.springRate', 'imperial', range('corners.frontLeft.springRate'))).toBeCloseTo(350253.67, 2);
+  });
+
+  it('never snaps values entered in the unit of the structured setup', () => {
+    expect(fromPreferredUnitInRange(165.3, 'tirePressures.frontLeft', 'metric', range('tirePressures.frontLeft'))).toBe(165.3);
+    expect(fromPreferredUnitInRange(24, 'tirePressures.frontLeft', 'imperial', undefined)).toBeCloseTo(165.474, 3);
+  });
+});
@@ -0,0 +1,270 @@
+import { ParameterRange } from './types';
+import { snapToRange } from './ranges';
+
+/**
+ * Physical units of setup values and conversions between them
+ *
+ * Structured setups (ParsedSetup) always store values in the base unit of
+ * their quantity: kPa, N/m, mm and °C. Car mappings declare the native unit
+ * of the .sto file, and consumers convert to the unit system the user prefers.
+ */
+
+/**
+ * Physical quantity of a setup value
+ */
+export type Quantity = 'pressure' | 'springRate' | 'length' | 'temperature';
+
+export type PressureUnit = 'kPa' | 'psi' | 'bar';
+export type SpringRateUnit = 'N/m' | 'N/mm' | 'lbs/in';
+export type LengthUnit = 'mm' | 'cm' | 'in';
+export type TemperatureUnit = '°C' | '°F';
+
+/**
+ * Any supported unit
+ */
+export type Unit = PressureUnit | SpringRateUnit | LengthUnit | TemperatureUnit;
+
+/**
+ * A value together with its unit
+ */
+export interface UnitValue {
+  value: number;
+  unit: Unit;
+}
+
+/**
+ * Unit system preferred for displaying values
+ */
+export type UnitSystem = 'metric' | 'imperial';
+
+/**
+ * Unit to use for each quantity
+ */
+export type UnitPreferences = Record<Quantity, Unit>;
+
+/**
+ * Definition of each unit as value in base unit = value * factor + offset
+ */
+const UNIT_DEFINITIONS: Record<Unit, { quantity: Quantity; factor: number; offset?: number }> = {
+  'kPa': { quantity: 'pressure', factor: 1 },
+  'psi': { quantity: 'pressure', factor: 6.894757 },
+  'bar': { quantity: 'pressure', factor: 100 },
+  'N/m': { quantity: 'springRate', factor: 1 },
+  'N/mm': { quantity: 'springRate', factor: 1000 },
+  'lbs/in': { quantity: 'springRate', factor: 175.126835 },
+  'mm': { quantity: 'length', factor: 1 },
+  'cm': { quantity: 'length', factor: 10 },
+  'in': { quantity: 'length', factor: 25.4 },
+  '°C': { quantity: 'temperature', factor: 1 },
+  '°F': { quantity: 'temperature', factor: 5 / 9, offset: -32 * 5 / 9 }
+};
+
+/**
+ * Base unit of each quantity, used by structured setups
+ */
+export const BASE_UNITS: UnitPreferences = {
+  pressure: 'kPa',
+  springRate: 'N/m',
+  length: 'mm',
+  temperature: '°C'
+};
+
+/**
+ * Units of the predefined unit systems
+ */
+export const UNIT_SYSTEMS: Record<UnitSystem, UnitPreferences> = {
+  metric: BASE_UNITS,
+  imperial: {
+    pressure: 'psi',
+    springRate: 'lbs/in',
+    length: 'in',
+    temperature: '°F'
+  }
+};
+
+/**
+ * Alternative spellings of units, as found in setup sheets and user input
+ */
+const UNIT_ALIASES: Record<string, Unit> = {
+  'kpa': 'kPa',
+  'psi': 'psi',
+  'bar': 'bar',
+  'n/m': 'N/m',
+  'n/mm': 'N/mm',
+  'lbs/in': 'lbs/in',
+  'lb/in': 'lbs/in',
+  'mm': 'mm',
+  'cm': 'cm',
+  'in': 'in',
+  '"': 'in',
+  '°c': '°C',
+  'c': '°C',
+  '°f': '°F',
+  'f': '°F'
+};
+
+/**
+ * Structured setup fields with a physical unit, by field path
+ */
+const FIELD_QUANTITIES: Array<{ pattern: RegExp; quantity: Quantity }> = [
+  { pattern: /^tirePressures\./, quantity: 'pressure' },
+  { pattern: /\.springRate$/, quantity: 'springRate' },
+  { pattern: /\.rideHeight$/, quantity: 'length' },
+  { pattern: /\.(perchOffset|packers|torsionBarDiameter)$/, quantity: 'length' }
+];
+
+/**
+ * Check whether a string is a supported unit
+ * @param unit Unit to check
+ */
+export function isUnit(unit: string): unit is Unit {
+  return unit in UNIT_DEFINITIONS;
+}
+
+/**
+ * Parse a unit as written in a setup sheet or by a user ('KPA', 'lb/in', 'F', ...)
+ * @param text Unit text
+ * @returns Unit, or undefined if it is not a supported unit
+ */
+export function parseUnit(text: string): Unit | undefined {
+  return UNIT_ALIASES[text.trim().toLowerCase()];
+}
+
+/**
+ * Get the physical quantity measured by a unit
+ * @param unit Unit
+ * @returns Quantity of the unit
+ */
+export function getUnitQuantity(unit: Unit): Quantity {
+  return UNIT_DEFINITIONS[unit].quantity;
+}
+
+/**
+ * Convert a value between two units of the same quantity
+ * @param value Value to convert
+ * @param from Unit of the value
+ * @param to Unit to convert to
+ * @returns Converted value
+ */
+export function convertUnit(value: number, from: Unit, to: Unit): number {
+  if (from === to) return value;
+
+  const source = UNIT_DEFINITIONS[from];
+  const target = UNIT_DEFINITIONS[to];
+
+  if (source.quantity !== target.quantity) {
+    throw new Error(`Cannot convert ${source.quantity} in ${from} to ${target.quantity} in ${to}`);
+  }
+
+  const base = value * source.factor + (source.offset || 0);
+  const converted = (base - (target.offset || 0)) / target.factor;
+
+  // Keep conversions free of floating-point noise
+  return Number(converted.toPrecision(12));
+}
+
+/**
+ * Get the unit a structured setup field is stored in
+ * @param fieldPath Path of the field in the structured setup (e.g. 'suspension.front.springRate')
+ * @returns Base unit of the field, or undefined for unitless fields (clicks, degrees, percentages)
+ */
+export function getFieldUnit(fieldPath: string): Unit | undefined {
+  const match = FIELD_QUANTITIES.find(({ pattern }) => pattern.test(fieldPath));
+  return match ? BASE_UNITS[match.quantity] : undefined;
+}
+
+/**
+ * Get the unit a structured setup field should be displayed in
+ * @param fieldPath Path of the field in the structured setup
+ * @param preferences Preferred unit per quantity, or a unit system
+ * @returns Preferred unit, or undefined for unitless fields
+ */
+export function getPreferredUnit(fieldPath: string, preferences: UnitPreferences | UnitSystem): Unit | undefined {
+  const unit = getFieldUnit(fieldPath);
+  if (!unit) return undefined;
+
+  const units = typeof preferences === 'string' ? UNIT_SYSTEMS[preferences] : preferences;
+  return units[getUnitQuantity(unit)];
+}
+
+/**
+ * Convert a structured setup value to the preferred unit
+ * @param value Value in the unit of the structured setup
+ * @param fieldPath Path of the field in the structured setup
+ * @param preferences Preferred unit per quantity, or a unit system
+ * @returns Converted value with its unit, or undefined for unitless fields
+ */
+export function toPreferredUnit(
+  value: number,
+  fieldPath: string,
+  preferences: UnitPreferences | UnitSystem
+): UnitValue | undefined {
+  const unit = getFieldUnit(fieldPath);
+  const preferred = getPreferredUnit(fieldPath, preferences);
+  if (!unit || !preferred) return undefined;
+
+  return { value: convertUnit(value, unit, preferred), unit: preferred };
+}
+
+/**
+ * Convert a value in the preferred unit back to the unit of the structured setup
+ * @param value Value in the preferred unit
+ * @param fieldPath Path of the field in the structured setup
+ * @param preferences Preferred unit per quantity, or a unit system
+ * @returns Value in the unit of the structured setup
+ */
+export function fromPreferredUnit(
+  value: number,
+  fieldPath: string,
+  preferences: UnitPreferences | UnitSystem
+): number {
+  const unit = getFieldUnit(fieldPath);
+  const preferred = getPreferredUnit(fieldPath, preferences);
+  if (!unit || !preferred) return value;
+
+  return convertUnit(value, preferred, unit);
+}
+
+/**
+ * Convert a value entered in the preferred unit back to the unit of the
+ * structured setup, on the closest value the car's garage allows
+ *
+ * Displayed values are rounded, so converting them back rarely lands on a
+ * legal value (1028 lbs/in is 180030.39 N/m, not 180000). Values within half
+ * a step of a legal value are snapped to it; values further outside the range
+ * are returned unsnapped so validation can report them. Values entered in the
+ * unit of the structured setup are never snapped.
+ * @param value Value in the preferred unit
+ * @param fieldPath Path of the field in the structured setup
+ * @param preferences Preferred unit per quantity, or a unit system
+ * @param range Legal range of the field, if the car mapping restricts it
+ * @returns Value in the unit of the structured setup
+ */
+export function fromPreferredUnitInRange(
+  value: number,
+  fieldPath: string,
+  preferences: UnitPreferences | UnitSystem,
+  range?: ParameterRange
+): number {
+  const converted = fromPreferredUnit(value, fieldPath, preferences);
+  if (!range || getPreferredUnit(fieldPath, preferences) === getFieldUnit(fieldPath)) return converted;
+
+  const snapped = snapToRange(converted, range);
+  return Math.abs(snapped - converted) <= getSnapTolerance(converted, range) ? snapped : converted;
+}
+
+/**
+ * Largest distance to a legal value that is still treated as the rounding of a displayed value
+ */
+function getSnapTolerance(value: number, range: ParameterRange): number {
+  // Displayed values keep 4 significant digits
+  const displayRounding = Math.abs(value) * 5e-4;
+
+  if ('values' in range) {
+    const sorted = [...range.values].sort((a, b) => a - b);
+    const gaps = sorted.slice(1).map((legal, i) => legal - sorted[i]);
+    return gaps.length > 0 ? Math.max(displayRounding, Math.min(...gaps) / 2) : displayRounding;
+  }
+
+  return Math.max(displayRounding, (range.step ?? 0) / 2);
+}
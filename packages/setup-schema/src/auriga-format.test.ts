@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AURIGA_FORMAT_VERSION,
+  createAurigaDocument,
+  getAurigaFormatVersion,
+  migrateAurigaDocument,
+  parseAurigaDocument,
+  serializeAurigaDocument
+} from './auriga-format';
+import { SetupValidationError } from './validate';
+
+/**
+ * Setup as saved before the gear ratios moved into the gearbox section
+ */
+function createLegacySetup(): Record<string, any> {
+  const axle = { springRate: 180000, rideHeight: 55, camber: -3.8, toe: -0.06, antiRollBar: 4 };
+  const dampers = { bump: 10, rebound: 12 };
+
+  return {
+    carId: 'bmw_m4_gt3',
+    trackId: 'spa',
+    name: 'Baseline',
+    suspension: { front: { ...axle }, rear: { ...axle } },
+    dampers: { front: { ...dampers }, rear: { ...dampers } },
+    tirePressures: { frontLeft: 165.5, frontRight: 165.5, rearLeft: 162, rearRight: 162 },
+    aero: { rearWing: 5 },
+    brakeBias: 54.2,
+    gearRatios: [2.9, 2.1, 1.6],
+    metadata: { created: '2024-05-01', modified: '2024-05-02', version: '3' }
+  };
+}
+
+describe('getAurigaFormatVersion', () => {
+  it('reads the format version, 0 for bare setups', () => {
+    expect(getAurigaFormatVersion(createLegacySetup())).toBe(0);
+    expect(getAurigaFormatVersion({ formatVersion: 1 })).toBe(1);
+  });
+
+  it('refuses versions that are not whole non-negative numbers', () => {
+    expect(() => getAurigaFormatVersion({ formatVersion: '2' })).toThrow('Invalid Auriga setup formatVersion: "2"');
+    expect(() => getAurigaFormatVersion({ formatVersion: 1.5 })).toThrow('Invalid Auriga setup formatVersion: 1.5');
+    expect(() => getAurigaFormatVersion({ formatVersion: -1 })).toThrow('Invalid Auriga setup formatVersion: -1');
+  });
+});
+
+describe('migrateAurigaDocument', () => {
+  it('wraps a bare setup (version 0) in a document and moves its gear ratios (version 1 to 2)', () => {
+    const { gearRatios, ...setup } = createLegacySetup();
+
+    expect(migrateAurigaDocument(createLegacySetup())).toEqual({
+      format: 'auriga-setup',
+      formatVersion: 2,
+      setup: { ...setup, gearbox: { ratios: gearRatios } },
+      provenance: { source: 'json', stoVersion: '3' }
+    });
+  });
+
+  it('upgrades version 1 documents, keeping their extras', () => {
+    const document = { format: 'auriga-setup', formatVersion: 1, setup: createLegacySetup(), notes: 'Quali', tags: ['dry'] };
+
+    const migrated = migrateAurigaDocument(document) as any;
+
+    expect(migrated.formatVersion).toBe(2);
+    expect(migrated.notes).toBe('Quali');
+    expect(migrated.tags).toEqual(['dry']);
+    expect(migrated.setup.gearRatios).toBeUndefined();
+    expect(migrated.setup.gearbox).toEqual({ ratios: [2.9, 2.1, 1.6] });
+  });
+
+  it('leaves setups without gear ratios and current documents as they are', () => {
+    const { gearRatios: _gearRatios, ...setup } = createLegacySetup();
+    const document = createAurigaDocument(setup as any);
+
+    expect((migrateAurigaDocument({ format: 'auriga-setup', formatVersion: 1, setup }) as any).setup).toEqual(setup);
+    expect(migrateAurigaDocument(document)).toBe(document);
+  });
+
+  it('refuses documents of a newer format version', () => {
+    expect(() => migrateAurigaDocument({ formatVersion: AURIGA_FORMAT_VERSION + 1 })).toThrow(
+      `Auriga setup format version ${AURIGA_FORMAT_VERSION + 1} is newer than the supported version ${AURIGA_FORMAT_VERSION}`
+    );
+  });
+});
+
+describe('parseAurigaDocument', () => {
+  it('reads documents written by serializeAurigaDocument', () => {
+    const { gearRatios: _gearRatios, ...setup } = createLegacySetup();
+    const document = createAurigaDocument(setup as any, { notes: 'Race', provenance: { source: 'sto', fileName: 'race.sto' } });
+
+    expect(parseAurigaDocument(serializeAurigaDocument(document))).toEqual(document);
+  });
+
+  it('migrates and validates JSON of earlier versions', () => {
+    const document = parseAurigaDocument(JSON.stringify(createLegacySetup()));
+
+    expect(document.formatVersion).toBe(AURIGA_FORMAT_VERSION);
+    expect(document.setup.gearbox?.ratios).toEqual([2.9, 2.1, 1.6]);
+  });
+
+  it('reports schema violations with the source of the document', () => {
+    const setup = { ...createLegacySetup(), brakeBias: 'front' };
+
+    expect(() => parseAurigaDocument(setup, 'setup baseline.json')).toThrow(SetupValidationError);
+    expect(() => parseAurigaDocument(setup, 'setup baseline.json')).toThrow(
+      'Invalid setup baseline.json: document/setup/brakeBias must be number'
+    );
+  });
+});
@@ -0,0 +1,172 @@
+import Ajv from 'ajv';
+import { Type, Static } from '@sinclair/typebox';
+import { SetupSchema } from './schema';
+import { SetupValidationError } from './validate';
+
+/**
+ * Identifier of Auriga setup documents, in their format field
+ */
+export const AURIGA_FORMAT = 'auriga-setup';
+
+/**
+ * Version of the Auriga setup format written by this package
+ */
+export const AURIGA_FORMAT_VERSION = 2;
+
+/**
+ * Where a setup came from
+ */
+export const SetupProvenanceSchema = Type.Object({
+  source: Type.Union([
+    Type.Literal('sto'),
+    Type.Literal('setup-sheet'),
+    Type.Literal('json'),
+    Type.Literal('manual'),
+    Type.Literal('agent')
+  ], { description: 'Kind of input the setup was created from' }),
+  fileName: Type.Optional(Type.String({ description: 'Name of the file the setup was imported from' })),
+  stoVersion: Type.Optional(Type.String({ description: 'VERSION entry of the .sto file the setup was imported from' })),
+  importedAt: Type.Optional(Type.String({ description: 'Date the setup was imported or created (ISO 8601)' })),
+  createdBy: Type.Optional(Type.String({ description: 'Application or agent that wrote the document' })),
+  basedOn: Type.Optional(Type.String({ description: 'Name of the setup this one was derived from' }))
+});
+
+export type SetupProvenance = Static<typeof SetupProvenanceSchema>;
+
+/**
+ * Auriga setup document, the JSON format of saved setups (see docs/auriga-setup-format.md)
+ */
+export const AurigaSetupDocumentSchema = Type.Object({
+  format: Type.Literal(AURIGA_FORMAT),
+  formatVersion: Type.Literal(AURIGA_FORMAT_VERSION, { description: 'Version of the document format, not of the setup' }),
+  setup: SetupSchema,
+  notes: Type.Optional(Type.String({ description: 'Free-form notes about the setup' })),
+  tags: Type.Optional(Type.Array(Type.String(), { description: 'Labels for organizing setups (e.g. "quali", "wet")' })),
+  provenance: Type.Optional(SetupProvenanceSchema)
+});
+
+export type AurigaSetupDocument = Static<typeof AurigaSetupDocumentSchema>;
+
+/**
+ * Extras stored next to the setup in an Auriga setup document
+ */
+export type AurigaSetupExtras = Pick<AurigaSetupDocument, 'notes' | 'tags' | 'provenance'>;
+
+/**
+ * Upgrade of a document from one format version to the next, keyed by the version it upgrades from
+ *
+ * Version 0 is a bare setup object, as saved before the format existed.
+ * Add a migration here whenever AURIGA_FORMAT_VERSION is increased.
+ */
+const MIGRATIONS: Record<number, (document: any) => any> = {
+  0: (setup: any) => ({
+    format: AURIGA_FORMAT,
+    formatVersion: 1,
+    setup,
+    provenance: {
+      source: 'json',
+      // metadata.version of parsed setups is the VERSION of their .sto file
+      ...(typeof setup.metadata?.version === 'string' ? { stoVersion: setup.metadata.version } : {})
+    }
+  }),
+  // gearRatios moved into the gearbox section, next to the final drive
+  1: (document: any) => {
+    const { gearRatios, ...setup } = document.setup || {};
+    return {
+      ...document,
+      formatVersion: 2,
+      ...(document.setup ? { setup: gearRatios === undefined ? setup : { ...setup, gearbox: { ratios: gearRatios } } } : {})
+    };
+  }
+};
+
+const ajv = new Ajv({ allErrors: true });
+const validateDocument = ajv.compile<AurigaSetupDocument>(AurigaSetupDocumentSchema);
+
+/**
+ * Create an Auriga setup document for a setup
+ * @param setup Structured setup data
+ * @param extras Notes, tags and provenance to store with the setup
+ * @returns Document in the current format version
+ */
+export function createAurigaDocument<T extends Static<typeof SetupSchema>>(
+  setup: T,
+  extras: AurigaSetupExtras = {}
+): AurigaSetupDocument & { setup: T } {
+  return {
+    format: AURIGA_FORMAT,
+    formatVersion: AURIGA_FORMAT_VERSION,
+    setup,
+    ...extras
+  };
+}
+
+/**
+ * Get the format version of a document
+ * @param document Parsed JSON document
+ * @returns Format version, 0 for a bare setup object
+ */
+export function getAurigaFormatVersion(document: unknown): number {
+  if (typeof document !== 'object' || document === null || !('formatVersion' in document)) {
+    return 0;
+  }
+
+  const { formatVersion } = document as { formatVersion: unknown };
+  if (typeof formatVersion !== 'number' || !Number.isInteger(formatVersion) || formatVersion < 0) {
+    throw new Error(`Invalid Auriga setup formatVersion: ${JSON.stringify(formatVersion)}`);
+  }
+
+  return formatVersion;
+}
+
+/**
+ * Upgrade a document of any earlier format version to the current one
+ * @param document Parsed JSON document
+ * @returns Document in the current format version (not validated)
+ * @throws Error if the document was written by a newer version of the format
+ */
+export function migrateAurigaDocument(document: unknown): unknown {
+  let version = getAurigaFormatVersion(document);
+
+  if (version > AURIGA_FORMAT_VERSION) {
+    throw new Error(
+      `Auriga setup format version ${version} is newer than the supported version ${AURIGA_FORMAT_VERSION}, update the application to open it`
+    );
+  }
+
+  let migrated: any = document;
+  while (version < AURIGA_FORMAT_VERSION) {
+    migrated = MIGRATIONS[version](migrated);
+    version++;
+  }
+
+  return migrated;
+}
+
+/**
+ * Read an Auriga setup document, upgrading documents of earlier format versions
+ * @param json JSON text, or an already parsed document
+ * @param source Description of where the document comes from, used in error messages
+ * @returns Valid document in the current format version
+ * @throws SetupValidationError if the document doesn't match the format
+ */
+export function parseAurigaDocument(json: string | unknown, source: string = 'Auriga setup document'): AurigaSetupDocument {
+  const document = migrateAurigaDocument(typeof json === 'string' ? JSON.parse(json) : json);
+
+  if (!validateDocument(document)) {
+    throw new SetupValidationError(source, (validateDocument.errors || []).map(error =>
+      `document${error.instancePath} ${error.message}`
+    ));
+  }
+
+  return document;
+}
+
+/**
+ * Write an Auriga setup document as JSON
+ * @param document Document to write
+ * @returns Indented JSON text
+ */
+export function serializeAurigaDocument(document: AurigaSetupDocument): string {
+  return JSON.stringify(document, null, 2) + '\n';
+}
@@ -0,0 +1,17 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getAurigaDocumentJsonSchema, getSetupJsonSchema } from './json-schema';
+
+/**
+ * JSON Schema files written next to the package by the build script
+ */
+const SCHEMA_FILES: Record<string, () => Record<string, unknown>> = {
+  'setup.schema.json': getSetupJsonSchema,
+  'auriga-setup.schema.json': getAurigaDocumentJsonSchema
+};
+
+for (const [fileName, getSchema] of Object.entries(SCHEMA_FILES)) {
+  const outputPath = path.join(__dirname, '..', fileName);
+  fs.writeFileSync(outputPath, JSON.stringify(getSchema(), null, 2) + '\n');
+  console.log(`Wrote ${outputPath}`);
+}
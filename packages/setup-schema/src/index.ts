@@ -0,0 +1,11 @@
+// Export the setup schema and its types
+export * from './schema';
+
+// Export runtime validation
+export * from './validate';
+
+// Export the Auriga JSON setup format
+export * from './auriga-format';
+
+// Export the JSON Schemas
+export * from './json-schema';
@@ -0,0 +1,32 @@
+import { TSchema } from '@sinclair/typebox';
+import { SetupSchema } from './schema';
+import { AurigaSetupDocumentSchema } from './auriga-format';
+
+/**
+ * JSON Schema (draft-07) of structured setups, for tools outside TypeScript
+ * @returns JSON Schema document
+ */
+export function getSetupJsonSchema(): Record<string, unknown> {
+  return toJsonSchema(SetupSchema, 'Setup', 'Structured iRacing car setup, values in kPa, N/m, mm and °C');
+}
+
+/**
+ * JSON Schema (draft-07) of Auriga setup documents (.json setup files)
+ * @returns JSON Schema document
+ */
+export function getAurigaDocumentJsonSchema(): Record<string, unknown> {
+  return toJsonSchema(AurigaSetupDocumentSchema, 'Auriga setup document', 'Setup saved by Auriga Setup AI, with notes, tags and provenance');
+}
+
+/**
+ * Turn a TypeBox schema into a standalone JSON Schema document
+ */
+function toJsonSchema(schema: TSchema, title: string, description: string): Record<string, unknown> {
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title,
+    description,
+    // Drop the TypeBox symbols by serializing
+    ...JSON.parse(JSON.stringify(schema))
+  };
+}
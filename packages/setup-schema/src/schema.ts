@@ -0,0 +1,166 @@
+import { Type, Static } from '@sinclair/typebox';
+
+/**
+ * Damper settings of an axle or a corner. Single-adjuster dampers only use
+ * bump and rebound, four-way dampers use them for the low-speed adjusters
+ */
+export const DamperSettingsSchema = Type.Object({
+  bump: Type.Number({ description: 'Bump/compression damping, low-speed on four-way dampers (0-100 scale or clicks)' }),
+  rebound: Type.Number({ description: 'Rebound damping, low-speed on four-way dampers (0-100 scale or clicks)' }),
+  highSpeedBump: Type.Optional(Type.Number({ description: 'High-speed bump/compression damping (four-way dampers only)' })),
+  highSpeedRebound: Type.Optional(Type.Number({ description: 'High-speed rebound damping (four-way dampers only)' })),
+  bumpSlope: Type.Optional(Type.Number({ description: 'Slope of the high-speed bump curve (four-way dampers only)' })),
+  reboundSlope: Type.Optional(Type.Number({ description: 'Slope of the high-speed rebound curve (four-way dampers only)' }))
+});
+
+export type DamperSettings = Static<typeof DamperSettingsSchema>;
+
+/**
+ * Suspension settings of an axle
+ */
+export const AxleSuspensionSchema = Type.Object({
+  springRate: Type.Number({ description: 'Spring rate in N/m' }),
+  rideHeight: Type.Number({ description: 'Ride height in mm' }),
+  camber: Type.Number({ description: 'Camber angle in degrees (negative is tilted inward at top)' }),
+  toe: Type.Number({ description: 'Toe angle in degrees (positive is toe-in)' }),
+  antiRollBar: Type.Number({ description: 'Anti-roll bar stiffness (0-100 scale or specific units)' })
+});
+
+export type AxleSuspension = Static<typeof AxleSuspensionSchema>;
+
+/**
+ * Settings of a single corner of the car
+ */
+export const CornerSettingsSchema = Type.Object({
+  springRate: Type.Number({ description: 'Spring rate in N/m' }),
+  rideHeight: Type.Number({ description: 'Ride height in mm' }),
+  camber: Type.Number({ description: 'Camber angle in degrees (negative is tilted inward at top)' }),
+  toe: Type.Number({ description: 'Toe angle in degrees (positive is toe-in)' }),
+  damper: DamperSettingsSchema,
+  cornerWeight: Type.Optional(Type.Number({ description: 'Static corner weight in N' })),
+  packers: Type.Optional(Type.Number({ description: 'Packer (bump stop spacer) thickness in mm' })),
+  torsionBarDiameter: Type.Optional(Type.Number({
+    description: 'Outer diameter of the torsion bar in mm, on cars sprung by torsion bars (springRate is then the resulting rate)'
+  }))
+});
+
+export type CornerSettings = Static<typeof CornerSettingsSchema>;
+
+/**
+ * Settings of the four corners of the car
+ */
+export const SetupCornersSchema = Type.Object({
+  frontLeft: CornerSettingsSchema,
+  frontRight: CornerSettingsSchema,
+  rearLeft: CornerSettingsSchema,
+  rearRight: CornerSettingsSchema
+});
+
+export type SetupCorners = Static<typeof SetupCornersSchema>;
+
+/**
+ * Heave (third) spring of an axle, found on prototypes and formula cars. It
+ * acts when both wheels of the axle move together, so it controls the ride
+ * height under aero load without adding roll stiffness
+ */
+export const HeaveSpringSchema = Type.Object({
+  springRate: Type.Optional(Type.Number({ description: 'Spring rate in N/m' })),
+  perchOffset: Type.Optional(Type.Number({ description: 'Spring perch offset (preload) in mm' })),
+  packers: Type.Optional(Type.Number({ description: 'Packer (bump stop spacer) thickness in mm' })),
+  damper: Type.Optional(DamperSettingsSchema)
+});
+
+export type HeaveSpring = Static<typeof HeaveSpringSchema>;
+
+/**
+ * Gearbox settings. Ratios are input shaft to output shaft (e.g. 3.2 means the
+ * engine turns 3.2 times per turn of the output shaft)
+ */
+export const GearboxSchema = Type.Object({
+  ratios: Type.Array(Type.Number({ exclusiveMinimum: 0 }), { description: 'Ratio of each forward gear, from first gear onwards' }),
+  finalDrive: Type.Optional(Type.Number({ exclusiveMinimum: 0, description: 'Final drive ratio, applied on top of the gear ratio' }))
+});
+
+export type Gearbox = Static<typeof GearboxSchema>;
+
+/**
+ * Metadata about a setup
+ */
+export const SetupMetadataSchema = Type.Object({
+  created: Type.String({ description: 'Creation date' }),
+  modified: Type.String({ description: 'Last modified date' }),
+  author: Type.Optional(Type.String({ description: 'Creator name or identifier' })),
+  version: Type.Optional(Type.String({ description: 'Version of the setup' }))
+});
+
+export type SetupMetadata = Static<typeof SetupMetadataSchema>;
+
+/**
+ * Structured iRacing car setup shared by the parser, the agents and the UI
+ *
+ * Values are stored in the base unit of their quantity (kPa, N/m, mm, °C).
+ * Consumers may add their own top-level fields (e.g. the raw .sto data of the
+ * parser), so unknown top-level properties are allowed.
+ */
+export const SetupSchema = Type.Object({
+  carId: Type.String({ description: 'Car model identifier' }),
+  trackId: Type.String({ description: 'Track identifier' }),
+  name: Type.String({ description: 'Setup name' }),
+  description: Type.Optional(Type.String({ description: 'Setup description or notes' })),
+  suspension: Type.Object({
+    front: AxleSuspensionSchema,
+    rear: AxleSuspensionSchema
+  }, { description: 'Suspension settings' }),
+  dampers: Type.Object({
+    front: DamperSettingsSchema,
+    rear: DamperSettingsSchema
+  }, { description: 'Damper/shock absorber settings' }),
+  // Per-corner settings for asymmetric setups; when present the front/rear
+  // suspension and damper values are derived from them (left/right average)
+  corners: Type.Optional(SetupCornersSchema),
+  heaveSprings: Type.Optional(Type.Object({
+    front: Type.Optional(HeaveSpringSchema),
+    rear: Type.Optional(HeaveSpringSchema)
+  }, { description: 'Heave/third springs, on cars that have them' })),
+  tirePressures: Type.Object({
+    frontLeft: Type.Number(),
+    frontRight: Type.Number(),
+    rearLeft: Type.Number(),
+    rearRight: Type.Number()
+  }, { description: 'Tire pressure settings in kPa' }),
+  tireCompound: Type.Optional(Type.String({ description: 'Tire compound as named by the car\'s garage (e.g. "Dry", "Wet")' })),
+  aero: Type.Object({
+    frontWing: Type.Optional(Type.Number({ description: 'Front wing/splitter setting (0-100 scale or specific units)' })),
+    rearWing: Type.Optional(Type.Number({ description: 'Rear wing setting (0-100 scale or specific units)' }))
+  }, { description: 'Aerodynamic settings' }),
+  cooling: Type.Optional(Type.Object({
+    frontBrakeDucts: Type.Optional(Type.Number({ description: 'Front brake duct opening (0 is closed)' })),
+    rearBrakeDucts: Type.Optional(Type.Number({ description: 'Rear brake duct opening (0 is closed)' })),
+    radiator: Type.Optional(Type.Number({ description: 'Radiator opening (0 is closed)' }))
+  }, { description: 'Brake duct and radiator openings' })),
+  fuel: Type.Optional(Type.Object({
+    level: Type.Number({ description: 'Fuel load in liters' })
+  }, { description: 'Fuel settings' })),
+  ballast: Type.Optional(Type.Object({
+    weight: Type.Optional(Type.Number({ description: 'Ballast weight in kg' })),
+    position: Type.Optional(Type.Number({ description: 'Fore-aft ballast position (lower is further forward)' }))
+  }, { description: 'Ballast settings' })),
+  crossWeight: Type.Optional(Type.Number({ description: 'Cross weight in percent, right front and left rear corner weights over the total' })),
+  electronics: Type.Optional(Type.Object({
+    tractionControl: Type.Optional(Type.Number({ description: 'Traction control map (higher intervenes more, 0 is off)' })),
+    abs: Type.Optional(Type.Number({ description: 'ABS map (higher intervenes more, 0 is off)' }))
+  }, { description: 'Driver aid settings' })),
+  differential: Type.Optional(Type.Object({
+    preload: Type.Number({ description: 'Preload setting (0-100 scale or specific units)' }),
+    powerRamp: Type.Optional(Type.Number({ description: 'Power/acceleration ramp setting (0-100 scale or percentage)' })),
+    coastRamp: Type.Optional(Type.Number({ description: 'Coast/deceleration ramp setting (0-100 scale or percentage)' }))
+  }, { description: 'Differential settings' })),
+  brakeBias: Type.Number({ description: 'Brake bias as percentage to the front (e.g., 55 means 55% front, 45% rear)' }),
+  gearbox: Type.Optional(GearboxSchema),
+  additionalSettings: Type.Optional(Type.Record(Type.String(), Type.Any(), {
+    description: 'Additional car-specific settings that don\'t fit in the standard categories'
+  })),
+  metadata: Type.Optional(SetupMetadataSchema)
+});
+
+export type Setup = Static<typeof SetupSchema>;
@@ -0,0 +1,84 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { SetupValidationError, getSetupValidationErrors, isValidSetup, validateSetupData } from './validate';
+import { getAurigaDocumentJsonSchema, getSetupJsonSchema } from './json-schema';
+
+/**
+ * Smallest setup the schema accepts
+ */
+function createSetup(): Record<string, any> {
+  const axle = { springRate: 180000, rideHeight: 55, camber: -3.8, toe: -0.06, antiRollBar: 4 };
+  const dampers = { bump: 10, rebound: 12 };
+
+  return {
+    carId: 'bmw_m4_gt3',
+    trackId: 'spa',
+    name: 'Baseline',
+    suspension: { front: { ...axle }, rear: { ...axle } },
+    dampers: { front: { ...dampers }, rear: { ...dampers } },
+    tirePressures: { frontLeft: 165.5, frontRight: 165.5, rearLeft: 162, rearRight: 162 },
+    aero: { rearWing: 5 },
+    brakeBias: 54.2
+  };
+}
+
+describe('getSetupValidationErrors', () => {
+  it('accepts valid setups, with the top-level fields of consumers', () => {
+    expect(getSetupValidationErrors(createSetup())).toEqual([]);
+    expect(getSetupValidationErrors({ ...createSetup(), rawSetup: { sections: {} } })).toEqual([]);
+  });
+
+  it('lists every problem with the path of the field', () => {
+    const setup = createSetup();
+    setup.suspension.front.camber = '-3.8';
+    delete setup.brakeBias;
+    setup.gearbox = { ratios: [2.9, 0] };
+
+    expect(getSetupValidationErrors(setup)).toEqual([
+      "setup must have required property 'brakeBias'",
+      'setup/suspension/front/camber must be number',
+      'setup/gearbox/ratios/1 must be > 0'
+    ]);
+  });
+
+  it('rejects data that is not an object', () => {
+    expect(getSetupValidationErrors(null)).toEqual(['setup must be object']);
+  });
+});
+
+describe('isValidSetup', () => {
+  it('tells valid and invalid setups apart', () => {
+    expect(isValidSetup(createSetup())).toBe(true);
+    expect(isValidSetup({ ...createSetup(), tirePressures: { frontLeft: 165.5 } })).toBe(false);
+  });
+});
+
+describe('validateSetupData', () => {
+  it('returns valid data as is', () => {
+    const setup = createSetup();
+
+    expect(validateSetupData(setup)).toBe(setup);
+  });
+
+  it('throws a SetupValidationError naming the source of the data', () => {
+    const setup = { ...createSetup(), name: 12 };
+
+    expect(() => validateSetupData(setup, 'setup file baseline.json')).toThrow(
+      'Invalid setup file baseline.json: setup/name must be string'
+    );
+    expect(() => validateSetupData(setup)).toThrow(SetupValidationError);
+    expect(() => validateSetupData(setup)).toThrow(expect.objectContaining({ errors: ['setup/name must be string'] }));
+  });
+});
+
+describe('JSON Schemas', () => {
+  it.each([
+    ['setup.schema.json', getSetupJsonSchema],
+    ['auriga-setup.schema.json', getAurigaDocumentJsonSchema]
+  ])('keeps %s in sync with the TypeBox schema', (fileName, getSchema) => {
+    const committed = JSON.parse(fs.readFileSync(path.join(__dirname, '..', fileName), 'utf8'));
+
+    expect(committed).toEqual(getSchema());
+  });
+});
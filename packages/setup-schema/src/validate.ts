@@ -0,0 +1,64 @@
+import Ajv from 'ajv';
+import { Setup, SetupSchema } from './schema';
+
+const ajv = new Ajv({ allErrors: true });
+const validateSchema = ajv.compile<Setup>(SetupSchema);
+
+/**
+ * Error thrown when data doesn't match the setup schema
+ */
+export class SetupValidationError extends Error {
+  /**
+   * Schema violations, one message per problem
+   */
+  public errors: string[];
+
+  /**
+   * Create a new SetupValidationError
+   * @param source Description of where the data comes from
+   * @param errors Schema violations
+   */
+  constructor(source: string, errors: string[]) {
+    super(`Invalid ${source}: ${errors.join(', ')}`);
+    this.name = 'SetupValidationError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * List the schema violations of data that should be a setup
+ * @param data Data to check
+ * @returns One message per problem (e.g. 'setup/suspension/front/camber must be number'), empty if the data is a valid setup
+ */
+export function getSetupValidationErrors(data: unknown): string[] {
+  if (validateSchema(data)) return [];
+
+  return (validateSchema.errors || []).map(error =>
+    `setup${error.instancePath} ${error.message}`
+  );
+}
+
+/**
+ * Check whether data is a valid setup
+ * @param data Data to check
+ * @returns True if the data matches the setup schema
+ */
+export function isValidSetup(data: unknown): data is Setup {
+  return validateSchema(data);
+}
+
+/**
+ * Validate data against the setup schema
+ * @param data Data to validate (e.g. the result of JSON.parse)
+ * @param source Description of where the data comes from, used in error messages
+ * @returns The data, typed as a setup
+ * @throws SetupValidationError if the data is not a valid setup
+ */
+export function validateSetupData<T extends Setup = Setup>(data: unknown, source: string = 'setup'): T {
+  const errors = getSetupValidationErrors(data);
+  if (errors.length > 0) {
+    throw new SetupValidationError(source, errors);
+  }
+
+  return data as T;
+}